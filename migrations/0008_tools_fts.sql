@@ -0,0 +1,64 @@
+-- Full-text search index for tools.
+-- One row per (tool, locale). The 'en' row is kept in sync with `tools` and
+-- `tags` by the triggers below; translated rows are written by
+-- scripts/sync-search-index.mjs from src/data/translations/*.json.
+CREATE VIRTUAL TABLE `tools_fts` USING fts5(
+  tool_id UNINDEXED,
+  locale UNINDEXED,
+  name,
+  description,
+  core_task,
+  tags,
+  seo_title,
+  seo_description,
+  seo_focus_keyword,
+  seo_task_phrase,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_after_insert` AFTER INSERT ON `tools` BEGIN
+  INSERT INTO tools_fts (tool_id, locale, name, description, core_task, tags, seo_title, seo_description, seo_focus_keyword, seo_task_phrase)
+  VALUES (NEW.id, 'en', NEW.name, NEW.description, NEW.core_task, '', NEW.seo_title, NEW.seo_description, NEW.seo_focus_keyword, NEW.seo_task_phrase);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_after_update` AFTER UPDATE OF name, description, core_task, seo_title, seo_description, seo_focus_keyword, seo_task_phrase ON `tools` BEGIN
+  UPDATE tools_fts
+  SET description = NEW.description,
+      core_task = NEW.core_task,
+      seo_title = NEW.seo_title,
+      seo_description = NEW.seo_description,
+      seo_focus_keyword = NEW.seo_focus_keyword,
+      seo_task_phrase = NEW.seo_task_phrase
+  WHERE tool_id = NEW.id AND locale = 'en';
+  -- Other locales copy the base name unless they have their own
+  UPDATE tools_fts SET name = NEW.name WHERE tool_id = NEW.id AND name IS OLD.name;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_after_delete` AFTER DELETE ON `tools` BEGIN
+  DELETE FROM tools_fts WHERE tool_id = OLD.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_tags_after_insert` AFTER INSERT ON `tags` BEGIN
+  UPDATE tools_fts
+  SET tags = COALESCE((SELECT group_concat(tag_value, ' ') FROM tags WHERE tool_id = NEW.tool_id), '')
+  WHERE tool_id = NEW.tool_id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_tags_after_update` AFTER UPDATE ON `tags` BEGIN
+  UPDATE tools_fts
+  SET tags = COALESCE((SELECT group_concat(tag_value, ' ') FROM tags WHERE tool_id = NEW.tool_id), '')
+  WHERE tool_id = NEW.tool_id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_fts_tags_after_delete` AFTER DELETE ON `tags` BEGIN
+  UPDATE tools_fts
+  SET tags = COALESCE((SELECT group_concat(tag_value, ' ') FROM tags WHERE tool_id = OLD.tool_id), '')
+  WHERE tool_id = OLD.tool_id;
+END;
+--> statement-breakpoint
+INSERT INTO tools_fts (tool_id, locale, name, description, core_task, tags, seo_title, seo_description, seo_focus_keyword, seo_task_phrase)
+SELECT
+  t.id, 'en', t.name, t.description, t.core_task,
+  COALESCE((SELECT group_concat(tag_value, ' ') FROM tags WHERE tool_id = t.id), ''),
+  t.seo_title, t.seo_description, t.seo_focus_keyword, t.seo_task_phrase
+FROM tools t;
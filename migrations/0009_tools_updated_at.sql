@@ -0,0 +1,35 @@
+-- Last time a tool's public data changed. Drives Last-Modified/ETag on the
+-- public API, so it is maintained by triggers and covers every write path
+-- (API routes, cron worker, scripts).
+ALTER TABLE `tools` ADD `updated_at` integer;
+--> statement-breakpoint
+UPDATE `tools` SET `updated_at` = COALESCE(`approved_at`, `submitted_at`);
+--> statement-breakpoint
+CREATE INDEX `idx_tools_updated_at` ON `tools` (`updated_at`);
+--> statement-breakpoint
+CREATE TRIGGER `tools_updated_at_after_insert` AFTER INSERT ON `tools` WHEN NEW.updated_at IS NULL BEGIN
+  UPDATE tools SET updated_at = CAST(strftime('%s', 'now') AS INTEGER) WHERE id = NEW.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tools_updated_at_after_update` AFTER UPDATE ON `tools`
+WHEN NEW.updated_at IS OLD.updated_at AND (
+  OLD.slug IS NOT NEW.slug OR OLD.name IS NOT NEW.name OR OLD.url IS NOT NEW.url
+  OR OLD.description IS NOT NEW.description OR OLD.core_task IS NOT NEW.core_task
+  OR OLD.status IS NOT NEW.status OR OLD.approved_at IS NOT NEW.approved_at
+  OR OLD.is_featured IS NOT NEW.is_featured OR OLD.archive_url IS NOT NEW.archive_url
+  OR OLD.repo_url IS NOT NEW.repo_url OR OLD.twitter_url IS NOT NEW.twitter_url
+  OR OLD.github_url IS NOT NEW.github_url OR OLD.discord_url IS NOT NEW.discord_url
+  OR OLD.github_stars IS NOT NEW.github_stars OR OLD.github_forks IS NOT NEW.github_forks
+  OR OLD.github_license IS NOT NEW.github_license OR OLD.github_language IS NOT NEW.github_language
+  OR OLD.github_updated_at IS NOT NEW.github_updated_at
+) BEGIN
+  UPDATE tools SET updated_at = CAST(strftime('%s', 'now') AS INTEGER) WHERE id = NEW.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tags_touch_tool_after_insert` AFTER INSERT ON `tags` BEGIN
+  UPDATE tools SET updated_at = CAST(strftime('%s', 'now') AS INTEGER) WHERE id = NEW.tool_id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tags_touch_tool_after_delete` AFTER DELETE ON `tags` BEGIN
+  UPDATE tools SET updated_at = CAST(strftime('%s', 'now') AS INTEGER) WHERE id = OLD.tool_id;
+END;
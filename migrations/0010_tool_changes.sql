@@ -0,0 +1,12 @@
+CREATE TABLE `tool_changes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tool_id` integer NOT NULL,
+	`slug` text NOT NULL,
+	`event_type` text NOT NULL,
+	`status` text,
+	`previous_status` text,
+	`changed_fields` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_tool_changes_created_at` ON `tool_changes` (`created_at`);
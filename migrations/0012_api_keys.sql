@@ -0,0 +1,21 @@
+CREATE TABLE `api_keys` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`key_prefix` text NOT NULL,
+	`key_hash` text NOT NULL,
+	`rate_limit_per_minute` integer,
+	`created_at` integer NOT NULL,
+	`last_used_at` integer,
+	`revoked_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_keys_key_hash_unique` ON `api_keys` (`key_hash`);
+--> statement-breakpoint
+CREATE TABLE `rate_limit_buckets` (
+	`bucket_key` text PRIMARY KEY NOT NULL,
+	`tokens` real NOT NULL,
+	`allowed` integer DEFAULT true NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_rate_limit_buckets_updated_at` ON `rate_limit_buckets` (`updated_at`);
@@ -0,0 +1,13 @@
+CREATE TABLE `login_checks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tool_id` integer NOT NULL,
+	`checked_at` integer NOT NULL,
+	`verdict` text NOT NULL,
+	`http_status` integer,
+	`final_url` text NOT NULL,
+	`redirect_chain` text NOT NULL,
+	`evidence` text NOT NULL,
+	FOREIGN KEY (`tool_id`) REFERENCES `tools`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_login_checks_tool_id_checked_at` ON `login_checks` (`tool_id`,`checked_at`);
@@ -0,0 +1,11 @@
+CREATE TABLE `tracker_scans` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tool_id` integer NOT NULL,
+	`scanned_at` integer NOT NULL,
+	`http_status` integer,
+	`trackers` text NOT NULL,
+	`cookies` text NOT NULL,
+	FOREIGN KEY (`tool_id`) REFERENCES `tools`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tracker_scans_tool_id_unique` ON `tracker_scans` (`tool_id`);
@@ -0,0 +1,11 @@
+ALTER TABLE `tools` ADD `submitter_locale` text;--> statement-breakpoint
+ALTER TABLE `edit_suggestions` ADD `submitter_email` text;--> statement-breakpoint
+ALTER TABLE `edit_suggestions` ADD `submitter_locale` text;--> statement-breakpoint
+ALTER TABLE `tools` ADD `submitter_email_token` text;--> statement-breakpoint
+ALTER TABLE `edit_suggestions` ADD `submitter_email_token` text;--> statement-breakpoint
+CREATE INDEX `idx_tools_submitter_email_token` ON `tools` (`submitter_email_token`);--> statement-breakpoint
+CREATE INDEX `idx_edit_suggestions_submitter_email_token` ON `edit_suggestions` (`submitter_email_token`);--> statement-breakpoint
+CREATE TABLE `email_suppressions` (
+	`token` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL
+);
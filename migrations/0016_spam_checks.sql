@@ -0,0 +1,20 @@
+CREATE TABLE `settings` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `submission_checks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tool_id` integer,
+	`url` text NOT NULL,
+	`submitter_ip_hash` text,
+	`checked_at` integer NOT NULL,
+	`blocked` integer NOT NULL,
+	`results` text NOT NULL,
+	FOREIGN KEY (`tool_id`) REFERENCES `tools`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_submission_checks_tool_id` ON `submission_checks` (`tool_id`);
+--> statement-breakpoint
+CREATE INDEX `idx_submission_checks_checked_at` ON `submission_checks` (`checked_at`);
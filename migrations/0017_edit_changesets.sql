@@ -0,0 +1,6 @@
+-- The fields of one edit suggestion are stored a row each and share a
+-- changeset id, so they are reviewed together. Older rows have none and
+-- stand alone.
+ALTER TABLE `edit_suggestions` ADD `changeset_id` text;
+--> statement-breakpoint
+CREATE INDEX `idx_edit_suggestions_changeset_id` ON `edit_suggestions` (`changeset_id`);
@@ -0,0 +1,29 @@
+CREATE TABLE `tool_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tool_id` integer NOT NULL,
+	`source` text NOT NULL,
+	`snapshot` text NOT NULL,
+	`changed_fields` text,
+	`restored_revision_id` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`tool_id`) REFERENCES `tools`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_tool_revisions_tool_id` ON `tool_revisions` (`tool_id`,`id`);
+--> statement-breakpoint
+-- Existing tools start their history from their current state. Same shape
+-- as buildSnapshot() in src/lib/revisions.mjs; tags are compared as sets.
+INSERT INTO `tool_revisions` (`tool_id`, `source`, `snapshot`, `created_at`)
+SELECT t.id, 'baseline', json_object(
+  'name', t.name, 'url', t.url, 'description', NULLIF(t.description, ''), 'coreTask', NULLIF(t.core_task, ''),
+  'repoUrl', NULLIF(t.repo_url, ''), 'twitterUrl', NULLIF(t.twitter_url, ''),
+  'githubUrl', NULLIF(t.github_url, ''), 'discordUrl', NULLIF(t.discord_url, ''),
+  'seoTitle', NULLIF(t.seo_title, ''), 'seoDescription', NULLIF(t.seo_description, ''),
+  'seoFocusKeyword', NULLIF(t.seo_focus_keyword, ''), 'seoIntent', NULLIF(t.seo_intent, ''),
+  'seoTaskPhrase', NULLIF(t.seo_task_phrase, ''),
+  'tags', json(COALESCE(
+    (SELECT json_group_array(json_object('key', g.tag_key, 'value', g.tag_value)) FROM tags g WHERE g.tool_id = t.id),
+    '[]'
+  ))
+), COALESCE(t.updated_at, t.approved_at, t.submitted_at)
+FROM `tools` t;
@@ -0,0 +1,11 @@
+-- Sources blocked from suggesting edits, by a hash of the IP that does not
+-- rotate daily. Their suggestions are stored as rejected until expires_at.
+CREATE TABLE `edit_source_blocks` (
+	`source_hash` text PRIMARY KEY NOT NULL,
+	`blocked_at` integer NOT NULL,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `edit_suggestions` ADD `submitter_source_hash` text;
+--> statement-breakpoint
+CREATE INDEX `idx_edit_suggestions_submitter_source_hash` ON `edit_suggestions` (`submitter_source_hash`);
@@ -0,0 +1,72 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  DEFAULT_SPAM_SETTINGS,
+  decideSpamOutcome,
+  findBlockedHostname,
+  parseSpamSettings,
+} from '../../src/lib/anti-spam.mjs';
+
+const { excludeHostnames } = JSON.parse(
+  readFileSync(new URL('../tool-discovery-sources.json', import.meta.url), 'utf-8')
+);
+
+describe('parseSpamSettings', () => {
+  it('falls back to the defaults', () => {
+    assert.deepEqual(parseSpamSettings(null), DEFAULT_SPAM_SETTINGS);
+    assert.deepEqual(parseSpamSettings('block'), DEFAULT_SPAM_SETTINGS);
+  });
+
+  it('keeps known actions and ignores the rest', () => {
+    assert.deepEqual(parseSpamSettings({ honeypot: 'off', reachability: 'block', challenge: 'maybe', extra: 'block' }), {
+      ...DEFAULT_SPAM_SETTINGS,
+      honeypot: 'off',
+      reachability: 'block',
+    });
+  });
+});
+
+describe('findBlockedHostname', () => {
+  const hostnames = ['example.com', 'blocked.dev'];
+
+  it('matches the hostname, www and subdomains', () => {
+    assert.equal(findBlockedHostname('https://example.com/tool', hostnames), 'example.com');
+    assert.equal(findBlockedHostname('https://www.Example.com', hostnames), 'example.com');
+    assert.equal(findBlockedHostname('https://app.blocked.dev/x', hostnames), 'blocked.dev');
+  });
+
+  it('does not match lookalikes or bad URLs', () => {
+    assert.equal(findBlockedHostname('https://notexample.com', hostnames), null);
+    assert.equal(findBlockedHostname('https://example.com.evil.io', hostnames), null);
+    assert.equal(findBlockedHostname('not a url', hostnames), null);
+  });
+
+  it('uses the tool discovery exclusions', () => {
+    assert.ok(excludeHostnames.length > 0);
+    assert.equal(findBlockedHostname(`https://${excludeHostnames[0]}/`, excludeHostnames), excludeHostnames[0]);
+  });
+});
+
+describe('decideSpamOutcome', () => {
+  it('blocks on a failed blocking check and flags on a failed flagging check', () => {
+    /** @type {import('../../src/lib/anti-spam.mjs').SpamCheckResult[]} */
+    const results = [
+      { check: 'honeypot', outcome: 'pass', action: 'block', detail: null },
+      { check: 'challenge', outcome: 'fail', action: 'flag', detail: 'Challenge expired' },
+      { check: 'blocklist', outcome: 'fail', action: 'block', detail: 'On the blocklist: example.com' },
+    ];
+    assert.deepEqual(decideSpamOutcome(results), { blocked: results[2], flagged: true });
+  });
+
+  it('ignores passed and skipped checks', () => {
+    assert.deepEqual(
+      decideSpamOutcome([
+        { check: 'honeypot', outcome: 'pass', action: 'block', detail: null },
+        { check: 'reachability', outcome: 'skipped', action: 'block', detail: 'Already blocked' },
+      ]),
+      { blocked: null, flagged: false }
+    );
+  });
+});
@@ -0,0 +1,149 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { csvToTools, findTagErrors, parseCsv, parseImportInput } from '../../src/lib/bulk-import.mjs';
+
+const definitions = JSON.parse(readFileSync(new URL('../tag-definitions.json', import.meta.url), 'utf-8'));
+const tagKeys = definitions.map((/** @type {{ key: string }} */ d) => d.key);
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    assert.deepEqual(parseCsv('a,b\n1,2\n'), [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('handles quoted commas, newlines and doubled quotes', () => {
+    assert.deepEqual(parseCsv('name,description\n"Foo, Inc","Line one\nsays ""hi"""'), [
+      ['name', 'description'],
+      ['Foo, Inc', 'Line one\nsays "hi"'],
+    ]);
+  });
+
+  it('accepts CRLF, skips blank lines and strips a BOM', () => {
+    assert.deepEqual(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n'), [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty cells', () => {
+    assert.deepEqual(parseCsv('a,,c\n,,'), [
+      ['a', '', 'c'],
+      ['', '', ''],
+    ]);
+  });
+});
+
+describe('csvToTools', () => {
+  it('maps field columns and collects tag columns', () => {
+    const csv = 'name,url,coreTask,category,privacy,repoUrl\nFoo,https://foo.app,Convert files,Media,No Trackers; Privacy Focused,';
+    assert.deepEqual(csvToTools(csv, tagKeys), {
+      rows: [
+        {
+          name: 'Foo',
+          url: 'https://foo.app',
+          coreTask: 'Convert files',
+          tags: [
+            { key: 'category', value: 'Media' },
+            { key: 'privacy', value: 'No Trackers' },
+            { key: 'privacy', value: 'Privacy Focused' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('rejects unknown columns', () => {
+    const result = csvToTools('name,url,homepage\nFoo,https://foo.app,x', tagKeys);
+    assert.ok('error' in result);
+    assert.match(result.error, /homepage/);
+  });
+
+  it('requires the name and url columns', () => {
+    assert.ok('error' in csvToTools('name,description\nFoo,Bar', tagKeys));
+    assert.ok('error' in csvToTools('', tagKeys));
+  });
+});
+
+describe('parseImportInput', () => {
+  it('parses a JSON array or a single object', () => {
+    assert.deepEqual(parseImportInput('[{"name":"A"},{"name":"B"}]', tagKeys), {
+      format: 'json',
+      rows: [{ name: 'A' }, { name: 'B' }],
+    });
+    assert.deepEqual(parseImportInput('  {"name":"A"}\n', tagKeys), { format: 'json', rows: [{ name: 'A' }] });
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseImportInput('[{"name":', tagKeys);
+    assert.ok('error' in result);
+    assert.match(result.error, /^Invalid JSON/);
+  });
+
+  it('treats anything else as CSV', () => {
+    const result = parseImportInput('name,url\nFoo,https://foo.app', tagKeys);
+    assert.deepEqual(result, { format: 'csv', rows: [{ name: 'Foo', url: 'https://foo.app', tags: [] }] });
+  });
+
+  it('rejects empty input', () => {
+    assert.ok('error' in parseImportInput('  \n', tagKeys));
+  });
+});
+
+describe('findTagErrors', () => {
+  it('accepts the auto-tools sample', () => {
+    const sample = JSON.parse(readFileSync(new URL('../../.github/auto-tools/clideo-com.json', import.meta.url), 'utf-8'));
+    const result = parseImportInput(JSON.stringify(sample), tagKeys);
+    assert.ok('rows' in result);
+    for (const row of result.rows) {
+      assert.deepEqual(findTagErrors(/** @type {any} */ (row).tags, definitions), []);
+    }
+  });
+
+  it('reports unknown keys and values', () => {
+    assert.deepEqual(
+      findTagErrors(
+        [
+          { key: 'category', value: 'Media' },
+          { key: 'color', value: 'Green' },
+          { key: 'pricing', value: 'Cheap' },
+        ],
+        definitions
+      ),
+      ['Unknown tag key: color.', 'Unknown pricing tag: Cheap.']
+    );
+  });
+
+  it('requires exactly one category', () => {
+    assert.deepEqual(findTagErrors([], definitions), ['Exactly one category tag is required.']);
+    assert.deepEqual(
+      findTagErrors(
+        [
+          { key: 'category', value: 'Media' },
+          { key: 'category', value: 'AI' },
+        ],
+        definitions
+      ),
+      ['Exactly one category tag is required.']
+    );
+  });
+
+  it('allows several values only for multi-select keys', () => {
+    assert.deepEqual(
+      findTagErrors(
+        [
+          { key: 'category', value: 'Media' },
+          { key: 'privacy', value: 'No Trackers' },
+          { key: 'privacy', value: 'Privacy Focused' },
+          { key: 'type', value: 'PWA' },
+          { key: 'type', value: 'CLI' },
+        ],
+        definitions
+      ),
+      ['Only one type tag is allowed.']
+    );
+  });
+});
@@ -0,0 +1,145 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canonicalizeUrl,
+  urlMatchKey,
+  siteKey,
+  nameSimilarity,
+  namesMatch,
+  findPossibleDuplicates,
+  resolveRedirect,
+} from '../../src/lib/duplicates.mjs';
+
+/** @param {number} id @param {string} name @param {string} url @param {string} [status] */
+function tool(id, name, url, status = 'approved') {
+  return { id, slug: `tool-${id}`, name, url, status };
+}
+
+describe('canonicalizeUrl', () => {
+  it('lowercases the host and drops the fragment, default port and root slash', () => {
+    assert.equal(canonicalizeUrl(' HTTPS://Example.COM:443/#top '), 'https://example.com');
+    assert.equal(canonicalizeUrl('http://example.com:8080/app/'), 'http://example.com:8080/app/');
+  });
+
+  it('removes tracking parameters and keeps the rest', () => {
+    assert.equal(canonicalizeUrl('https://example.com/?ref=producthunt'), 'https://example.com');
+    assert.equal(
+      canonicalizeUrl('https://example.com/edit?utm_source=x&UTM_Medium=y&lang=en&fbclid=abc'),
+      'https://example.com/edit?lang=en'
+    );
+  });
+
+  it('rejects anything that is not an http(s) URL', () => {
+    assert.equal(canonicalizeUrl('ftp://example.com'), null);
+    assert.equal(canonicalizeUrl('example.com'), null);
+    assert.equal(canonicalizeUrl('javascript:alert(1)'), null);
+  });
+});
+
+describe('urlMatchKey', () => {
+  it('treats scheme, www, trailing slashes and tracking parameters as the same URL', () => {
+    const key = urlMatchKey('https://example.com');
+    assert.equal(key, 'example.com');
+    assert.equal(urlMatchKey('http://www.example.com/'), key);
+    assert.equal(urlMatchKey('https://example.com/?ref=x'), key);
+  });
+
+  it('keeps paths and meaningful query parameters apart', () => {
+    assert.equal(urlMatchKey('https://example.com/tool/'), 'example.com/tool');
+    assert.notEqual(urlMatchKey('https://example.com/a'), urlMatchKey('https://example.com/b'));
+    assert.equal(urlMatchKey('https://example.com/?b=2&a=1'), urlMatchKey('https://example.com/?a=1&b=2'));
+  });
+});
+
+describe('siteKey', () => {
+  it('groups subdomains under the registrable domain', () => {
+    assert.equal(siteKey('https://app.example.com/x'), 'example.com');
+    assert.equal(siteKey('https://www.example.co.uk'), 'example.co.uk');
+  });
+
+  it('keeps sites on shared hosting apart', () => {
+    assert.equal(siteKey('https://alice.github.io/tool'), 'alice.github.io');
+    assert.notEqual(siteKey('https://a.vercel.app'), siteKey('https://b.vercel.app'));
+  });
+});
+
+describe('name matching', () => {
+  it('ignores case, spacing and punctuation', () => {
+    assert.equal(nameSimilarity('Photo Pea', 'photopea'), 1);
+    assert.ok(namesMatch('Excalidraw', 'Excalidraww'));
+  });
+
+  it('matches a name with extra trailing words', () => {
+    assert.ok(namesMatch('Photopea', 'Photopea Online Editor'));
+    assert.ok(!namesMatch('Draw', 'Drawing Board'));
+  });
+
+  it('does not match unrelated names', () => {
+    assert.ok(!namesMatch('Excalidraw', 'Photopea'));
+    assert.ok(nameSimilarity('TinyPNG', 'Squoosh') < 0.5);
+  });
+});
+
+describe('findPossibleDuplicates', () => {
+  const existing = [
+    tool(1, 'Excalidraw', 'https://excalidraw.com'),
+    tool(2, 'Photopea', 'https://www.photopea.com', 'pending'),
+    tool(3, 'Other Space', 'https://huggingface.co/spaces/a/other'),
+    tool(4, 'Squoosh', 'https://squoosh.app'),
+  ];
+
+  it('reports the same URL first', () => {
+    const matches = findPossibleDuplicates({ name: 'Photopea Editor', url: 'http://photopea.com/?ref=x' }, existing);
+    assert.equal(matches[0].id, 2);
+    assert.deepEqual(matches[0].reasons, ['url', 'name']);
+  });
+
+  it('reports tools on the same site when either is the site root', () => {
+    const matches = findPossibleDuplicates({ name: 'Whiteboard', url: 'https://plus.excalidraw.com/app' }, existing);
+    assert.deepEqual(matches.map((m) => [m.id, m.reasons]), [[1, ['site']]]);
+  });
+
+  it('does not group different pages of a shared platform', () => {
+    assert.deepEqual(findPossibleDuplicates({ name: 'My Space', url: 'https://huggingface.co/spaces/b/mine' }, existing), []);
+  });
+
+  it('reports similar names on other sites', () => {
+    const matches = findPossibleDuplicates({ name: 'squoosh', url: 'https://squoosh-mirror.example.org' }, existing);
+    assert.deepEqual(matches.map((m) => [m.id, m.reasons]), [[4, ['name']]]);
+  });
+
+  it('skips the candidate itself', () => {
+    assert.deepEqual(findPossibleDuplicates({ id: 1, name: 'Excalidraw', url: 'https://excalidraw.com' }, existing), []);
+  });
+});
+
+describe('resolveRedirect', () => {
+  /** @param {number} status @param {string} [location] */
+  function fakeFetch(status, location) {
+    /** @type {any} */
+    const impl = async () => new Response(null, { status, headers: location ? { Location: location } : {} });
+    return impl;
+  }
+
+  it('follows a redirect within the same site', async () => {
+    assert.equal(
+      await resolveRedirect('http://example.com', { fetch: fakeFetch(301, 'https://www.example.com/?utm_source=x') }),
+      'https://www.example.com'
+    );
+    assert.equal(await resolveRedirect('https://example.com/app', { fetch: fakeFetch(308, '/app/') }), 'https://example.com/app/');
+  });
+
+  it('ignores redirects to other sites and non-redirect responses', async () => {
+    assert.equal(await resolveRedirect('https://example.com', { fetch: fakeFetch(302, 'https://login.other.com/') }), 'https://example.com');
+    assert.equal(await resolveRedirect('https://example.com', { fetch: fakeFetch(200) }), 'https://example.com');
+  });
+
+  it('keeps the URL when the request fails', async () => {
+    /** @type {any} */
+    const failing = async () => {
+      throw new Error('offline');
+    };
+    assert.equal(await resolveRedirect('https://example.com', { fetch: failing }), 'https://example.com');
+  });
+});
@@ -0,0 +1,173 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  diffTags,
+  diffText,
+  findLinkSpam,
+  isSameChangeset,
+  isValidEditReason,
+  MAX_EDIT_REASON_LENGTH,
+  isSameValue,
+  mergeTags,
+  parseTagList,
+  suggestionState,
+} from '../../src/lib/edit-changes.mjs';
+
+describe('parseTagList', () => {
+  it('reads a stored tag array and ignores anything else', () => {
+    assert.deepEqual(parseTagList('[{"key":"category","value":"AI"},{"key":"pricing"},"Free"]'), [
+      { key: 'category', value: 'AI' },
+    ]);
+    assert.deepEqual(parseTagList(null), []);
+    assert.deepEqual(parseTagList('{not json'), []);
+    assert.deepEqual(parseTagList('{"key":"category"}'), []);
+  });
+});
+
+describe('diffTags', () => {
+  it('splits tags into added, removed and kept', () => {
+    const oldTags = [
+      { key: 'category', value: 'Media' },
+      { key: 'pricing', value: 'Free' },
+    ];
+    const newTags = [
+      { key: 'category', value: 'Media' },
+      { key: 'pricing', value: 'Freemium' },
+      { key: 'type', value: 'PWA' },
+    ];
+    assert.deepEqual(diffTags(oldTags, newTags), {
+      added: [
+        { key: 'pricing', value: 'Freemium' },
+        { key: 'type', value: 'PWA' },
+      ],
+      removed: [{ key: 'pricing', value: 'Free' }],
+      kept: [{ key: 'category', value: 'Media' }],
+    });
+  });
+
+  it('leaves the derived source tag out', () => {
+    const diff = diffTags([{ key: 'category', value: 'AI' }, { key: 'source', value: 'Open Source' }], [{ key: 'category', value: 'AI' }]);
+    assert.deepEqual(diff, { added: [], removed: [], kept: [{ key: 'category', value: 'AI' }] });
+  });
+});
+
+describe('isSameValue', () => {
+  it('compares text and treats a missing value as empty', () => {
+    assert.equal(isSameValue('name', 'Squoosh', 'Squoosh'), true);
+    assert.equal(isSameValue('name', 'Squoosh', 'Squoosh.app'), false);
+    assert.equal(isSameValue('repoUrl', null, ''), true);
+  });
+
+  it('compares tags as sets', () => {
+    const tags = '[{"key":"category","value":"AI"},{"key":"pricing","value":"Free"}]';
+    assert.equal(isSameValue('tags', tags, '[{"key":"pricing","value":"Free"},{"key":"category","value":"AI"}]'), true);
+    assert.equal(isSameValue('tags', tags, '[{"key":"category","value":"AI"}]'), false);
+  });
+});
+
+describe('isSameChangeset', () => {
+  it('matches the same fields and values in any order, tags as sets', () => {
+    const tags = (/** @type {{ key: string, value: string }[]} */ list) => JSON.stringify(list);
+    const suggested = [
+      { fieldName: 'name', newValue: 'Squoosh.app' },
+      { fieldName: 'tags', newValue: tags([{ key: 'category', value: 'Media' }, { key: 'pricing', value: 'Free' }]) },
+    ];
+    const again = [
+      { fieldName: 'tags', newValue: tags([{ key: 'pricing', value: 'Free' }, { key: 'category', value: 'Media' }]) },
+      { fieldName: 'name', newValue: 'Squoosh.app' },
+    ];
+    assert.equal(isSameChangeset(suggested, again), true);
+    assert.equal(isSameChangeset(suggested, [suggested[0]]), false);
+    assert.equal(isSameChangeset([{ fieldName: 'name', newValue: 'Squoosh' }], [suggested[0]]), false);
+  });
+});
+
+describe('findLinkSpam', () => {
+  it('refuses links in the name or core task', () => {
+    assert.equal(findLinkSpam([{ fieldName: 'coreTask', newValue: 'Compress images at https://cheap.example' }], null), 'coreTask');
+    assert.equal(findLinkSpam([{ fieldName: 'name', newValue: 'Squoosh.app' }], null), null);
+  });
+
+  it('allows a few links in the description and reason together', () => {
+    const description = { fieldName: 'description', newValue: 'Compress images. Source: https://github.com/GoogleChromeLabs/squoosh' };
+    assert.equal(findLinkSpam([description], 'See https://squoosh.app'), null);
+    assert.equal(findLinkSpam([description], 'See https://a.example, www.b.example'), 'reason');
+    assert.equal(findLinkSpam([{ fieldName: 'description', newValue: 'http://a.example http://b.example http://c.example' }], null), 'description');
+  });
+});
+
+describe('isValidEditReason', () => {
+  it('accepts a blank or short reason', () => {
+    assert.equal(isValidEditReason(''), true);
+    assert.equal(isValidEditReason('The site moved to a new domain.'), true);
+    assert.equal(isValidEditReason(` ${'x'.repeat(MAX_EDIT_REASON_LENGTH)} `), true);
+  });
+
+  it('rejects an over-long reason', () => {
+    assert.equal(isValidEditReason('x'.repeat(MAX_EDIT_REASON_LENGTH + 1)), false);
+    assert.equal(isValidEditReason('x'.repeat(5_000_000)), false);
+  });
+});
+
+describe('suggestionState', () => {
+  it('tells clean, applied and conflicting suggestions apart', () => {
+    assert.equal(suggestionState('name', 'Squoosh', 'Squoosh', 'Squoosh.app'), 'clean');
+    assert.equal(suggestionState('name', 'Squoosh', 'Squoosh.app', 'Squoosh.app'), 'applied');
+    assert.equal(suggestionState('name', 'Squoosh', 'Squoosh by Google', 'Squoosh.app'), 'conflict');
+    assert.equal(suggestionState('twitterUrl', null, null, 'https://x.com/squoosh'), 'clean');
+  });
+});
+
+describe('mergeTags', () => {
+  it('applies the suggested tag changes on top of the current tags', () => {
+    const base = [{ key: 'category', value: 'Media' }, { key: 'pricing', value: 'Free' }];
+    const current = [{ key: 'category', value: 'Media' }, { key: 'pricing', value: 'Free' }, { key: 'type', value: 'PWA' }];
+    const suggested = [{ key: 'category', value: 'Media' }, { key: 'pricing', value: 'Freemium' }];
+    assert.deepEqual(mergeTags(base, current, suggested), [
+      { key: 'category', value: 'Media' },
+      { key: 'type', value: 'PWA' },
+      { key: 'pricing', value: 'Freemium' },
+    ]);
+  });
+
+  it('does not re-add a tag the suggestion kept but the tool lost', () => {
+    const base = [{ key: 'category', value: 'Media' }, { key: 'pricing', value: 'Free' }];
+    const current = [{ key: 'category', value: 'Media' }, { key: 'source', value: 'Open Source' }];
+    assert.deepEqual(mergeTags(base, current, [...base, { key: 'type', value: 'PWA' }]), [
+      { key: 'category', value: 'Media' },
+      { key: 'type', value: 'PWA' },
+    ]);
+  });
+});
+
+describe('diffText', () => {
+  it('marks replaced words and keeps the rest', () => {
+    assert.deepEqual(diffText('Compress images in the browser', 'Compress and resize images in the browser'), [
+      { type: 'same', text: 'Compress ' },
+      { type: 'added', text: 'and resize ' },
+      { type: 'same', text: 'images in the browser' },
+    ]);
+    assert.deepEqual(diffText('Free photo editor', 'Free video editor'), [
+      { type: 'same', text: 'Free ' },
+      { type: 'removed', text: 'photo' },
+      { type: 'added', text: 'video' },
+      { type: 'same', text: ' editor' },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    assert.deepEqual(diffText('', 'New'), [{ type: 'added', text: 'New' }]);
+    assert.deepEqual(diffText('Old', ''), [{ type: 'removed', text: 'Old' }]);
+    assert.deepEqual(diffText('', ''), []);
+  });
+
+  it('shows very long texts as replaced', () => {
+    const oldText = 'a '.repeat(600);
+    const newText = 'b '.repeat(600);
+    assert.deepEqual(diffText(oldText, newText), [
+      { type: 'removed', text: oldText },
+      { type: 'added', text: newText },
+    ]);
+  });
+});
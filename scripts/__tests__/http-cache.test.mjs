@@ -0,0 +1,70 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API_CACHE_CONTROL, cacheHeaders, computeEtag, isNotModified, latestDate } from '../../src/lib/http-cache.mjs';
+
+const API_URL = 'https://nologin.tools/api/tools';
+const request = (/** @type {Record<string, string>} */ headers) => new Request(API_URL, { headers });
+
+describe('computeEtag', () => {
+  it('is a stable weak ETag that changes with any version part', async () => {
+    const etag = await computeEtag(['tools', 42, '2025-01-01T00:00:00.000Z']);
+    assert.match(etag, /^W\/"[0-9a-f]{32}"$/);
+    assert.equal(await computeEtag(['tools', 42, '2025-01-01T00:00:00.000Z']), etag);
+    assert.notEqual(await computeEtag(['tools', 43, '2025-01-01T00:00:00.000Z']), etag);
+  });
+
+  it('treats null parts as empty', async () => {
+    assert.equal(await computeEtag(['a', null]), await computeEtag(['a', '']));
+  });
+});
+
+describe('latestDate', () => {
+  it('returns the latest date, ignoring nulls', () => {
+    const early = new Date('2025-01-01');
+    const late = new Date('2025-06-01');
+    assert.equal(latestDate(early, null, late), late);
+    assert.equal(latestDate(null, null), null);
+  });
+});
+
+describe('cacheHeaders', () => {
+  it('sends Last-Modified only when known', () => {
+    const modified = new Date('2025-06-01T12:00:00Z');
+    assert.deepEqual(cacheHeaders('W/"x"', modified), {
+      ETag: 'W/"x"',
+      'Cache-Control': API_CACHE_CONTROL,
+      'Last-Modified': 'Sun, 01 Jun 2025 12:00:00 GMT',
+    });
+    assert.equal(cacheHeaders('W/"x"', null)['Last-Modified'], undefined);
+  });
+});
+
+describe('isNotModified', () => {
+  const etag = 'W/"abc"';
+  const modified = new Date('2025-06-01T12:00:00.500Z');
+
+  it('matches If-None-Match weakly, in a list or as a wildcard', () => {
+    assert.equal(isNotModified(request({ 'If-None-Match': 'W/"abc"' }), etag, modified), true);
+    assert.equal(isNotModified(request({ 'If-None-Match': '"abc"' }), etag, modified), true);
+    assert.equal(isNotModified(request({ 'If-None-Match': '"old", W/"abc"' }), etag, modified), true);
+    assert.equal(isNotModified(request({ 'If-None-Match': '*' }), etag, modified), true);
+    assert.equal(isNotModified(request({ 'If-None-Match': 'W/"old"' }), etag, modified), false);
+  });
+
+  it('ignores If-Modified-Since when If-None-Match is sent', () => {
+    const headers = { 'If-None-Match': 'W/"old"', 'If-Modified-Since': 'Sun, 01 Jun 2025 13:00:00 GMT' };
+    assert.equal(isNotModified(request(headers), etag, modified), false);
+  });
+
+  it('compares If-Modified-Since with second precision', () => {
+    assert.equal(isNotModified(request({ 'If-Modified-Since': 'Sun, 01 Jun 2025 12:00:00 GMT' }), etag, modified), true);
+    assert.equal(isNotModified(request({ 'If-Modified-Since': 'Sun, 01 Jun 2025 11:59:59 GMT' }), etag, modified), false);
+    assert.equal(isNotModified(request({ 'If-Modified-Since': 'yesterday' }), etag, modified), false);
+    assert.equal(isNotModified(request({ 'If-Modified-Since': 'Sun, 01 Jun 2025 12:00:00 GMT' }), etag, null), false);
+  });
+
+  it('is false without validators', () => {
+    assert.equal(isNotModified(request({}), etag, modified), false);
+  });
+});
@@ -0,0 +1,62 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildSearchDocument,
+  matchesSearch,
+  normalizeSearchText,
+  parseSearchTerms,
+} from '../../src/lib/instant-search.mjs';
+
+const excalidraw = buildSearchDocument({
+  slug: 'excalidraw',
+  fields: ['Excalidraw', 'excalidraw.com', 'Virtual whiteboard for sketching', null, '虚拟白板，绘制手绘风格图表'],
+  tags: [
+    { key: 'category', value: 'Design', label: '设计' },
+    { key: 'pricing', value: 'Free', label: '免费' },
+    { key: 'privacy', value: 'No Trackers' },
+  ],
+});
+
+describe('normalizeSearchText', () => {
+  it('lowercases, strips Latin diacritics and normalizes width', () => {
+    assert.equal(normalizeSearchText('Café  RÉSUMÉ'), 'cafe resume');
+    assert.equal(normalizeSearchText('ＰＤＦ'), 'pdf');
+  });
+
+  it('keeps kana voicing marks', () => {
+    assert.equal(normalizeSearchText('ガイド'), 'ガイド');
+  });
+});
+
+describe('buildSearchDocument', () => {
+  it('indexes fields, tag values and translated tag labels', () => {
+    assert.ok(excalidraw.text.includes('whiteboard'));
+    assert.ok(excalidraw.text.includes('no trackers'));
+    assert.ok(excalidraw.text.includes('免费'));
+    assert.deepEqual(excalidraw.tags, ['category:Design', 'pricing:Free', 'privacy:No Trackers']);
+  });
+});
+
+describe('matchesSearch', () => {
+  it('requires every term to match', () => {
+    assert.equal(matchesSearch(excalidraw, parseSearchTerms('white sketch'), new Map()), true);
+    assert.equal(matchesSearch(excalidraw, parseSearchTerms('white spreadsheet'), new Map()), false);
+  });
+
+  it('matches CJK substrings without word boundaries', () => {
+    assert.equal(matchesSearch(excalidraw, parseSearchTerms('白板'), new Map()), true);
+  });
+
+  it('treats tags of one key as OR and different keys as AND', () => {
+    const freeOrFreemium = new Map([['pricing', new Set(['Free', 'Freemium'])]]);
+    assert.equal(matchesSearch(excalidraw, [], freeOrFreemium), true);
+
+    const plusOffline = new Map([...freeOrFreemium, ['offline', new Set(['Works Offline'])]]);
+    assert.equal(matchesSearch(excalidraw, [], plusOffline), false);
+  });
+
+  it('ignores keys with no selected values', () => {
+    assert.equal(matchesSearch(excalidraw, [], new Map([['pricing', new Set()]])), true);
+  });
+});
@@ -0,0 +1,169 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  analyzeHtml,
+  analyzeRedirects,
+  resolveVerdict,
+  crawlForLoginWall,
+  MAX_REDIRECTS,
+} from '../../src/lib/login-wall.mjs';
+
+const LOREM = 'Convert, resize and compress images right in your browser. '.repeat(10);
+
+/** @param {string} body @param {string} [head] */
+function page(body, head = '') {
+  return `<!doctype html><html><head><title>Tool</title>${head}</head><body>${body}</body></html>`;
+}
+
+/** @param {import('../../src/lib/login-wall.mjs').Evidence[]} evidence */
+function signals(evidence) {
+  return evidence.map((item) => item.signal);
+}
+
+describe('analyzeHtml', () => {
+  it('finds nothing on a plain tool page', () => {
+    const evidence = analyzeHtml(page(`<main><h1>Image converter</h1><p>${LOREM}</p><input type="file"></main>`));
+    assert.deepEqual(evidence, []);
+    assert.equal(resolveVerdict(evidence), 'pass');
+  });
+
+  it('fails a sign-in page', () => {
+    const evidence = analyzeHtml(page(`
+      <form action="/session"><h1>Sign in to continue</h1>
+        <input type="email" name="email"><input type="password" name="password">
+        <button>Log in</button></form>`));
+    assert.deepEqual(signals(evidence), ['login-form', 'login-prompt']);
+    assert.equal(resolveVerdict(evidence), 'fail');
+  });
+
+  it('flags a password field on an otherwise long page for review', () => {
+    const evidence = analyzeHtml(page(`<p>${LOREM.repeat(5)}</p><input type="password" name="pdf-password">`));
+    assert.deepEqual(signals(evidence), ['password-field']);
+    assert.equal(resolveVerdict(evidence), 'review');
+  });
+
+  it('flags signup dialogs and login prompts', () => {
+    const evidence = analyzeHtml(page(`<p>${LOREM}</p><div id="signup-modal" class="hidden"><p>Create a free account to continue</p></div>`));
+    assert.deepEqual(signals(evidence), ['login-prompt', 'signup-modal']);
+    assert.equal(resolveVerdict(evidence), 'review');
+  });
+
+  it('notes optional OAuth buttons without changing the verdict', () => {
+    const evidence = analyzeHtml(page(`<p>${LOREM}</p><button>Continue with Google</button>`));
+    assert.deepEqual(signals(evidence), ['oauth-button']);
+    assert.equal(resolveVerdict(evidence), 'pass');
+  });
+
+  it('flags paywall markers', () => {
+    const jsonLd = '<script type="application/ld+json">{"@type":"WebPage","isAccessibleForFree": false}</script>';
+    assert.deepEqual(signals(analyzeHtml(page(`<p>${LOREM}</p>`, jsonLd))), ['paywall']);
+    assert.deepEqual(signals(analyzeHtml(page(`<p>${LOREM}</p><p>Upgrade to Pro to use this feature.</p>`))), ['paywall']);
+  });
+
+  it('reports consent banners and trackers by script host', () => {
+    const head = `
+      <script src="https://consent.cookiebot.com/uc.js"></script>
+      <script async src="//www.googletagmanager.com/gtag/js?id=G-1"></script>
+      <script src="https://connect.facebook.net/en_US/fbevents.js"></script>
+      <script src="/app.js"></script>`;
+    const evidence = analyzeHtml(page(`<p>${LOREM}</p>`, head));
+    assert.deepEqual(evidence, [
+      { signal: 'cookie-consent', severity: 'info', detail: 'Cookiebot' },
+      { signal: 'trackers', severity: 'info', detail: 'Google Tag Manager, Meta Pixel' },
+    ]);
+  });
+
+  it('notes client-rendered shells', () => {
+    const evidence = analyzeHtml(page('<div id="root"></div><script type="module" src="/assets/index.js"></script>'));
+    assert.deepEqual(signals(evidence), ['client-rendered']);
+    assert.equal(resolveVerdict(evidence), 'pass');
+  });
+});
+
+describe('analyzeRedirects', () => {
+  it('fails redirects to OAuth providers and sign-in pages', () => {
+    assert.deepEqual(signals(analyzeRedirects([
+      { url: 'https://tool.example', status: 302 },
+      { url: 'https://accounts.google.com/o/oauth2/auth?client_id=1', status: 200 },
+    ])), ['oauth-redirect']);
+    assert.deepEqual(signals(analyzeRedirects([
+      { url: 'https://tool.example/app', status: 302 },
+      { url: 'https://tool.example/users/sign_in', status: 200 },
+    ])), ['login-redirect']);
+  });
+
+  it('ignores ordinary redirects and the requested URL itself', () => {
+    assert.deepEqual(analyzeRedirects([
+      { url: 'https://tool.example/login-free-notes', status: 301 },
+      { url: 'https://www.tool.example/', status: 200 },
+    ]), []);
+  });
+});
+
+describe('crawlForLoginWall', () => {
+  /**
+   * @param {Record<string, { status: number, location?: string, html?: string, contentType?: string }>} routes
+   * @returns {any}
+   */
+  function fakeFetch(routes) {
+    return async (/** @type {string} */ url) => {
+      const route = routes[url];
+      if (!route) throw new Error(`Unexpected request: ${url}`);
+      /** @type {Record<string, string>} */
+      const headers = { 'Content-Type': route.contentType ?? 'text/html; charset=utf-8' };
+      if (route.location) headers.Location = route.location;
+      return new Response(route.html ?? null, { status: route.status, headers });
+    };
+  }
+
+  it('records the redirect chain and analyzes the final page', async () => {
+    const result = await crawlForLoginWall('http://tool.example', {
+      fetch: fakeFetch({
+        'http://tool.example': { status: 301, location: 'https://tool.example/' },
+        'https://tool.example/': { status: 302, location: '/login?next=%2F' },
+        'https://tool.example/login?next=%2F': { status: 200, html: page('<form><input type="password"></form>') },
+      }),
+    });
+    assert.equal(result.verdict, 'fail');
+    assert.equal(result.finalUrl, 'https://tool.example/login?next=%2F');
+    assert.equal(result.httpStatus, 200);
+    assert.deepEqual(result.redirectChain.map((hop) => hop.status), [301, 302, 200]);
+    assert.deepEqual(signals(result.evidence), ['login-redirect', 'login-form']);
+  });
+
+  it('passes a page that loads without a login', async () => {
+    const result = await crawlForLoginWall('https://tool.example', {
+      fetch: fakeFetch({ 'https://tool.example': { status: 200, html: page(`<p>${LOREM}</p>`) } }),
+    });
+    assert.equal(result.verdict, 'pass');
+    assert.deepEqual(result.evidence, []);
+  });
+
+  it('fails HTTP authentication', async () => {
+    const result = await crawlForLoginWall('https://tool.example', {
+      fetch: fakeFetch({ 'https://tool.example': { status: 401, html: 'Unauthorized', contentType: 'text/plain' } }),
+    });
+    assert.equal(result.verdict, 'fail');
+    assert.deepEqual(signals(result.evidence), ['http-auth', 'not-html']);
+  });
+
+  it('stops after too many redirects', async () => {
+    /** @type {Record<string, { status: number, location: string }>} */
+    const routes = {};
+    for (let i = 0; i <= MAX_REDIRECTS + 1; i++) {
+      routes[`https://tool.example/${i}`] = { status: 302, location: `/${i + 1}` };
+    }
+    const result = await crawlForLoginWall('https://tool.example/0', { fetch: fakeFetch(routes) });
+    assert.equal(result.verdict, 'review');
+    assert.equal(result.redirectChain.length, MAX_REDIRECTS + 1);
+    assert.deepEqual(signals(result.evidence), ['redirect-loop']);
+  });
+
+  it('reports network errors as an error verdict', async () => {
+    const result = await crawlForLoginWall('https://tool.example', { fetch: fakeFetch({}) });
+    assert.equal(result.verdict, 'error');
+    assert.equal(result.httpStatus, null);
+    assert.deepEqual(signals(result.evidence), ['fetch-failed']);
+  });
+});
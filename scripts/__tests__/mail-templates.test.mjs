@@ -0,0 +1,76 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { renderNotification } from '../../src/lib/mail-templates.mjs';
+
+/** @type {Record<string, string>} */
+const en = JSON.parse(readFileSync(new URL('../../src/i18n/en.json', import.meta.url), 'utf8'));
+/** @type {Record<string, string>} */
+const de = JSON.parse(readFileSync(new URL('../../src/i18n/de.json', import.meta.url), 'utf8'));
+
+/**
+ * Same lookup and interpolation as t() in src/i18n/utils.ts.
+ * @param {Record<string, string>} dict
+ * @returns {import('../../src/lib/mail-templates.mjs').Translate}
+ */
+function translator(dict) {
+  return (key, params = {}) => {
+    let value = dict[key] ?? en[key] ?? key;
+    for (const [k, v] of Object.entries(params)) value = value.replace(new RegExp(`\\{${k}\\}`, 'g'), String(v));
+    return value;
+  };
+}
+
+const UNSUBSCRIBE = 'https://nologin.tools/unsubscribe/abc';
+
+describe('renderNotification', () => {
+  it('renders an approval with the listing link and unsubscribe footer', () => {
+    const email = renderNotification(
+      { kind: 'approved', toolName: 'Squoosh', linkUrl: 'https://nologin.tools/tool/squoosh-app', unsubscribeUrl: UNSUBSCRIBE },
+      translator(en)
+    );
+    assert.equal(email.subject, 'Squoosh is now listed on nologin.tools');
+    assert.match(email.text, /Thanks for submitting Squoosh\./);
+    assert.match(email.text, /See the listing: https:\/\/nologin\.tools\/tool\/squoosh-app/);
+    assert.match(email.text, /\n-- \n.*deleted.*\n.*https:\/\/nologin\.tools\/unsubscribe\/abc\n$/);
+  });
+
+  it('includes the rejection reason only when there is one', () => {
+    const notification = /** @type {const} */ ({ kind: 'rejected', toolName: 'Squoosh', linkUrl: 'https://x/status', unsubscribeUrl: UNSUBSCRIBE });
+    assert.match(renderNotification({ ...notification, reason: ' Requires an account. ' }, translator(en)).text, /\n\nReason: Requires an account\.\n\n/);
+    assert.doesNotMatch(renderNotification({ ...notification, reason: '  ' }, translator(en)).text, /Reason:/);
+  });
+
+  it('names the edited field in the submitter\'s language', () => {
+    const email = renderNotification(
+      { kind: 'editRejected', toolName: 'Squoosh', field: 'coreTask', unsubscribeUrl: UNSUBSCRIBE },
+      translator(de)
+    );
+    assert.equal(email.subject, 'Deine Änderung an Squoosh wurde nicht übernommen');
+    assert.match(email.text, /^Hallo,\n\n.*„Kernaufgabe“ von Squoosh/);
+  });
+
+  it('lists every field of a changeset', () => {
+    const email = renderNotification(
+      { kind: 'editApproved', toolName: 'Squoosh', field: ['name', 'description', 'tags'], locale: 'de', unsubscribeUrl: UNSUBSCRIBE },
+      translator(de)
+    );
+    assert.match(email.text, /zu Squoosh \(Name, Beschreibung und Tags\)\. Sie wurden/);
+  });
+
+  it('has every string it needs in every locale', () => {
+    const locales = ['en', 'zh', 'ja', 'ko', 'es', 'fr', 'de', 'pt'];
+    for (const locale of locales) {
+      /** @type {Record<string, string>} */
+      const dict = JSON.parse(readFileSync(new URL(`../../src/i18n/${locale}.json`, import.meta.url), 'utf8'));
+      const missing = Object.keys(en).filter((key) => key.startsWith('email.') && !(key in dict));
+      assert.deepEqual(missing, [], locale);
+    }
+  });
+
+  it('keeps the subject on one line', () => {
+    const email = renderNotification({ kind: 'approved', toolName: 'Bad\r\nBcc: x@y', unsubscribeUrl: UNSUBSCRIBE }, translator(en));
+    assert.doesNotMatch(email.subject, /[\r\n]/);
+  });
+});
@@ -0,0 +1,202 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { extractMetadata, fetchPageMetadata, parseManifest, readTextPrefix, suggestTags } from '../../src/lib/page-metadata.mjs';
+
+/** @param {string} name */
+function fixture(name) {
+  return readFileSync(new URL(`./fixtures/page-metadata/${name}`, import.meta.url), 'utf-8');
+}
+
+const INSTALLABLE_MANIFEST = {
+  name: 'Squoosh',
+  display: 'standalone',
+  icons: [{ src: '/icon-512.png', sizes: '512x512', type: 'image/png' }],
+};
+
+/**
+ * A fetch that serves `pages` by URL and 404s everything else.
+ * @param {Record<string, { body: string, type: string, url?: string }>} pages
+ * @returns {typeof fetch}
+ */
+function fakeFetch(pages) {
+  return /** @type {typeof fetch} */ (
+    async (input) => {
+      const page = pages[String(input)];
+      if (!page) return new Response('Not found', { status: 404 });
+      const response = new Response(page.body, { headers: { 'Content-Type': page.type } });
+      if (page.url) Object.defineProperty(response, 'url', { value: page.url });
+      return response;
+    }
+  );
+}
+
+describe('extractMetadata', () => {
+  it('reads a static tool page', () => {
+    assert.deepEqual(extractMetadata(fixture('static-tool.html'), 'https://squoosh.app/'), {
+      name: 'Squoosh',
+      title: 'Squoosh – Compress images in your browser',
+      description:
+        'Squoosh is the ultimate image optimizer that allows you to compress and compare images with different codecs in your browser. No sign-up, no uploads & nothing leaves your device.',
+      image: 'https://squoosh.app/social-image.jpg',
+      favicon: 'https://squoosh.app/icon-32.png',
+      manifestUrl: 'https://squoosh.app/manifest.webmanifest',
+      repoUrl: 'https://github.com/GoogleChromeLabs/squoosh',
+      twitterUrl: 'https://x.com/SquooshApp',
+      githubUrl: 'https://github.com/GoogleChromeLabs',
+      discordUrl: 'https://discord.gg/squoosh',
+    });
+  });
+
+  it('falls back to the title and the default favicon', () => {
+    assert.deepEqual(extractMetadata(fixture('title-only.html'), 'https://excalidraw.com/board?id=1'), {
+      name: 'Excalidraw',
+      title: 'Excalidraw | Hand-drawn look & feel • Collaborative',
+      description: null,
+      image: null,
+      favicon: 'https://excalidraw.com/favicon.ico',
+      manifestUrl: null,
+      repoUrl: null,
+      twitterUrl: null,
+      githubUrl: null,
+      discordUrl: null,
+    });
+  });
+
+  it('resolves links against <base> and skips share and search links', () => {
+    const metadata = extractMetadata(fixture('spa-shell.html'), 'https://www.photopea.com/');
+    assert.equal(metadata.name, 'Photopea');
+    assert.equal(metadata.description, 'Free online editor for PSD, XCF, Sketch, XD and CDR files. Works in the browser.');
+    assert.equal(metadata.favicon, 'https://www.photopea.com/app/img/favicon.png');
+    assert.equal(metadata.manifestUrl, 'https://www.photopea.com/app/manifest.json');
+    assert.equal(metadata.twitterUrl, 'https://x.com/photopeacom');
+    assert.equal(metadata.discordUrl, 'https://discord.gg/photopea');
+    assert.equal(metadata.repoUrl, null);
+    assert.equal(metadata.githubUrl, null);
+  });
+
+  it('shortens long names and descriptions to the form limits', () => {
+    const html = `<title>${'Long name '.repeat(20)}</title><meta name="description" content="${'word '.repeat(200)}">`;
+    const metadata = extractMetadata(html, 'https://example.com/');
+    assert.ok(metadata.name && metadata.name.length <= 100 && metadata.name.endsWith('…'));
+    assert.ok(metadata.description && metadata.description.length <= 500 && metadata.description.endsWith('word…'));
+  });
+
+  it('ignores non-http links and repositories outside GitHub', () => {
+    const html = '<link rel="icon" href="data:image/png;base64,AAAA"><link rel="repo" href="https://gitlab.com/a/b">';
+    const metadata = extractMetadata(html, 'https://example.com/');
+    assert.equal(metadata.favicon, 'https://example.com/favicon.ico');
+    assert.equal(metadata.repoUrl, null);
+  });
+});
+
+describe('parseManifest', () => {
+  it('marks an app with a name, an icon and an app display mode installable', () => {
+    assert.deepEqual(parseManifest(INSTALLABLE_MANIFEST), {
+      name: 'Squoosh',
+      description: null,
+      display: 'standalone',
+      installable: true,
+    });
+  });
+
+  it('is not installable without icons or in a browser tab', () => {
+    assert.equal(parseManifest({ ...INSTALLABLE_MANIFEST, icons: [] })?.installable, false);
+    assert.equal(parseManifest({ ...INSTALLABLE_MANIFEST, display: undefined })?.installable, false);
+    assert.equal(parseManifest({ short_name: 'Sq', display: 'fullscreen', icons: [{ src: 'a.png' }] })?.installable, true);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.equal(parseManifest(null), null);
+    assert.equal(parseManifest([]), null);
+    assert.equal(parseManifest('{}'), null);
+  });
+});
+
+describe('suggestTags', () => {
+  it('suggests the PWA type for installable apps only', () => {
+    assert.deepEqual(suggestTags(parseManifest(INSTALLABLE_MANIFEST)), [{ key: 'type', value: 'PWA' }]);
+    assert.deepEqual(suggestTags(parseManifest({ name: 'Site' })), []);
+    assert.deepEqual(suggestTags(null), []);
+  });
+});
+
+describe('readTextPrefix', () => {
+  it('stops reading an endless body at the limit', async () => {
+    let pulls = 0;
+    const endless = new ReadableStream({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode('<p>' + 'x'.repeat(997)));
+      },
+    });
+    const text = await readTextPrefix(new Response(endless), 2500);
+    assert.equal(text.length, 2500);
+    assert.ok(pulls <= 4);
+  });
+
+  it('reads a short body whole, multi-byte characters included', async () => {
+    assert.equal(await readTextPrefix(new Response('<title>Café</title>'), 1000), '<title>Café</title>');
+    assert.equal(await readTextPrefix(new Response(null), 1000), '');
+  });
+});
+
+describe('fetchPageMetadata', () => {
+  it('follows the final URL and reads the manifest', async () => {
+    const result = await fetchPageMetadata('https://photopea.com', {
+      fetch: fakeFetch({
+        'https://photopea.com': { body: fixture('spa-shell.html'), type: 'text/html; charset=utf-8', url: 'https://www.photopea.com/' },
+        'https://www.photopea.com/app/manifest.json': {
+          body: JSON.stringify({ ...INSTALLABLE_MANIFEST, name: 'Photopea', description: 'Photo editor' }),
+          type: 'application/manifest+json',
+        },
+      }),
+    });
+    assert.ok(!('error' in result));
+    assert.equal(result.url, 'https://www.photopea.com/');
+    assert.equal(result.manifest?.installable, true);
+    assert.deepEqual(result.suggestedTags, [{ key: 'type', value: 'PWA' }]);
+    assert.equal(result.description, 'Free online editor for PSD, XCF, Sketch, XD and CDR files. Works in the browser.');
+  });
+
+  it('uses the manifest when the page has no description', async () => {
+    const result = await fetchPageMetadata('https://app.example', {
+      fetch: fakeFetch({
+        'https://app.example': { body: '<link rel="manifest" href="/m.json">', type: 'text/html' },
+        'https://app.example/m.json': { body: JSON.stringify({ name: 'App', description: 'Does things' }), type: 'application/json' },
+      }),
+    });
+    assert.ok(!('error' in result));
+    assert.equal(result.name, 'App');
+    assert.equal(result.description, 'Does things');
+    assert.deepEqual(result.suggestedTags, []);
+  });
+
+  it('still returns the page when the manifest is missing or broken', async () => {
+    const result = await fetchPageMetadata('https://squoosh.app/', {
+      fetch: fakeFetch({
+        'https://squoosh.app/': { body: fixture('static-tool.html'), type: 'text/html' },
+        'https://squoosh.app/manifest.webmanifest': { body: '{not json', type: 'application/json' },
+      }),
+    });
+    assert.ok(!('error' in result));
+    assert.equal(result.manifest, null);
+    assert.equal(result.repoUrl, 'https://github.com/GoogleChromeLabs/squoosh');
+  });
+
+  it('reports HTTP errors and non-HTML responses', async () => {
+    assert.deepEqual(await fetchPageMetadata('https://gone.example', { fetch: fakeFetch({}) }), { error: 'HTTP 404' });
+    const pdf = await fetchPageMetadata('https://docs.example/a.pdf', {
+      fetch: fakeFetch({ 'https://docs.example/a.pdf': { body: '%PDF', type: 'application/pdf' } }),
+    });
+    assert.deepEqual(pdf, { error: 'Not an HTML page (application/pdf)' });
+  });
+
+  it('reports network failures', async () => {
+    const failing = /** @type {typeof fetch} */ (async () => {
+      throw new TypeError('fetch failed');
+    });
+    assert.deepEqual(await fetchPageMetadata('https://down.example', { fetch: failing }), { error: 'TypeError: fetch failed' });
+  });
+});
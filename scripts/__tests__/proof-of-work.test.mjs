@@ -0,0 +1,67 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHALLENGE_TTL_SECONDS,
+  createChallenge,
+  hasLeadingZeroBits,
+  solveChallenge,
+  verifyChallenge,
+} from '../../src/lib/proof-of-work.mjs';
+
+const SECRET = 'test-receipt-secret';
+const IP = '203.0.113.7';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+// Low difficulty keeps the tests fast
+const options = { now: NOW, difficulty: 4 };
+
+describe('hasLeadingZeroBits', () => {
+  it('counts whole and partial bytes', () => {
+    assert.equal(hasLeadingZeroBits(Uint8Array.of(0, 0x0f), 12), true);
+    assert.equal(hasLeadingZeroBits(Uint8Array.of(0, 0x10), 12), false);
+    assert.equal(hasLeadingZeroBits(Uint8Array.of(0, 0), 16), true);
+    assert.equal(hasLeadingZeroBits(Uint8Array.of(0x80), 1), false);
+    assert.equal(hasLeadingZeroBits(Uint8Array.of(0x80), 0), true);
+  });
+});
+
+describe('proof-of-work challenges', () => {
+  it('accepts a solved challenge', async () => {
+    const challenge = await createChallenge(SECRET, IP, options);
+    const nonce = await solveChallenge(challenge);
+    assert.equal(await verifyChallenge(SECRET, IP, challenge, nonce, NOW), 'valid');
+  });
+
+  it('rejects a wrong nonce', async () => {
+    const challenge = await createChallenge(SECRET, IP, { now: NOW, difficulty: 20 });
+    assert.equal(await verifyChallenge(SECRET, IP, challenge, '0', NOW), 'unsolved');
+    assert.equal(await verifyChallenge(SECRET, IP, challenge, 'abc', NOW), 'unsolved');
+  });
+
+  it('rejects challenges issued to another client or signed with another secret', async () => {
+    const challenge = await createChallenge(SECRET, IP, options);
+    const nonce = await solveChallenge(challenge);
+    assert.equal(await verifyChallenge(SECRET, '203.0.113.8', challenge, nonce, NOW), 'invalid');
+    assert.equal(await verifyChallenge('other-secret', IP, challenge, nonce, NOW), 'invalid');
+  });
+
+  it('rejects a lowered difficulty', async () => {
+    const challenge = await createChallenge(SECRET, IP, { now: NOW, difficulty: 16 });
+    const tampered = challenge.replace('.16.', '.1.');
+    assert.equal(await verifyChallenge(SECRET, IP, tampered, await solveChallenge(tampered), NOW), 'invalid');
+  });
+
+  it('expires challenges', async () => {
+    const challenge = await createChallenge(SECRET, IP, options);
+    const nonce = await solveChallenge(challenge);
+    const later = new Date(NOW.getTime() + (CHALLENGE_TTL_SECONDS + 1) * 1000);
+    assert.equal(await verifyChallenge(SECRET, IP, challenge, nonce, later), 'expired');
+  });
+
+  it('rejects malformed challenges', async () => {
+    for (const challenge of ['', 'abc', '1.4.zz.00', `1.4.${'0'.repeat(16)}.${'0'.repeat(63)}`]) {
+      assert.equal(await verifyChallenge(SECRET, IP, challenge, '1', NOW), 'invalid', challenge);
+    }
+  });
+});
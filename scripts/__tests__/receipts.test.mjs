@@ -0,0 +1,52 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReceiptToken, verifyReceiptToken, createUnsubscribeToken, isUnsubscribeToken } from '../../src/lib/receipts.mjs';
+
+const SECRET = 'test-receipt-secret';
+
+describe('receipt tokens', () => {
+  it('round-trips the tool id and issue time', async () => {
+    const issuedAt = new Date('2026-03-01T12:00:00Z');
+    const token = await createReceiptToken(SECRET, 42, issuedAt);
+    assert.match(token, /^42\.[0-9a-z]+\.[A-Za-z0-9_-]{43}$/);
+    assert.deepEqual(await verifyReceiptToken(SECRET, token), { toolId: 42, issuedAt });
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const token = await createReceiptToken('other-secret', 42);
+    assert.equal(await verifyReceiptToken(SECRET, token), null);
+  });
+
+  it('rejects tokens pointed at another tool or issue time', async () => {
+    const [, issued, signature] = (await createReceiptToken(SECRET, 42)).split('.');
+    assert.equal(await verifyReceiptToken(SECRET, `43.${issued}.${signature}`), null);
+    assert.equal(await verifyReceiptToken(SECRET, `42.${issued}0.${signature}`), null);
+  });
+
+  it('rejects malformed tokens', async () => {
+    for (const token of ['', '42', 'abc.def.ghi', '0.1.' + 'A'.repeat(43), '42.1.' + 'A'.repeat(42), '42.1.' + '!'.repeat(43)]) {
+      assert.equal(await verifyReceiptToken(SECRET, token), null, token);
+    }
+  });
+});
+
+describe('unsubscribe tokens', () => {
+  it('is the same for an address however it is written', async () => {
+    const token = await createUnsubscribeToken(SECRET, 'someone@example.com');
+    assert.ok(isUnsubscribeToken(token));
+    assert.equal(await createUnsubscribeToken(SECRET, ' Someone@Example.com '), token);
+  });
+
+  it('differs per address and per secret', async () => {
+    const token = await createUnsubscribeToken(SECRET, 'someone@example.com');
+    assert.notEqual(await createUnsubscribeToken(SECRET, 'other@example.com'), token);
+    assert.notEqual(await createUnsubscribeToken('other-secret', 'someone@example.com'), token);
+  });
+
+  it('screens out values that are not tokens', () => {
+    for (const value of ['', 'A'.repeat(42), 'A'.repeat(44), '!'.repeat(43), `${'A'.repeat(42)}=`]) {
+      assert.equal(isUnsubscribeToken(value), false, value);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSnapshot, diffSnapshots, historyFields, recordRevisionWith } from '../../src/lib/revisions.mjs';
+
+const SQUOOSH = { name: 'Squoosh', url: 'https://squoosh.app', description: 'Compress images', coreTask: 'Compress images' };
+
+describe('buildSnapshot', () => {
+  it('keeps every snapshotted field, blank ones as null, and sorts tags', () => {
+    const snapshot = buildSnapshot({ ...SQUOOSH, repoUrl: '', seoTitle: 'Squoosh — free image compressor' }, [
+      { key: 'pricing', value: 'Free' },
+      { key: 'category', value: 'Media' },
+    ]);
+    assert.equal(snapshot.name, 'Squoosh');
+    assert.equal(snapshot.repoUrl, null);
+    assert.equal(snapshot.discordUrl, null);
+    assert.equal(snapshot.seoTitle, 'Squoosh — free image compressor');
+    assert.deepEqual(snapshot.tags, [
+      { key: 'category', value: 'Media' },
+      { key: 'pricing', value: 'Free' },
+    ]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('lists changed fields and compares tags as sets', () => {
+    const before = buildSnapshot(SQUOOSH, [{ key: 'category', value: 'Media' }]);
+    const after = buildSnapshot({ ...SQUOOSH, name: 'Squoosh.app', twitterUrl: 'https://x.com/squoosh' }, [
+      { key: 'category', value: 'Media' },
+      { key: 'type', value: 'PWA' },
+    ]);
+    assert.deepEqual(diffSnapshots(before, after), ['name', 'twitterUrl', 'tags']);
+    assert.deepEqual(diffSnapshots(after, { ...after, tags: [...after.tags].reverse() }), []);
+  });
+});
+
+describe('historyFields', () => {
+  it('names the SEO fields once', () => {
+    assert.deepEqual(historyFields(['name', 'seoTitle', 'seoDescription', 'tags']), ['name', 'seo', 'tags']);
+  });
+});
+
+describe('recordRevisionWith', () => {
+  /**
+   * A query function over one tool, recording the statements it runs.
+   * @param {string | null} latestSnapshot
+   */
+  function fakeQuery(latestSnapshot) {
+    /** @type {{ sql: string, params: unknown[] }[]} */
+    const inserts = [];
+    /** @type {import('../../src/lib/revisions.mjs').Query} */
+    const query = async (sql, params = []) => {
+      if (sql.startsWith('SELECT name')) return [{ name: 'Squoosh', url: 'https://squoosh.app', description: 'Compress images', core_task: 'Compress images' }];
+      if (sql.startsWith('SELECT tag_key')) return [{ tag_key: 'category', tag_value: 'Media' }];
+      if (sql.startsWith('SELECT snapshot')) return latestSnapshot ? [{ snapshot: latestSnapshot }] : [];
+      inserts.push({ sql, params });
+      return [];
+    };
+    return { query, inserts };
+  }
+
+  it('records the first revision without changed fields', async () => {
+    const { query, inserts } = fakeQuery(null);
+    assert.equal(await recordRevisionWith(query, 7, 'discovery'), true);
+    assert.equal(inserts.length, 1);
+    const [toolId, source, snapshot, changedFields] = inserts[0].params;
+    assert.deepEqual([toolId, source, changedFields], [7, 'discovery', null]);
+    assert.deepEqual(JSON.parse(String(snapshot)).tags, [{ key: 'category', value: 'Media' }]);
+  });
+
+  it('records only what changed since the latest revision', async () => {
+    const latest = buildSnapshot({ ...SQUOOSH, seoTitle: 'Old title' }, [{ key: 'category', value: 'Media' }]);
+    const { query, inserts } = fakeQuery(JSON.stringify(latest));
+    assert.equal(await recordRevisionWith(query, 7, 'seo'), true);
+    assert.equal(inserts[0].params[3], '["seoTitle"]');
+  });
+
+  it('skips a change that leaves the tool as it was', async () => {
+    const latest = buildSnapshot(SQUOOSH, [{ key: 'category', value: 'Media' }]);
+    const { query, inserts } = fakeQuery(JSON.stringify(latest));
+    assert.equal(await recordRevisionWith(query, 7, 'seo'), false);
+    assert.equal(inserts.length, 0);
+  });
+});
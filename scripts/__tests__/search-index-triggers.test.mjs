@@ -0,0 +1,41 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+// node:sqlite ships with Node 22 and later
+const sqlite = await import('node:sqlite').catch(() => null);
+
+const MIGRATION = readFileSync(new URL('../../migrations/0008_tools_fts.sql', import.meta.url), 'utf-8');
+
+function createDb() {
+  const db = new (/** @type {typeof import('node:sqlite')} */ (sqlite).DatabaseSync)(':memory:');
+  db.exec(`
+    CREATE TABLE tools (
+      id INTEGER PRIMARY KEY, slug TEXT, name TEXT, description TEXT, core_task TEXT,
+      seo_title TEXT, seo_description TEXT, seo_focus_keyword TEXT, seo_task_phrase TEXT
+    );
+    CREATE TABLE tags (id INTEGER PRIMARY KEY, tool_id INTEGER, tag_key TEXT, tag_value TEXT);
+  `);
+  for (const statement of MIGRATION.split('--> statement-breakpoint')) db.exec(statement);
+  return db;
+}
+
+describe('tools_fts triggers', { skip: !sqlite && 'needs node:sqlite' }, () => {
+  it('keeps localized names when a tool is renamed', () => {
+    const db = createDb();
+    db.exec(`INSERT INTO tools (id, slug, name, description, core_task) VALUES (1, 'excalidraw', 'Excalidraw', 'Whiteboard', 'Draw diagrams')`);
+    db.exec(`
+      INSERT INTO tools_fts (tool_id, locale, name, description, core_task, tags)
+      VALUES (1, 'de', 'Zeichenbrett', 'Whiteboard', 'Diagramme zeichnen', ''),
+             (1, 'fr', 'Excalidraw', 'Tableau blanc', 'Dessiner des diagrammes', '')
+    `);
+
+    db.exec(`UPDATE tools SET name = 'Excalidraw Plus' WHERE id = 1`);
+
+    const search = (/** @type {string} */ query) =>
+      db.prepare('SELECT locale FROM tools_fts WHERE tools_fts MATCH ? ORDER BY locale').all(query).map((row) => row.locale);
+    assert.deepEqual(search('name:Zeichenbrett'), ['de']);
+    assert.deepEqual(search('name:plus'), ['en', 'fr']);
+  });
+});
@@ -0,0 +1,72 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildFtsQuery,
+  formatSnippet,
+  segmentText,
+  SNIPPET_OPEN,
+  SNIPPET_CLOSE,
+  MAX_QUERY_TERMS,
+} from '../../src/lib/search-text.mjs';
+
+describe('segmentText', () => {
+  it('puts each Han and kana character in its own token', () => {
+    assert.equal(segmentText('在线白板'), '在 线 白 板');
+    assert.equal(segmentText('ホワイトボード'), 'ホ ワ イ ト ボ ー ド');
+  });
+
+  it('leaves Latin and Hangul words intact', () => {
+    assert.equal(segmentText('AI 搜索 engine'), 'AI 搜 索 engine');
+    assert.equal(segmentText('화이트보드 도구'), '화이트보드 도구');
+  });
+
+  it('returns an empty string for empty input', () => {
+    assert.equal(segmentText(null), '');
+    assert.equal(segmentText(''), '');
+  });
+});
+
+describe('buildFtsQuery', () => {
+  it('turns words into prefix terms joined with AND', () => {
+    assert.equal(buildFtsQuery('White Board'), '"white"* "board"*');
+  });
+
+  it('strips FTS5 syntax from user input', () => {
+    assert.equal(buildFtsQuery('"foo" OR bar* NEAR(baz)'), '"foo"* "or"* "bar"* "near"* "baz"*');
+    assert.equal(buildFtsQuery('!!! ---'), '');
+  });
+
+  it('matches CJK terms as a segmented phrase or an unsegmented prefix', () => {
+    assert.equal(buildFtsQuery('白板'), '("白 板" OR "白板"*)');
+  });
+
+  it('normalizes full-width characters', () => {
+    assert.equal(buildFtsQuery('ＰＤＦ'), '"pdf"*');
+  });
+
+  it('caps the number of terms', () => {
+    const query = buildFtsQuery(Array.from({ length: 20 }, (_, i) => `w${i}`).join(' '));
+    assert.equal(query.split(' ').length, MAX_QUERY_TERMS);
+  });
+});
+
+describe('formatSnippet', () => {
+  it('wraps matches in <mark> and escapes HTML', () => {
+    assert.equal(
+      formatSnippet(`Edit <b> ${SNIPPET_OPEN}whiteboard${SNIPPET_CLOSE} & more`),
+      'Edit &lt;b&gt; <mark>whiteboard</mark> &amp; more'
+    );
+  });
+
+  it('removes segmentation spaces between CJK characters', () => {
+    assert.equal(
+      formatSnippet(`虚 拟 ${SNIPPET_OPEN}白 板${SNIPPET_CLOSE} ， 绘 制 AI 图 表`),
+      '虚拟<mark>白板</mark>，绘制 AI 图表'
+    );
+  });
+
+  it('returns an empty string for a missing snippet', () => {
+    assert.equal(formatSnippet(null), '');
+  });
+});
@@ -0,0 +1,89 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DRAFT_MAX_AGE_DAYS,
+  isValidEmail,
+  isValidText,
+  parseDraft,
+  serializeDraft,
+} from '../../src/lib/submit-form.mjs';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('isValidText', () => {
+  it('checks the trimmed length against the limits', () => {
+    assert.equal(isValidText('name', 'Ab'), true);
+    assert.equal(isValidText('name', ' A '), false);
+    assert.equal(isValidText('name', 'x'.repeat(101)), false);
+    assert.equal(isValidText('description', '   '), false);
+    assert.equal(isValidText('coreTask', 'x'.repeat(200)), true);
+  });
+});
+
+describe('isValidEmail', () => {
+  it('accepts blank and well-formed addresses', () => {
+    assert.equal(isValidEmail(''), true);
+    assert.equal(isValidEmail('  '), true);
+    assert.equal(isValidEmail(' me@example.com '), true);
+  });
+
+  it('rejects malformed and overlong addresses', () => {
+    assert.equal(isValidEmail('me@example'), false);
+    assert.equal(isValidEmail('me example@x.com'), false);
+    assert.equal(isValidEmail(`${'a'.repeat(250)}@x.com`), false);
+  });
+});
+
+describe('serializeDraft', () => {
+  it('keeps filled-in draft fields and tags', () => {
+    const stored = serializeDraft(
+      { name: 'Squoosh', url: 'https://squoosh.app', description: '', submitterEmail: 'me@example.com', pledge: 'on', website: 'spam' },
+      [{ key: 'category', value: 'Media' }],
+      now
+    );
+    assert.deepEqual(JSON.parse(/** @type {string} */ (stored)), {
+      fields: { name: 'Squoosh', url: 'https://squoosh.app' },
+      tags: [{ key: 'category', value: 'Media' }],
+      savedAt: now.toISOString(),
+    });
+  });
+
+  it('returns null for an empty form', () => {
+    assert.equal(serializeDraft({ name: '  ', submitterEmail: 'me@example.com' }, [], now), null);
+  });
+});
+
+describe('parseDraft', () => {
+  it('round-trips a saved draft', () => {
+    const stored = serializeDraft({ coreTask: 'Compress images' }, [{ key: 'pricing', value: 'Free' }], now);
+    assert.deepEqual(parseDraft(stored, now), {
+      fields: { coreTask: 'Compress images' },
+      tags: [{ key: 'pricing', value: 'Free' }],
+      savedAt: now.toISOString(),
+    });
+  });
+
+  it('drops drafts that are missing, malformed or too old', () => {
+    assert.equal(parseDraft(null, now), null);
+    assert.equal(parseDraft('{not json', now), null);
+    assert.equal(parseDraft('"text"', now), null);
+    assert.equal(parseDraft(JSON.stringify({ fields: { name: 'A' } }), now), null);
+
+    const old = new Date(now.getTime() - (DRAFT_MAX_AGE_DAYS + 1) * 86400 * 1000);
+    assert.equal(parseDraft(serializeDraft({ name: 'Old' }, [], old), now), null);
+  });
+
+  it('ignores unknown fields and malformed tags', () => {
+    const stored = JSON.stringify({
+      fields: { name: 'A', submitterEmail: 'me@example.com', url: 42 },
+      tags: [{ key: 'category', value: 'AI' }, { key: 'pricing' }, 'Free', null],
+      savedAt: now.toISOString(),
+    });
+    assert.deepEqual(parseDraft(stored, now), {
+      fields: { name: 'A' },
+      tags: [{ key: 'category', value: 'AI' }],
+      savedAt: now.toISOString(),
+    });
+  });
+});
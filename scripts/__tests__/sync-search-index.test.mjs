@@ -0,0 +1,33 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchRows } from '../sync-search-index.mjs';
+
+describe('buildSearchRows', () => {
+  it('maps translated fields and nulls the missing ones', () => {
+    const rows = buildSearchRows({
+      excalidraw: { _hash: 'abc', description: ' Pizarra virtual ', coreTask: 'Dibujar diagramas' },
+    }, 'es');
+    assert.deepEqual(rows, [{
+      slug: 'excalidraw',
+      description: 'Pizarra virtual',
+      coreTask: 'Dibujar diagramas',
+      seoTitle: null,
+      seoDescription: null,
+      seoFocusKeyword: null,
+      seoTaskPhrase: null,
+    }]);
+  });
+
+  it('segments Chinese and Japanese text', () => {
+    const [zh] = buildSearchRows({ excalidraw: { description: '虚拟白板' } }, 'zh');
+    assert.equal(zh.description, '虚 拟 白 板');
+    const [ko] = buildSearchRows({ excalidraw: { description: '화이트보드 도구' } }, 'ko');
+    assert.equal(ko.description, '화이트보드 도구');
+  });
+
+  it('skips entries without searchable text', () => {
+    const rows = buildSearchRows({ empty: { _hash: 'abc' }, blank: { description: '   ' } }, 'fr');
+    assert.equal(rows.length, 0);
+  });
+});
@@ -0,0 +1,69 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bucketState, refilledTokensSql } from '../../src/lib/token-bucket.mjs';
+
+// node:sqlite ships with Node 22 and later
+const sqlite = await import('node:sqlite').catch(() => null);
+
+const SIZE = { limit: 60, windowSeconds: 60 };
+const NOW = 1_760_000_000_000;
+
+/** Stand-in for drizzle's sql tag: `{ text }` fragments inline, numbers as literals. */
+function sqlText(/** @type {TemplateStringsArray} */ strings, /** @type {unknown[]} */ ...values) {
+  const render = (/** @type {unknown} */ value) => (typeof value === 'number' ? String(value) : /** @type {{ text: string }} */ (value).text);
+  return { text: strings.reduce((out, part, i) => out + render(values[i - 1]) + part) };
+}
+
+describe('bucketState', () => {
+  it('reports whole remaining tokens and when the bucket is full again', () => {
+    assert.deepEqual(bucketState(SIZE, 41.5, true, NOW), {
+      allowed: true,
+      limit: 60,
+      remaining: 41,
+      resetAt: Math.ceil(NOW / 1000 + 18.5),
+      retryAfter: 0,
+    });
+  });
+
+  it('asks rejected clients to wait for the next whole token', () => {
+    const state = bucketState({ limit: 3, windowSeconds: 3600 }, 0.25, false, NOW);
+    assert.equal(state.remaining, 0);
+    assert.equal(state.retryAfter, 900);
+    assert.equal(state.resetAt, Math.ceil(NOW / 1000 + 3300));
+  });
+
+  it('never asks to wait less than a second', () => {
+    assert.equal(bucketState(SIZE, 0.999, false, NOW).retryAfter, 1);
+  });
+});
+
+describe('refilledTokensSql', { skip: !sqlite && 'needs node:sqlite' }, () => {
+  /**
+   * @param {import('../../src/lib/token-bucket.mjs').BucketSize} size
+   * @param {number} tokens
+   * @param {number} elapsedMs
+   */
+  function refill(size, tokens, elapsedMs) {
+    const db = new (/** @type {typeof import('node:sqlite')} */ (sqlite).DatabaseSync)(':memory:');
+    db.exec('CREATE TABLE buckets (tokens REAL, updated_at INTEGER)');
+    db.prepare('INSERT INTO buckets VALUES (?, ?)').run(tokens, NOW);
+    const expr = refilledTokensSql(sqlText, { tokens: { text: 'tokens' }, updatedAt: { text: 'updated_at' }, now: { text: '?' } }, size);
+    const row = /** @type {{ tokens: number }} */ (db.prepare(`SELECT ${expr.text} AS tokens FROM buckets`).get(NOW + elapsedMs));
+    return row.tokens;
+  }
+
+  it('refills in proportion to the time elapsed', () => {
+    assert.equal(refill(SIZE, 0, 30_000), 30);
+    assert.equal(refill({ limit: 3, windowSeconds: 3600 }, 1, 1_200_000), 2);
+  });
+
+  it('never fills past the limit', () => {
+    assert.equal(refill(SIZE, 59, 60_000), 60);
+    assert.equal(refill(SIZE, 0, 10 * 60_000), 60);
+  });
+
+  it('adds nothing when the clock went backwards', () => {
+    assert.equal(refill(SIZE, 12, -5_000), 12);
+  });
+});
@@ -0,0 +1,37 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor } from '../../src/lib/tool-cursor.mjs';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips the sort, key values and reference time', () => {
+    const cursor = encodeCursor('score', [12, 1_700_000_000, 'Squoosh', 42], 1_760_000_000);
+    assert.deepEqual(decodeCursor(cursor), {
+      sort: 'score',
+      values: [12, 1_700_000_000, 'Squoosh', 42],
+      now: 1_760_000_000,
+    });
+  });
+
+  it('produces URL-safe cursors that keep non-ASCII and null values', () => {
+    const cursor = encodeCursor('name', ['Überschrift ✓ 图片?/+', null, 7], 1);
+    assert.match(cursor, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(decodeCursor(cursor)?.values, ['Überschrift ✓ 图片?/+', null, 7]);
+  });
+
+  it('reads cursors from before the reference time was kept', () => {
+    const legacy = Buffer.from(JSON.stringify({ s: 'newest', k: [0, 'a', 1] })).toString('base64url');
+    assert.deepEqual(decodeCursor(legacy), { sort: 'newest', values: [0, 'a', 1], now: null });
+  });
+
+  it('rejects malformed cursors', () => {
+    const encode = (/** @type {unknown} */ value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    assert.equal(decodeCursor('not a cursor!'), null);
+    assert.equal(decodeCursor(Buffer.from('{').toString('base64url')), null);
+    assert.equal(decodeCursor(encode(null)), null);
+    assert.equal(decodeCursor(encode({ k: [1] })), null);
+    assert.equal(decodeCursor(encode({ s: 'name', k: 'a' })), null);
+    assert.equal(decodeCursor(encode({ s: 'name', k: [{ id: 1 }] })), null);
+    assert.equal(decodeCursor(encode({ s: 'name', k: ['a', 1], t: 1.5 })), null);
+  });
+});
@@ -0,0 +1,85 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeToolScore, toolScoreSql } from '../../src/lib/tool-score.mjs';
+
+// node:sqlite ships with Node 22 and later
+const sqlite = await import('node:sqlite').catch(() => null);
+
+const NOW = 1_760_000_000;
+const DAY = 86400;
+
+/** @type {import('../../src/lib/tool-score.mjs').ScoreInput} */
+const BASE = { badgeDisplayType: null, approvedAt: NOW - 200 * DAY, health: null, isFeatured: false };
+
+/** Stand-in for drizzle's sql tag: `{ text }` fragments inline, numbers as literals. */
+function sqlText(/** @type {TemplateStringsArray} */ strings, /** @type {unknown[]} */ ...values) {
+  const render = (/** @type {unknown} */ value) => (typeof value === 'number' ? String(value) : /** @type {{ text: string }} */ (value).text);
+  return { text: strings.reduce((out, part, i) => out + render(values[i - 1]) + part) };
+}
+
+describe('computeToolScore', () => {
+  it('adds up badge, freshness, health and featured weights', () => {
+    assert.equal(computeToolScore(BASE, NOW), 0 + 1 + 1 + 0);
+    assert.equal(
+      computeToolScore({ badgeDisplayType: 'explicit', approvedAt: NOW - DAY, health: 'online', isFeatured: true }, NOW),
+      10 + 5 + 3 + 8
+    );
+  });
+
+  it('weighs implicit badges half as much as explicit ones', () => {
+    assert.equal(computeToolScore({ ...BASE, badgeDisplayType: 'implicit' }, NOW), 5 + 1 + 1);
+    assert.equal(computeToolScore({ ...BASE, badgeDisplayType: 'removed' }, NOW), 1 + 1);
+  });
+
+  it('gives newer tools more freshness', () => {
+    assert.equal(computeToolScore({ ...BASE, approvedAt: NOW - 30 * DAY + 1 }, NOW), 5 + 1);
+    assert.equal(computeToolScore({ ...BASE, approvedAt: NOW - 30 * DAY }, NOW), 3 + 1);
+    assert.equal(computeToolScore({ ...BASE, approvedAt: NOW - 90 * DAY }, NOW), 1 + 1);
+    assert.equal(computeToolScore({ ...BASE, approvedAt: null }, NOW), 1 + 1);
+  });
+
+  it('scores unknown health like unstable and offline lowest', () => {
+    assert.equal(computeToolScore({ ...BASE, health: 'unknown' }, NOW), computeToolScore({ ...BASE, health: 'unstable' }, NOW));
+    assert.equal(computeToolScore({ ...BASE, health: 'offline' }, NOW), 1);
+  });
+});
+
+describe('toolScoreSql', { skip: !sqlite && 'needs node:sqlite' }, () => {
+  it('orders tools the same way as computeToolScore', () => {
+    const db = new (/** @type {typeof import('node:sqlite')} */ (sqlite).DatabaseSync)(':memory:');
+    db.exec('CREATE TABLE tools (id INTEGER PRIMARY KEY, badge TEXT, approved_at INTEGER, health TEXT, is_featured INTEGER)');
+
+    /** @type {import('../../src/lib/tool-score.mjs').ScoreInput[]} */
+    const fixtures = [];
+    for (const badgeDisplayType of [null, 'implicit', 'explicit']) {
+      for (const approvedAt of [null, NOW - 5 * DAY, NOW - 30 * DAY, NOW - 60 * DAY, NOW - 400 * DAY]) {
+        for (const health of /** @type {const} */ ([null, 'online', 'unstable', 'offline', 'unknown'])) {
+          for (const isFeatured of [false, true]) fixtures.push({ badgeDisplayType, approvedAt, health, isFeatured });
+        }
+      }
+    }
+    const insert = db.prepare('INSERT INTO tools (id, badge, approved_at, health, is_featured) VALUES (?, ?, ?, ?, ?)');
+    fixtures.forEach((tool, i) => insert.run(i + 1, tool.badgeDisplayType, tool.approvedAt, tool.health, tool.isFeatured ? 1 : 0));
+
+    const score = toolScoreSql(
+      sqlText,
+      {
+        badgeDisplayType: { text: 'badge' },
+        approvedAt: { text: 'approved_at' },
+        health: { text: 'health' },
+        isFeatured: { text: 'is_featured' },
+      },
+      NOW
+    );
+    const rows = db.prepare(`SELECT id, ${score.text} AS score FROM tools ORDER BY score DESC, id ASC`).all();
+
+    const expected = fixtures
+      .map((tool, i) => ({ id: i + 1, score: computeToolScore(tool, NOW) }))
+      .sort((a, b) => b.score - a.score || a.id - b.id);
+    assert.deepEqual(
+      rows.map((row) => ({ id: row.id, score: row.score })),
+      expected
+    );
+  });
+});
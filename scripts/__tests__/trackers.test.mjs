@@ -0,0 +1,97 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  detectTrackers,
+  detectTrackingCookies,
+  scanForTrackers,
+  proposePrivacyTags,
+} from '../../src/lib/trackers.mjs';
+
+/** @param {string} head @param {string} [body] */
+function page(head, body = '<main><h1>Tool</h1></main>') {
+  return `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+}
+
+const GTM_SNIPPET = `<script>(function(w,d,s,l,i){w[l]=w[l]||[];var f=d.getElementsByTagName(s)[0],
+j=d.createElement(s);j.async=true;j.src='https://www.googletagmanager.com/gtm.js?id='+i;
+f.parentNode.insertBefore(j,f);})(window,document,'script','dataLayer','GTM-XXXX');</script>`;
+
+describe('detectTrackers', () => {
+  it('finds trackers by script, image and iframe source', () => {
+    const html = page(
+      '<script async src="//static.hotjar.com/c/hotjar-1.js"></script>',
+      '<img height="1" width="1" src="https://www.facebook.com/tr?id=1&ev=PageView"><iframe src="https://securepubads.g.doubleclick.net/x"></iframe>'
+    );
+    assert.deepEqual(detectTrackers(html), [
+      { name: 'Meta Pixel', category: 'advertising', hosts: ['www.facebook.com'], thirdPartyCookies: true },
+      { name: 'Hotjar', category: 'session-replay', hosts: ['static.hotjar.com'], thirdPartyCookies: false },
+      { name: 'Google Ad Manager', category: 'advertising', hosts: ['securepubads.g.doubleclick.net'], thirdPartyCookies: true },
+    ]);
+  });
+
+  it('finds loader snippets in inline scripts', () => {
+    assert.deepEqual(detectTrackers(page(GTM_SNIPPET)).map((t) => t.name), ['Google Tag Manager']);
+  });
+
+  it('ignores links, first-party scripts and unrelated paths', () => {
+    const html = page(
+      '<script src="/assets/app.js"></script><script src="https://cdn.example.com/lib.js"></script>',
+      '<a href="https://www.facebook.com/ourpage">Facebook</a><img src="https://www.facebook.com/images/logo.png">'
+    );
+    assert.deepEqual(detectTrackers(html), []);
+  });
+});
+
+describe('detectTrackingCookies', () => {
+  it('recognizes tracking cookies by name, once each', () => {
+    assert.deepEqual(
+      detectTrackingCookies([
+        '_ga=GA1.1.123; Path=/; Max-Age=63072000',
+        '_ga_ABC123=GS1.1; Path=/',
+        'session=abc; HttpOnly',
+        '_fbp=fb.1.2; Path=/',
+        '_ga=GA1.1.456; Path=/',
+      ]),
+      [
+        { name: '_ga', tracker: 'Google Analytics' },
+        { name: '_ga_ABC123', tracker: 'Google Analytics' },
+        { name: '_fbp', tracker: 'Meta Pixel' },
+      ]
+    );
+  });
+});
+
+describe('proposePrivacyTags', () => {
+  const tags = [
+    { key: 'category', value: 'Design' },
+    { key: 'privacy', value: 'No Trackers' },
+    { key: 'privacy', value: 'Privacy Focused' },
+  ];
+
+  it('drops "No Trackers" when analytics are found', () => {
+    const proposal = proposePrivacyTags(tags, scanForTrackers(page(GTM_SNIPPET)));
+    assert.deepEqual(proposal?.tags, [tags[0], tags[2]]);
+    assert.match(proposal?.reason ?? '', /Google Tag Manager.*"No Trackers"/);
+  });
+
+  it('leaves out the source tag', () => {
+    const proposal = proposePrivacyTags([...tags, { key: 'source', value: 'Open Source' }], scanForTrackers(page(GTM_SNIPPET)));
+    assert.deepEqual(proposal?.tags, [tags[0], tags[2]]);
+  });
+
+  it('also drops "Privacy Focused" for advertising and session recording', () => {
+    const scan = scanForTrackers(page('<script src="https://www.clarity.ms/tag/abc"></script>'));
+    assert.deepEqual(proposePrivacyTags(tags, scan)?.tags, [tags[0]]);
+  });
+
+  it('counts tracking cookies as trackers', () => {
+    const proposal = proposePrivacyTags(tags, scanForTrackers(page(''), ['_ga=1; Path=/']));
+    assert.deepEqual(proposal?.tags, [tags[0], tags[2]]);
+  });
+
+  it('proposes nothing when the tags already agree or nothing was found', () => {
+    assert.equal(proposePrivacyTags(tags, scanForTrackers(page('<script src="/app.js"></script>'))), null);
+    assert.equal(proposePrivacyTags([tags[0]], scanForTrackers(page(GTM_SNIPPET))), null);
+  });
+});
@@ -0,0 +1,55 @@
+// @ts-check
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectValidationErrors } from '../../src/lib/validation-errors.mjs';
+
+const MESSAGES = /** @type {Record<string, string>} */ ({
+  'validation.name': 'Please enter a valid tool name.',
+  'validation.url': 'Please enter a complete URL.',
+  'validation.tooMany': 'At most {max} allowed.',
+});
+
+/** @type {import('../../src/lib/validation-errors.mjs').Translate} */
+function translate(key, params) {
+  let message = MESSAGES[key] ?? key;
+  for (const [name, value] of Object.entries(params ?? {})) message = message.replace(`{${name}}`, String(value));
+  return message;
+}
+
+describe('collectValidationErrors', () => {
+  it('keys translated messages by top-level field', () => {
+    const result = collectValidationErrors(
+      [
+        { path: ['name'], message: 'validation.name', code: 'too_small' },
+        { path: ['tags', 2, 'value'], message: 'validation.tags', code: 'invalid_type' },
+      ],
+      translate
+    );
+    assert.deepEqual(result.errors, { name: 'Please enter a valid tool name.', tags: 'validation.tags' });
+    assert.equal(result.message, 'Please enter a valid tool name.');
+  });
+
+  it('keeps the first issue per field', () => {
+    const result = collectValidationErrors(
+      [
+        { path: ['url'], message: 'validation.url', code: 'custom' },
+        { path: ['url'], message: 'validation.name', code: 'too_big' },
+      ],
+      translate
+    );
+    assert.deepEqual(result.errors, { url: 'Please enter a complete URL.' });
+  });
+
+  it('keys issues about the whole body as body', () => {
+    const result = collectValidationErrors([{ path: [], message: 'Invalid action.', code: 'invalid_union_discriminator' }], translate);
+    assert.deepEqual(result.errors, { body: 'Invalid action.' });
+  });
+
+  it('passes params from custom issues only', () => {
+    const params = { max: 5 };
+    const custom = collectValidationErrors([{ path: ['tags'], message: 'validation.tooMany', code: 'custom', params }], translate);
+    assert.equal(custom.errors.tags, 'At most 5 allowed.');
+    const builtIn = collectValidationErrors([{ path: ['tags'], message: 'validation.tooMany', code: 'too_big', params }], translate);
+    assert.equal(builtIn.errors.tags, 'At most {max} allowed.');
+  });
+});
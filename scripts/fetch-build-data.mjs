@@ -14,6 +14,7 @@
 import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { HISTORY_LIMIT } from '../src/lib/revisions.mjs';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const OUTPUT_PATH = resolve(__dirname, '../src/data/build-data.json');
@@ -115,7 +116,7 @@ console.log('[build-data] Fetching data from D1...');
 const toolRows = await queryD1(`
   SELECT id, slug, name, url, description, core_task, seo_title, seo_description,
          seo_focus_keyword, seo_intent, seo_task_phrase, status,
-         submitted_at, approved_at, rejection_reason, submitter_email,
+         submitted_at, approved_at, rejection_reason,
          archive_url, is_featured, featured_at, submitter_ip_hash,
          twitter_url, github_url, discord_url, repo_url,
          github_stars, github_forks, github_license, github_language,
@@ -161,6 +162,32 @@ const badgeRows = await queryD1(`
 
 console.log(`[build-data] Fetched ${badgeRows.length} badge displays`);
 
+// Query 5: Latest tracker scan per tool
+const trackerScanRows = await queryD1(`
+  SELECT ts.tool_id, ts.scanned_at, ts.trackers, ts.cookies
+  FROM tracker_scans ts
+  INNER JOIN tools ON tools.id = ts.tool_id
+  WHERE tools.status != 'rejected'
+`);
+
+console.log(`[build-data] Fetched ${trackerScanRows.length} tracker scans`);
+
+// Query 6: Latest revisions per tool, for the History section
+const revisionRows = await queryD1(`
+  SELECT tool_id, source, changed_fields, created_at
+  FROM (
+    SELECT tr.tool_id, tr.source, tr.changed_fields, tr.created_at,
+      ROW_NUMBER() OVER (PARTITION BY tr.tool_id ORDER BY tr.id DESC) AS rn
+    FROM tool_revisions tr
+    INNER JOIN tools ON tools.id = tr.tool_id
+    WHERE tools.status != 'rejected'
+  )
+  WHERE rn <= ?
+  ORDER BY tool_id, rn
+`, [HISTORY_LIMIT]);
+
+console.log(`[build-data] Fetched ${revisionRows.length} revisions`);
+
 // Build lookup maps
 const tagMap = new Map();
 for (const row of tagRows) {
@@ -174,6 +201,22 @@ for (const row of badgeRows) {
   badgeMap.set(row.tool_id, row.display_type);
 }
 
+const trackerScanMap = new Map();
+for (const row of trackerScanRows) {
+  trackerScanMap.set(row.tool_id, row);
+}
+
+const revisionMap = new Map();
+for (const row of revisionRows) {
+  const id = row.tool_id;
+  if (!revisionMap.has(id)) revisionMap.set(id, []);
+  revisionMap.get(id).push({
+    source: row.source,
+    changedFields: row.changed_fields ? JSON.parse(row.changed_fields) : null,
+    createdAt: toISO(row.created_at),
+  });
+}
+
 // Group health checks per tool: recent 5 + 14-day history
 const healthPerTool = new Map();
 for (const row of healthRows) {
@@ -197,6 +240,7 @@ function toISO(ts) {
 const tools = toolRows.map((t) => {
   const id = t.id;
   const allChecks = healthPerTool.get(id) || [];
+  const trackerScan = trackerScanMap.get(id);
 
   // Recent 5 for effective status computation
   const healthChecks = allChecks.slice(0, 5).map((c) => ({
@@ -228,7 +272,6 @@ const tools = toolRows.map((t) => {
     submittedAt: toISO(t.submitted_at),
     approvedAt: toISO(t.approved_at),
     rejectionReason: t.rejection_reason,
-    submitterEmail: t.submitter_email,
     archiveUrl: t.archive_url,
     isFeatured: t.is_featured === 1,
     featuredAt: toISO(t.featured_at),
@@ -246,6 +289,14 @@ const tools = toolRows.map((t) => {
     healthChecks,
     healthHistory,
     badgeDisplayType: badgeMap.get(id) || null,
+    trackerScan: trackerScan
+      ? {
+          scannedAt: toISO(trackerScan.scanned_at),
+          trackers: JSON.parse(trackerScan.trackers),
+          cookies: JSON.parse(trackerScan.cookies),
+        }
+      : null,
+    revisions: revisionMap.get(id) || [],
   };
 });
 
@@ -21,6 +21,7 @@ import { readFileSync, readdirSync } from 'node:fs';
 import { resolve, dirname, basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { SEO_INTENTS, includesNoLoginIntent } from '../src/lib/tool-seo.mjs';
+import { recordRevisionWith } from '../src/lib/revisions.mjs';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -213,6 +214,10 @@ async function main() {
         data.seoTaskPhrase,
         slug,
       ]);
+      const [tool] = await queryD1(d1Api, apiToken, "SELECT id FROM tools WHERE slug = ? AND status = 'approved'", [slug]);
+      if (tool) {
+        await recordRevisionWith((sql, params) => queryD1(d1Api, apiToken, sql, params), tool.id, 'seo');
+      }
       console.log(`[push-seo] ✓ ${slug} — updated`);
       success++;
     } catch (err) {
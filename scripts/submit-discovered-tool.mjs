@@ -16,6 +16,7 @@ import { readFileSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { validateToolData } from './validate-tool-data.mjs';
+import { recordRevisionWith } from '../src/lib/revisions.mjs';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -189,6 +190,8 @@ export async function submitTool(filePath, config) {
   }
   console.log(`[submit-tool] Inserted ${tagsToInsert.length} tag(s)`);
 
+  await recordRevisionWith((sql, params) => queryD1(d1Api, apiToken, sql, params), toolId, 'discovery');
+
   // INSERT initial health check
   await queryD1(d1Api, apiToken,
     'INSERT INTO health_checks (tool_id, checked_at, is_online, http_status, response_time_ms) VALUES (?, ?, 1, 200, 0)',
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+// @ts-check
+/**
+ * Sync translated tool content into the tools_fts search index in D1.
+ *
+ * English rows are maintained by triggers on `tools` and `tags`
+ * (migrations/0008_tools_fts.sql). This script rewrites the rows for every
+ * other locale from `src/data/translations/{locale}.json`.
+ *
+ * Usage:
+ *   node scripts/sync-search-index.mjs [--write]
+ *
+ * Without --write, runs in dry-run mode (prints what would be synced).
+ *
+ * Required env vars (with --write):
+ *   CLOUDFLARE_API_TOKEN
+ *   CLOUDFLARE_ACCOUNT_ID
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { segmentText } from '../src/lib/search-text.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const LOCALES = ['zh', 'ja', 'ko', 'es', 'fr', 'de', 'pt'];
+const SEGMENTED_LOCALES = new Set(['zh', 'ja']);
+const BATCH_SIZE = 50;
+
+const SEARCH_FIELDS = ['description', 'coreTask', 'seoTitle', 'seoDescription', 'seoFocusKeyword', 'seoTaskPhrase'];
+
+// ---------------------------------------------------------------------------
+// D1 helpers
+// ---------------------------------------------------------------------------
+
+function stripJsonComments(str) {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < str.length; i++) {
+    if (inString) {
+      if (str[i] === '\\') { result += str[i] + (str[i + 1] || ''); i++; continue; }
+      if (str[i] === '"') inString = false;
+      result += str[i];
+    } else if (str[i] === '"') {
+      inString = true;
+      result += str[i];
+    } else if (str[i] === '/' && str[i + 1] === '/') {
+      while (i < str.length && str[i] !== '\n') i++;
+      i--;
+    } else if (str[i] === '/' && str[i + 1] === '*') {
+      i += 2;
+      while (i < str.length && !(str[i] === '*' && str[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += str[i];
+    }
+  }
+  return result;
+}
+
+async function queryD1(d1Api, apiToken, sql, params = []) {
+  const res = await fetch(d1Api, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sql, params }),
+  });
+  if (!res.ok) {
+    throw new Error(`D1 API error (${res.status}): ${await res.text()}`);
+  }
+  const json = await res.json();
+  if (!json.success) {
+    throw new Error(`D1 query failed: ${JSON.stringify(json.errors)}`);
+  }
+  return json.result?.[0]?.results ?? [];
+}
+
+function getD1Config() {
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+  if (!apiToken || !accountId) {
+    throw new Error('Missing CLOUDFLARE_API_TOKEN or CLOUDFLARE_ACCOUNT_ID');
+  }
+  const wranglerPath = resolve(__dirname, '../wrangler.jsonc');
+  const wranglerContent = readFileSync(wranglerPath, 'utf-8');
+  const wranglerJson = JSON.parse(stripJsonComments(wranglerContent).replace(/,(\s*[}\]])/g, '$1'));
+  const databaseId = wranglerJson.d1_databases?.[0]?.database_id;
+  if (!databaseId) {
+    throw new Error('Could not find database_id in wrangler.jsonc');
+  }
+  const d1Api = `https://api.cloudflare.com/client/v4/accounts/${accountId}/d1/database/${databaseId}/query`;
+  return { d1Api, apiToken };
+}
+
+// ---------------------------------------------------------------------------
+// Row building
+// ---------------------------------------------------------------------------
+
+/**
+ * Build search index rows for one locale from its translations file.
+ * Entries without any searchable text are skipped; Chinese and Japanese text
+ * is segmented to match how queries are built.
+ * @param {Record<string, Record<string, unknown>>} translations
+ * @param {string} locale
+ * @returns {Array<Record<string, string | null>>}
+ */
+export function buildSearchRows(translations, locale) {
+  const segment = SEGMENTED_LOCALES.has(locale);
+  const rows = [];
+
+  for (const [slug, entry] of Object.entries(translations)) {
+    if (!entry || typeof entry !== 'object') continue;
+
+    /** @type {Record<string, string | null>} */
+    const row = { slug };
+    let hasText = false;
+    for (const field of SEARCH_FIELDS) {
+      const value = typeof entry[field] === 'string' ? entry[field].trim() : '';
+      row[field] = value ? (segment ? segmentText(value) : value) : null;
+      if (value) hasText = true;
+    }
+    if (hasText) rows.push(row);
+  }
+
+  return rows;
+}
+
+const INSERT_SQL = `
+  INSERT INTO tools_fts (tool_id, locale, name, description, core_task, tags, seo_title, seo_description, seo_focus_keyword, seo_task_phrase)
+  SELECT
+    t.id, ?, t.name,
+    json_extract(j.value, '$.description'),
+    json_extract(j.value, '$.coreTask'),
+    COALESCE((SELECT group_concat(tag_value, ' ') FROM tags WHERE tool_id = t.id), ''),
+    json_extract(j.value, '$.seoTitle'),
+    json_extract(j.value, '$.seoDescription'),
+    json_extract(j.value, '$.seoFocusKeyword'),
+    json_extract(j.value, '$.seoTaskPhrase')
+  FROM json_each(?) j
+  JOIN tools t ON t.slug = json_extract(j.value, '$.slug')
+`;
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main() {
+  const write = process.argv.includes('--write');
+  const { d1Api, apiToken } = write ? getD1Config() : { d1Api: '', apiToken: '' };
+
+  for (const locale of LOCALES) {
+    const filePath = resolve(__dirname, `../src/data/translations/${locale}.json`);
+    if (!existsSync(filePath)) {
+      console.log(`[search-index] ${locale}: no translations file, skipping`);
+      continue;
+    }
+
+    const rows = buildSearchRows(JSON.parse(readFileSync(filePath, 'utf-8')), locale);
+
+    if (!write) {
+      console.log(`[search-index] ${locale}: ${rows.length} rows (dry-run)`);
+      continue;
+    }
+
+    await queryD1(d1Api, apiToken, 'DELETE FROM tools_fts WHERE locale = ?', [locale]);
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await queryD1(d1Api, apiToken, INSERT_SQL, [locale, JSON.stringify(rows.slice(i, i + BATCH_SIZE))]);
+    }
+    console.log(`[search-index] ${locale}: ${rows.length} rows synced`);
+  }
+
+  console.log(`\n[search-index] Done (${write ? 'write' : 'dry-run'})`);
+}
+
+const isMainModule =
+  process.argv[1] &&
+  (process.argv[1] === fileURLToPath(import.meta.url) ||
+    process.argv[1].endsWith('/sync-search-index.mjs'));
+
+if (isMainModule) {
+  main().catch((err) => {
+    console.error(`[search-index] Fatal error: ${err.message}`);
+    process.exit(1);
+  });
+}
@@ -1,6 +1,9 @@
 import { resolveEffectiveStatus, type EffectiveStatus } from '../lib/health';
+import { computeToolScore } from '../lib/tool-score.mjs';
 import { hasLocalizedToolContent, getLocalizedToolFields as buildLocalizedToolFields } from '../lib/tool-seo.mjs';
 import { LOCALES, type Locale } from '../i18n/config';
+import type { CookieFinding, TrackerFinding } from '../lib/trackers.mjs';
+import type { RevisionField, RevisionSource } from '../lib/revisions.mjs';
 
 type ToolTranslation = {
   _hash?: string;
@@ -100,6 +103,18 @@ interface BuildDataHealthHistory {
   checkedAt: string;
 }
 
+interface BuildDataTrackerScan {
+  scannedAt: string;
+  trackers: TrackerFinding[];
+  cookies: CookieFinding[];
+}
+
+interface BuildDataRevision {
+  source: RevisionSource;
+  changedFields: RevisionField[] | null;
+  createdAt: string;
+}
+
 export interface BuildDataTool {
   id: number;
   slug: string;
@@ -116,7 +131,6 @@ export interface BuildDataTool {
   submittedAt: string;
   approvedAt: string | null;
   rejectionReason: string | null;
-  submitterEmail: string | null;
   archiveUrl: string | null;
   isFeatured: boolean;
   featuredAt: string | null;
@@ -134,6 +148,9 @@ export interface BuildDataTool {
   healthChecks: BuildDataHealthCheck[];
   healthHistory: BuildDataHealthHistory[];
   badgeDisplayType: string | null;
+  trackerScan: BuildDataTrackerScan | null;
+  /** Newest first, at most HISTORY_LIMIT. */
+  revisions: BuildDataRevision[];
 }
 
 interface BuildData {
@@ -173,28 +190,15 @@ export function computeScore(
   tool: BuildDataTool,
   healthStatus: { status: EffectiveStatus } | null
 ): number {
-  const badgeType = tool.badgeDisplayType;
-  const badgeWeight =
-    badgeType === 'explicit' ? 10 : badgeType === 'implicit' ? 5 : 0;
-
-  const now = Date.now();
-  const approvedMs = tool.approvedAt
-    ? new Date(tool.approvedAt).getTime()
-    : 0;
-  const ageMs = now - approvedMs;
-  const freshness = ageMs < 30 * 86400000 ? 5 : ageMs < 90 * 86400000 ? 3 : 1;
-
-  const healthScore = !healthStatus
-    ? 1
-    : healthStatus.status === 'online'
-      ? 3
-      : healthStatus.status === 'unstable'
-        ? 1
-        : 0;
-
-  const featuredBoost = tool.isFeatured ? 8 : 0;
-
-  return badgeWeight + freshness + healthScore + featuredBoost;
+  return computeToolScore(
+    {
+      badgeDisplayType: tool.badgeDisplayType,
+      approvedAt: tool.approvedAt ? new Date(tool.approvedAt).getTime() / 1000 : null,
+      health: healthStatus?.status ?? null,
+      isFeatured: tool.isFeatured,
+    },
+    Date.now() / 1000
+  );
 }
 
 export function getRelatedTools(currentSlug: string, categoryTag: string | undefined, limit = 6): BuildDataTool[] {
@@ -1,5 +1,7 @@
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
 
+// Full-text search runs against the `tools_fts` FTS5 table, which is created
+// and kept in sync by triggers in migrations/0008_tools_fts.sql.
 export const tools = sqliteTable('tools', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   slug: text('slug').notNull().unique(),
@@ -22,7 +24,10 @@ export const tools = sqliteTable('tools', {
   approvedAt: integer('approved_at', { mode: 'timestamp' }),
   rejectionReason: text('rejection_reason'),
   submitterIpHash: text('submitter_ip_hash'),
-  submitterEmail: text('submitter_email'),
+  submitterEmail: text('submitter_email'), // cleared once the review decision is mailed
+  // Unsubscribe token of the address; kept after the address is cleared, to verify unsubscribe links
+  submitterEmailToken: text('submitter_email_token'),
+  submitterLocale: text('submitter_locale'),
   archiveUrl: text('archive_url'),
   isFeatured: integer('is_featured', { mode: 'boolean' }).notNull().default(false),
   featuredAt: integer('featured_at', { mode: 'timestamp' }),
@@ -39,8 +44,12 @@ export const tools = sqliteTable('tools', {
   githubLanguage: text('github_language'),
   githubUpdatedAt: integer('github_updated_at', { mode: 'timestamp' }),
   githubFetchedAt: integer('github_fetched_at', { mode: 'timestamp' }),
+  // Last change to public data; maintained by triggers (migrations/0009_tools_updated_at.sql)
+  updatedAt: integer('updated_at', { mode: 'timestamp' }),
 }, (table) => [
   index('idx_tools_status').on(table.status),
+  index('idx_tools_updated_at').on(table.updatedAt),
+  index('idx_tools_submitter_email_token').on(table.submitterEmailToken),
 ]);
 
 export const tags = sqliteTable('tags', {
@@ -81,6 +90,37 @@ export const badgeDisplays = sqliteTable('badge_displays', {
   lastCheckedAt: integer('last_checked_at', { mode: 'timestamp' }),
 });
 
+// Automated no-login verification of a tool's URL (src/lib/login-wall.mjs).
+// Each run adds a row; the admin panel shows the latest per tool.
+export const loginChecks = sqliteTable('login_checks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  toolId: integer('tool_id')
+    .notNull()
+    .references(() => tools.id, { onDelete: 'cascade' }),
+  checkedAt: integer('checked_at', { mode: 'timestamp' }).notNull(),
+  verdict: text('verdict', { enum: ['pass', 'review', 'fail', 'error'] }).notNull(),
+  httpStatus: integer('http_status'),
+  finalUrl: text('final_url').notNull(),
+  redirectChain: text('redirect_chain').notNull(), // JSON array of {url, status}
+  evidence: text('evidence').notNull(), // JSON array of {signal, severity, detail}
+}, (table) => [
+  index('idx_login_checks_tool_id_checked_at').on(table.toolId, table.checkedAt),
+]);
+
+// Latest tracker scan of a tool's landing page (cron, see src/lib/trackers.mjs).
+// One row per tool, replaced on every scan.
+export const trackerScans = sqliteTable('tracker_scans', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  toolId: integer('tool_id')
+    .notNull()
+    .references(() => tools.id, { onDelete: 'cascade' })
+    .unique(),
+  scannedAt: integer('scanned_at', { mode: 'timestamp' }).notNull(),
+  httpStatus: integer('http_status'),
+  trackers: text('trackers').notNull(), // JSON array of {name, category, hosts, thirdPartyCookies}
+  cookies: text('cookies').notNull(), // JSON array of {name, tracker}
+});
+
 export const editSuggestions = sqliteTable('edit_suggestions', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   toolId: integer('tool_id')
@@ -90,13 +130,70 @@ export const editSuggestions = sqliteTable('edit_suggestions', {
   oldValue: text('old_value'),
   newValue: text('new_value').notNull(),
   reason: text('reason'),
-  status: text('status', { enum: ['pending', 'approved', 'rejected'] })
+  // superseded: the tool got the suggested values from another suggestion
+  status: text('status', { enum: ['pending', 'approved', 'rejected', 'superseded'] })
     .notNull()
     .default('pending'),
   submittedAt: integer('submitted_at', { mode: 'timestamp' }).notNull(),
   submitterIpHash: text('submitter_ip_hash'),
+  // For Block Source (see hashEditSource in src/lib/utils.ts); purged with the IP hash
+  submitterSourceHash: text('submitter_source_hash'),
+  submitterEmail: text('submitter_email'), // cleared once the review decision is mailed
+  submitterEmailToken: text('submitter_email_token'), // as on tools
+  submitterLocale: text('submitter_locale'),
+  // Shared by the fields of one suggestion, which are reviewed together;
+  // null for older single-field rows and the cron worker's tag suggestions
+  changesetId: text('changeset_id'),
+}, (table) => [
+  index('idx_edit_suggestions_changeset_id').on(table.changesetId),
+  index('idx_edit_suggestions_submitter_email_token').on(table.submitterEmailToken),
+  index('idx_edit_suggestions_submitter_source_hash').on(table.submitterSourceHash),
+]);
+
+// Sources whose edit suggestions are rejected on arrival (the block_edit
+// review action), by their stable hash (see hashEditSource in
+// src/lib/utils.ts). The cron worker deletes a block once it has expired.
+export const editSourceBlocks = sqliteTable('edit_source_blocks', {
+  sourceHash: text('source_hash').primaryKey(),
+  blockedAt: integer('blocked_at', { mode: 'timestamp' }).notNull(),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
 });
 
+// Append-only change log behind /api/changes. No foreign key: rows must
+// outlive deleted tools so mirrors can see the removal.
+export const toolChanges = sqliteTable('tool_changes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  toolId: integer('tool_id').notNull(),
+  slug: text('slug').notNull(),
+  eventType: text('event_type', {
+    enum: ['added', 'updated', 'removed', 'status-changed'],
+  }).notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }),
+  previousStatus: text('previous_status', { enum: ['pending', 'approved', 'rejected'] }),
+  changedFields: text('changed_fields'), // JSON array of public field names
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+  index('idx_tool_changes_created_at').on(table.createdAt),
+]);
+
+// A snapshot of a tool's content after each change (see revisions.mjs), for
+// its public history and admin reverts
+export const toolRevisions = sqliteTable('tool_revisions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  toolId: integer('tool_id')
+    .notNull()
+    .references(() => tools.id, { onDelete: 'cascade' }),
+  source: text('source', {
+    enum: ['baseline', 'submit', 'edit', 'admin', 'seo', 'discovery', 'revert'],
+  }).notNull(),
+  snapshot: text('snapshot').notNull(), // JSON object of the fields in REVISION_FIELDS
+  changedFields: text('changed_fields'), // JSON array; null for a tool's first revision
+  restoredRevisionId: integer('restored_revision_id'), // set by reverts
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+  index('idx_tool_revisions_tool_id').on(table.toolId, table.id),
+]);
+
 export const dataExports = sqliteTable('data_exports', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   exportedAt: integer('exported_at', { mode: 'timestamp' }).notNull(),
@@ -121,3 +218,86 @@ export const githubNotifications = sqliteTable('github_notifications', {
     .default('created'),
   errorMessage: text('error_message'),
 });
+
+export const webhooks = sqliteTable('webhooks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(),
+  events: text('events').notNull(), // JSON array of subscribed event types
+  categories: text('categories'), // JSON array of category tag values; null = all
+  description: text('description'),
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  webhookId: integer('webhook_id')
+    .notNull()
+    .references(() => webhooks.id, { onDelete: 'cascade' }),
+  eventType: text('event_type').notNull(),
+  toolId: integer('tool_id'),
+  payload: text('payload').notNull(),
+  status: text('status', { enum: ['pending', 'delivered', 'failed'] })
+    .notNull()
+    .default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp' }),
+  responseStatus: integer('response_status'),
+  errorMessage: text('error_message'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  deliveredAt: integer('delivered_at', { mode: 'timestamp' }),
+}, (table) => [
+  index('idx_webhook_deliveries_status_next').on(table.status, table.nextAttemptAt),
+  index('idx_webhook_deliveries_webhook_id').on(table.webhookId, table.createdAt),
+]);
+
+export const apiKeys = sqliteTable('api_keys', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  keyPrefix: text('key_prefix').notNull(), // first characters of the key, for display
+  keyHash: text('key_hash').notNull().unique(), // SHA-256 hex; the key itself is never stored
+  rateLimitPerMinute: integer('rate_limit_per_minute'), // null = default key limit
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+});
+
+// Token buckets for the middleware rate limiter. updated_at is in milliseconds.
+export const rateLimitBuckets = sqliteTable('rate_limit_buckets', {
+  bucketKey: text('bucket_key').primaryKey(),
+  tokens: real('tokens').notNull(),
+  allowed: integer('allowed', { mode: 'boolean' }).notNull().default(true),
+  updatedAt: integer('updated_at').notNull(),
+}, (table) => [
+  index('idx_rate_limit_buckets_updated_at').on(table.updatedAt),
+]);
+
+// Anti-spam outcomes per submission (src/lib/spam-checks.ts). Blocked
+// submissions have no tool; the cron worker purges them after 30 days.
+export const submissionChecks = sqliteTable('submission_checks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  toolId: integer('tool_id').references(() => tools.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  submitterIpHash: text('submitter_ip_hash'),
+  checkedAt: integer('checked_at', { mode: 'timestamp' }).notNull(),
+  blocked: integer('blocked', { mode: 'boolean' }).notNull(),
+  results: text('results').notNull(), // JSON: SpamCheckResult[]
+}, (table) => [
+  index('idx_submission_checks_tool_id').on(table.toolId),
+  index('idx_submission_checks_checked_at').on(table.checkedAt),
+]);
+
+// Admin-adjustable settings, one JSON value per key.
+export const settings = sqliteTable('settings', {
+  key: text('key').primaryKey(),
+  value: text('value').notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Addresses that unsubscribed from submitter notifications, stored only as
+// their unsubscribe token (see createUnsubscribeToken in src/lib/receipts.mjs).
+export const emailSuppressions = sqliteTable('email_suppressions', {
+  token: text('token').primaryKey(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
@@ -9,8 +9,18 @@ type Env = {
   GITHUB_TOKEN: string;
   ARCHIVE_ORG_ACCESS_KEY: string;
   ARCHIVE_ORG_SECRET_KEY: string;
+  RECEIPT_SECRET?: string;
+  IP_HASH_SECRET: string;
+  MAIL_TRANSPORT?: string;
+  MAIL_FROM?: string;
+  MAIL_API_KEY?: string;
   RATE_LIMIT_MAX_SUBMISSIONS?: string;
   RATE_LIMIT_WINDOW_HOURS?: string;
+  RATE_LIMIT_MAX_EDITS?: string;
+  RATE_LIMIT_MAX_TOOL_EDITS?: string;
+  RATE_LIMIT_API_PER_MINUTE?: string;
+  RATE_LIMIT_API_KEY_PER_MINUTE?: string;
+  EDIT_SOURCE_BLOCK_DAYS?: string;
 };
 
 type Runtime = import('@astrojs/cloudflare').Runtime<Env>;
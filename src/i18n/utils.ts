@@ -77,6 +77,14 @@ export function getLocaleFromUrl(url: URL | string): Locale {
   return DEFAULT_LOCALE;
 }
 
+/**
+ * Locale from an untrusted value such as a request body field.
+ * Anything that is not a supported locale → 'en'
+ */
+export function parseLocale(value: unknown): Locale {
+  return (LOCALES as readonly unknown[]).includes(value) ? (value as Locale) : DEFAULT_LOCALE;
+}
+
 /**
  * Generate a localized path.
  * Default locale (en) gets no prefix: `/tool/slug`
@@ -0,0 +1,93 @@
+// Rules of the submission anti-spam pipeline (run by runSpamChecks in
+// spam-checks.ts). Each check passes, fails or is skipped; what a failure
+// does is set per check from the admin panel: `block` refuses the submission,
+// `flag` lets it through marked for the reviewer, `off` does not run the
+// check at all.
+
+/**
+ * @typedef {(typeof SPAM_CHECKS)[number]} SpamCheck
+ * @typedef {(typeof SPAM_ACTIONS)[number]} SpamAction
+ * @typedef {Record<SpamCheck, SpamAction>} SpamSettings
+ * @typedef {{ check: SpamCheck, outcome: 'pass' | 'fail' | 'skipped', action: Exclude<SpamAction, 'off'>, detail: string | null }} SpamCheckResult
+ */
+
+export const SPAM_CHECKS = /** @type {const} */ (['honeypot', 'challenge', 'blocklist', 'reachability']);
+
+export const SPAM_ACTIONS = /** @type {const} */ (['off', 'flag', 'block']);
+
+/** @type {Record<SpamCheck, { label: string, description: string }>} */
+export const SPAM_CHECK_INFO = {
+  honeypot: {
+    label: 'Honeypot',
+    description: 'A form field hidden from people. Bots that fill in every field fail.',
+  },
+  challenge: {
+    label: 'Proof of work',
+    description: 'The browser solves a small hash puzzle before submitting. API key requests skip it.',
+  },
+  blocklist: {
+    label: 'Domain blocklist',
+    description: 'Refuses sites on excludeHostnames in scripts/tool-discovery-sources.json.',
+  },
+  reachability: {
+    label: 'Reachability',
+    description: 'Fetches the URL before accepting it. Slows submissions down by up to 20 seconds.',
+  },
+};
+
+/** @type {SpamSettings} */
+export const DEFAULT_SPAM_SETTINGS = {
+  honeypot: 'block',
+  challenge: 'flag',
+  blocklist: 'block',
+  reachability: 'flag',
+};
+
+/** Request field of the honeypot; a name form-filling bots cannot resist. */
+export const HONEYPOT_FIELD = 'website';
+
+/**
+ * Stored settings merged over the defaults; unknown checks and actions are
+ * ignored.
+ * @param {unknown} value parsed JSON
+ * @returns {SpamSettings}
+ */
+export function parseSpamSettings(value) {
+  const settings = { ...DEFAULT_SPAM_SETTINGS };
+  if (value && typeof value === 'object') {
+    for (const check of SPAM_CHECKS) {
+      const action = /** @type {Record<string, unknown>} */ (value)[check];
+      if (SPAM_ACTIONS.includes(/** @type {SpamAction} */ (action))) settings[check] = /** @type {SpamAction} */ (action);
+    }
+  }
+  return settings;
+}
+
+/**
+ * The blocklisted hostname a URL is on (subdomains included), or null.
+ * @param {string} url
+ * @param {string[]} hostnames
+ */
+export function findBlockedHostname(url, hostnames) {
+  let hostname;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+  return hostnames.find((blocked) => hostname === blocked || hostname.endsWith(`.${blocked}`)) ?? null;
+}
+
+/**
+ * What a set of results means for the submission: refused if any blocking
+ * check failed, marked for review if any flagging check failed.
+ * @param {SpamCheckResult[]} results
+ * @returns {{ blocked: SpamCheckResult | null, flagged: boolean }}
+ */
+export function decideSpamOutcome(results) {
+  const failed = results.filter((result) => result.outcome === 'fail');
+  return {
+    blocked: failed.find((result) => result.action === 'block') ?? null,
+    flagged: failed.some((result) => result.action === 'flag'),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * API keys for the public API. Keys are optional: anonymous clients get the
+ * per-IP limit, keyed clients their own (usually higher) per-key limit. Only
+ * a SHA-256 hash of each key is stored.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { apiKeys } from '../db/schema';
+
+export const API_KEY_HEADER = 'X-API-Key';
+const API_KEY_PREFIX = 'nlt_';
+/** Upper bound for a per-key rate limit override. */
+export const MAX_API_KEY_RATE_LIMIT = 10000;
+/** Characters of the key kept in clear for the admin list. */
+const DISPLAY_PREFIX_LENGTH = 12;
+/** last_used_at is only refreshed when older than this, to avoid a write per request. */
+const LAST_USED_RESOLUTION_MS = 3600 * 1000;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key = API_KEY_PREFIX + Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function getRequestApiKey(request: Request): string | null {
+  return request.headers.get(API_KEY_HEADER)?.trim() || null;
+}
+
+/** Active (non-revoked) key matching the given secret, or null. */
+export async function findActiveApiKey(db: Database, key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, await hashApiKey(key)))
+    .limit(1);
+  return row && !row.revokedAt ? row : null;
+}
+
+export async function touchApiKey(db: Database, key: ApiKey, now = new Date()): Promise<void> {
+  if (key.lastUsedAt && now.getTime() - key.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+  await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, key.id));
+}
@@ -1,16 +1,17 @@
-function success<T>(data: T, status = 200): Response {
+function success<T>(data: T, status = 200, headers?: Record<string, string>): Response {
   return new Response(JSON.stringify({ ok: true, data }), {
     status,
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...headers },
   });
 }
 
 function error(
   message: string,
   status = 400,
-  details?: Record<string, string>
+  details?: Record<string, string>,
+  extra?: Record<string, unknown>
 ): Response {
-  return new Response(JSON.stringify({ ok: false, error: message, details }), {
+  return new Response(JSON.stringify({ ok: false, error: message, details, ...extra }), {
     status,
     headers: { 'Content-Type': 'application/json' },
   });
@@ -0,0 +1,178 @@
+// Input parsing for the admin bulk import (POST /api/admin/bulk-import, run
+// by tool-import.ts). Curators paste or upload either:
+//
+// - JSON: an array of tools in the shape of .github/auto-tools/*.json (the
+//   shape validate-tool-data.mjs checks), or a single such object.
+// - CSV: a header row naming the columns, then one tool per row. Field
+//   columns use the JSON names (name, url, coreTask, ...). Tags get one column
+//   per tag key (category, pricing, ...); several values go in one cell,
+//   separated by `;`.
+
+/**
+ * Rows per request. tool-import.ts writes them in three D1 batches of up to
+ * four statements per row, well within the 1000 D1 queries a Worker may run
+ * per invocation.
+ */
+export const MAX_IMPORT_ROWS = 100;
+
+export const IMPORT_FIELDS = /** @type {const} */ ([
+  'name',
+  'url',
+  'description',
+  'coreTask',
+  'repoUrl',
+  'twitterUrl',
+  'githubUrl',
+  'discordUrl',
+  'seoTitle',
+  'seoDescription',
+  'seoFocusKeyword',
+  'seoIntent',
+  'seoTaskPhrase',
+]);
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, newlines and doubled quotes). Blank lines are skipped.
+ * @param {string} text
+ * @returns {string[][]}
+ */
+export function parseCsv(text) {
+  /** @type {string[][]} */
+  const rows = [];
+  /** @type {string[]} */
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Turn CSV into tool objects shaped like the JSON input.
+ * @param {string} text
+ * @param {string[]} tagKeys
+ * @returns {{ rows: Record<string, unknown>[] } | { error: string }}
+ */
+export function csvToTools(text, tagKeys) {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { error: 'The CSV is empty.' };
+
+  const columns = header.map((name) => name.trim());
+  const unknown = columns.filter(
+    (name) => !IMPORT_FIELDS.includes(/** @type {any} */ (name)) && !tagKeys.includes(name)
+  );
+  if (unknown.length > 0) return { error: `Unknown CSV column: ${unknown.join(', ')}.` };
+  if (!columns.includes('name') || !columns.includes('url')) {
+    return { error: 'The CSV header must include at least the name and url columns.' };
+  }
+
+  const rows = records.map((cells) => {
+    /** @type {Record<string, unknown>} */
+    const tool = {};
+    /** @type {{ key: string, value: string }[]} */
+    const tags = [];
+    columns.forEach((column, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (tagKeys.includes(column)) {
+        for (const tagValue of value.split(';')) {
+          if (tagValue.trim()) tags.push({ key: column, value: tagValue.trim() });
+        }
+      } else if (value) {
+        tool[column] = value;
+      }
+    });
+    tool.tags = tags;
+    return tool;
+  });
+  return { rows };
+}
+
+/**
+ * Parse pasted or uploaded input, telling JSON from CSV by its first
+ * character.
+ * @param {string} text
+ * @param {string[]} tagKeys
+ * @returns {{ format: 'json' | 'csv', rows: unknown[] } | { error: string }}
+ */
+export function parseImportInput(text, tagKeys) {
+  const trimmed = text.trim();
+  if (!trimmed) return { error: 'Nothing to import.' };
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      return { error: `Invalid JSON: ${/** @type {Error} */ (err).message}` };
+    }
+    return { format: 'json', rows: Array.isArray(parsed) ? parsed : [parsed] };
+  }
+
+  const csv = csvToTools(trimmed, tagKeys);
+  return 'error' in csv ? csv : { format: 'csv', rows: csv.rows };
+}
+
+/**
+ * Tag problems validate-tool-data.mjs also reports: unknown keys or values,
+ * several values for a single-select key, and anything but one category.
+ * @param {{ key: string, value: string }[]} tags
+ * @param {{ key: string, values: string[], multiSelect: boolean }[]} definitions
+ * @returns {string[]}
+ */
+export function findTagErrors(tags, definitions) {
+  /** @type {string[]} */
+  const errors = [];
+  /** @type {Map<string, number>} */
+  const counts = new Map();
+  for (const tag of tags) {
+    const def = definitions.find((d) => d.key === tag.key);
+    if (!def) {
+      errors.push(`Unknown tag key: ${tag.key}.`);
+      continue;
+    }
+    if (!def.values.includes(tag.value)) {
+      errors.push(`Unknown ${tag.key} tag: ${tag.value}.`);
+      continue;
+    }
+    counts.set(tag.key, (counts.get(tag.key) ?? 0) + 1);
+  }
+  for (const def of definitions) {
+    if (def.key === 'category' || def.multiSelect) continue;
+    if ((counts.get(def.key) ?? 0) > 1) errors.push(`Only one ${def.key} tag is allowed.`);
+  }
+  if (counts.get('category') !== 1) errors.push('Exactly one category tag is required.');
+  return errors;
+}
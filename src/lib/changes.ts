@@ -0,0 +1,140 @@
+/**
+ * Tool change log behind /api/changes. Write paths that change a tool call
+ * recordToolChange() so downstream mirrors can sync incrementally instead of
+ * re-downloading the whole directory.
+ */
+
+import { and, asc, gt, gte, type SQL } from 'drizzle-orm';
+import type { Database } from '../db';
+import { toolChanges } from '../db/schema';
+
+export const TOOL_CHANGE_TYPES = ['added', 'updated', 'removed', 'status-changed'] as const;
+export type ToolChangeType = (typeof TOOL_CHANGE_TYPES)[number];
+
+type ToolStatus = 'pending' | 'approved' | 'rejected';
+
+export const DEFAULT_CHANGES_LIMIT = 100;
+export const MAX_CHANGES_LIMIT = 500;
+
+export interface ToolChangeInput {
+  type: ToolChangeType;
+  toolId: number;
+  slug: string;
+  status?: ToolStatus | null;
+  previousStatus?: ToolStatus | null;
+  changedFields?: string[];
+}
+
+export interface PublicToolChange {
+  id: number;
+  type: ToolChangeType;
+  toolId: number;
+  slug: string;
+  status: ToolStatus | null;
+  previousStatus: ToolStatus | null;
+  changedFields: string[];
+  occurredAt: string;
+}
+
+export async function recordToolChange(db: Database, change: ToolChangeInput): Promise<void> {
+  await insertToolChange(db, change);
+}
+
+/** The insert recordToolChange() runs, unawaited, for db.batch(). */
+export function insertToolChange(db: Database, change: ToolChangeInput) {
+  return db.insert(toolChanges).values({
+    toolId: change.toolId,
+    slug: change.slug,
+    eventType: change.type,
+    status: change.status ?? null,
+    previousStatus: change.previousStatus ?? null,
+    changedFields: change.changedFields?.length ? JSON.stringify(change.changedFields) : null,
+    createdAt: new Date(),
+  });
+}
+
+export interface ChangesQuery {
+  /** Only changes at or after this time. */
+  since: Date | null;
+  /** Only changes after this change id (the previous response's nextCursor). */
+  cursor: number | null;
+  limit: number;
+}
+
+export function parseChangesQuery(
+  params: URLSearchParams
+): { query: ChangesQuery } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  let since: Date | null = null;
+  const sinceParam = params.get('since');
+  if (sinceParam) {
+    const time = Date.parse(sinceParam);
+    if (Number.isNaN(time)) {
+      errors.since = 'since must be an ISO 8601 timestamp.';
+    } else {
+      since = new Date(time);
+    }
+  }
+
+  let cursor: number | null = null;
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    if (!/^\d+$/.test(cursorParam)) {
+      errors.cursor = 'Invalid cursor.';
+    } else {
+      cursor = parseInt(cursorParam, 10);
+    }
+  }
+
+  let limit = DEFAULT_CHANGES_LIMIT;
+  const limitParam = params.get('limit');
+  if (limitParam) {
+    const parsed = /^\d+$/.test(limitParam) ? parseInt(limitParam, 10) : 0;
+    if (parsed < 1 || parsed > MAX_CHANGES_LIMIT) {
+      errors.limit = `limit must be between 1 and ${MAX_CHANGES_LIMIT}.`;
+    } else {
+      limit = parsed;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { query: { since, cursor, limit } };
+}
+
+/** Changes in id order, plus the cursor to resume from on the next poll. */
+export async function listToolChanges(
+  db: Database,
+  query: ChangesQuery
+): Promise<{ changes: PublicToolChange[]; nextCursor: string | null; hasMore: boolean }> {
+  const conditions: SQL[] = [];
+  if (query.since) conditions.push(gte(toolChanges.createdAt, query.since));
+  if (query.cursor !== null) conditions.push(gt(toolChanges.id, query.cursor));
+
+  const rows = await db
+    .select()
+    .from(toolChanges)
+    .where(and(...conditions))
+    .orderBy(asc(toolChanges.id))
+    .limit(query.limit + 1);
+
+  const hasMore = rows.length > query.limit;
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    changes: page.map((row) => ({
+      id: row.id,
+      type: row.eventType,
+      toolId: row.toolId,
+      slug: row.slug,
+      status: row.status,
+      previousStatus: row.previousStatus,
+      changedFields: row.changedFields ? JSON.parse(row.changedFields) : [],
+      occurredAt: row.createdAt.toISOString(),
+    })),
+    // Even when caught up, hand back the last id so the next poll starts after it
+    nextCursor: last ? String(last.id) : query.cursor !== null ? String(query.cursor) : null,
+    hasMore,
+  };
+}
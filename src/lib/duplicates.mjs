@@ -0,0 +1,255 @@
+// Canonical tool URLs and duplicate detection for submissions. A submitted
+// URL is canonicalized before it is stored, and compared against existing
+// tools by a match key that also ignores the scheme, a leading "www." and
+// trailing slashes. Tools on the same site or with a similar name are
+// reported as possible duplicates for the submitter and the admin to check.
+
+/** Query parameters that only track where a visitor came from. */
+const TRACKING_PARAMS = new Set([
+  'ref', 'ref_src', 'ref_url', 'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid',
+  'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok',
+]);
+
+/**
+ * Hosts where every subdomain is a different site, so their subdomains are
+ * never treated as the same site.
+ */
+const SHARED_HOST_SUFFIXES = [
+  'github.io', 'gitlab.io', 'pages.dev', 'workers.dev', 'vercel.app', 'netlify.app',
+  'herokuapp.com', 'glitch.me', 'web.app', 'firebaseapp.com', 'onrender.com', 'fly.dev',
+  'surge.sh', 'replit.app', 'streamlit.app', 'hf.space', 'codeberg.page',
+];
+
+/** Second-level labels under which sites register, as in example.co.uk. */
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ne', 'or']);
+
+export const DUPLICATE_REASONS = /** @type {const} */ (['url', 'site', 'name']);
+
+/** How each reason is shown to admins. */
+export const DUPLICATE_REASON_LABELS = {
+  url: 'same URL',
+  site: 'same site',
+  name: 'similar name',
+};
+
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+export const MAX_POSSIBLE_DUPLICATES = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const REDIRECT_TIMEOUT_MS = 5000;
+
+/**
+ * @typedef {(typeof DUPLICATE_REASONS)[number]} DuplicateReason
+ * @typedef {{ id: number, slug: string, name: string, url: string, status: string }} ExistingTool
+ * @typedef {ExistingTool & { reasons: DuplicateReason[] }} PossibleDuplicate
+ */
+
+/** @param {string} key */
+function isTrackingParam(key) {
+  const lower = key.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Canonical form of a tool URL: http(s) only, lowercase host, no default
+ * port, credentials, fragment or tracking parameters, and no trailing slash
+ * on the bare origin. Returns null for anything that is not an http(s) URL.
+ * @param {string} value
+ * @returns {string | null}
+ */
+export function canonicalizeUrl(value) {
+  let parsed;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (isTrackingParam(key)) parsed.searchParams.delete(key);
+  }
+  const path = parsed.pathname === '/' ? '' : parsed.pathname;
+  return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+}
+
+/** @param {string} hostname */
+function stripWww(hostname) {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Key under which two URLs count as the same tool: host without "www.",
+ * path without trailing slashes and the remaining query in sorted order.
+ * The scheme and tracking parameters are ignored.
+ * @param {string} value
+ * @returns {string | null}
+ */
+export function urlMatchKey(value) {
+  const canonical = canonicalizeUrl(value);
+  if (!canonical) return null;
+  const parsed = new URL(canonical);
+  parsed.searchParams.sort();
+  return `${stripWww(parsed.host)}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+}
+
+/**
+ * The site a URL belongs to: its registrable domain (example.com for
+ * app.example.com), or the full host on shared hosting such as github.io.
+ * @param {string} value
+ * @returns {string | null}
+ */
+export function siteKey(value) {
+  let hostname;
+  try {
+    hostname = stripWww(new URL(value).hostname);
+  } catch {
+    return null;
+  }
+  if (SHARED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(`.${suffix}`))) return hostname;
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) return hostname;
+
+  const labels = hostname.split('.');
+  const keep = labels.length > 2 && labels.at(-1).length === 2 && SECOND_LEVEL_LABELS.has(labels.at(-2)) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/** @param {string} value */
+function isSiteRoot(value) {
+  try {
+    return new URL(value).pathname.replace(/\/+$/, '') === '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lowercase name words with diacritics and punctuation removed.
+ * @param {string | null | undefined} name
+ * @returns {string[]}
+ */
+export function nameTokens(name) {
+  if (!name) return [];
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** @param {string} text */
+function bigrams(text) {
+  const grams = new Map();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two names, ignoring case,
+ * spacing and punctuation: 1 for "Photo Pea" and "photopea", 0 for nothing
+ * in common.
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export function nameSimilarity(a, b) {
+  const left = nameTokens(a).join('');
+  const right = nameTokens(b).join('');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let shared = 0;
+  for (const [gram, count] of leftGrams) {
+    shared += Math.min(count, rightGrams.get(gram) || 0);
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Whether two names refer to the same tool: nearly identical, or one is the
+ * other with extra trailing words ("Photopea" and "Photopea Online Editor").
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+export function namesMatch(a, b) {
+  if (nameSimilarity(a, b) >= NAME_SIMILARITY_THRESHOLD) return true;
+  const [shorter, longer] = [nameTokens(a), nameTokens(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0 || shorter.join('').length < 4) return false;
+  return shorter.every((token, i) => longer[i] === token);
+}
+
+/**
+ * Existing tools that may be the same as `candidate`, strongest first:
+ * the same URL (match key), the same site when either URL is the site's
+ * root, or a matching name. The candidate itself (by id) is skipped.
+ * @param {{ id?: number, name: string, url: string }} candidate
+ * @param {ExistingTool[]} existing
+ * @param {number} [limit]
+ * @returns {PossibleDuplicate[]}
+ */
+export function findPossibleDuplicates(candidate, existing, limit = MAX_POSSIBLE_DUPLICATES) {
+  const key = urlMatchKey(candidate.url);
+  const site = siteKey(candidate.url);
+  const candidateIsRoot = isSiteRoot(candidate.url);
+
+  /** @type {PossibleDuplicate[]} */
+  const matches = [];
+  for (const tool of existing) {
+    if (candidate.id !== undefined && tool.id === candidate.id) continue;
+
+    /** @type {DuplicateReason[]} */
+    const reasons = [];
+    if (key && urlMatchKey(tool.url) === key) {
+      reasons.push('url');
+    } else if (site && siteKey(tool.url) === site && (candidateIsRoot || isSiteRoot(tool.url))) {
+      reasons.push('site');
+    }
+    if (namesMatch(candidate.name, tool.name)) reasons.push('name');
+
+    if (reasons.length > 0) matches.push({ ...tool, reasons });
+  }
+
+  const rank = (/** @type {PossibleDuplicate} */ match) =>
+    (match.reasons.includes('url') ? 4 : 0) + (match.reasons.includes('site') ? 2 : 0) + (match.reasons.includes('name') ? 1 : 0);
+  return matches.sort((a, b) => rank(b) - rank(a)).slice(0, limit);
+}
+
+/**
+ * Follow one redirect from a canonical URL, so that http://, www. and
+ * trailing-slash variants settle on the address the site itself uses.
+ * Only redirects within the same site are followed; anything else (a login
+ * page, a parked domain, a network error) leaves the URL unchanged.
+ * @param {string} url a canonical URL
+ * @param {{ fetch?: typeof fetch, timeoutMs?: number }} [options]
+ * @returns {Promise<string>}
+ */
+export async function resolveRedirect(url, { fetch: fetchImpl = fetch, timeoutMs = REDIRECT_TIMEOUT_MS } = {}) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetchImpl(url, {
+      method: 'HEAD',
+      headers: { 'User-Agent': 'NoLoginTools-HealthChecker/1.0' },
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    const location = response.headers.get('Location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return url;
+
+    const target = canonicalizeUrl(new URL(location, url).href);
+    return target && siteKey(target) === siteKey(url) ? target : url;
+  } catch {
+    return url;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
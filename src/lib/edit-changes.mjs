@@ -0,0 +1,203 @@
+// Comparing a tool's current values with a suggested edit: whether a value
+// changes anything (POST /api/edit drops the fields that do not), whether the
+// field changed since the suggestion was made, and the diff the admin Edits
+// tab shows for each field of a changeset. Also the checks POST /api/edit
+// makes against duplicate and link-spam suggestions.
+
+/**
+ * @typedef {{ key: string, value: string }} Tag
+ * @typedef {{ type: 'same' | 'added' | 'removed', text: string }} DiffPart
+ * @typedef {{ added: Tag[], removed: Tag[], kept: Tag[] }} TagDiff
+ */
+
+/** Above this many word pairs, a text diff shows the whole value replaced. */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Tags stored as a JSON array of {key, value}; anything else reads as none.
+ * @param {string | null | undefined} value
+ * @returns {Tag[]}
+ */
+export function parseTagList(value) {
+  let parsed;
+  try {
+    parsed = JSON.parse(value || '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter((tag) => typeof tag?.key === 'string' && typeof tag?.value === 'string');
+}
+
+/**
+ * Tags added and removed by a suggestion, in the order given. The source tag
+ * is left out: it follows the repository URL and is never suggested.
+ * @param {Tag[]} oldTags
+ * @param {Tag[]} newTags
+ * @returns {TagDiff}
+ */
+export function diffTags(oldTags, newTags) {
+  const id = (/** @type {Tag} */ tag) => `${tag.key}:${tag.value}`;
+  const oldIds = new Set(oldTags.map(id));
+  const newIds = new Set(newTags.map(id));
+  const suggestible = (/** @type {Tag} */ tag) => tag.key !== 'source';
+  return {
+    added: newTags.filter((tag) => suggestible(tag) && !oldIds.has(id(tag))),
+    removed: oldTags.filter((tag) => suggestible(tag) && !newIds.has(id(tag))),
+    kept: oldTags.filter((tag) => suggestible(tag) && newIds.has(id(tag))),
+  };
+}
+
+/**
+ * Whether a suggested value leaves the field as it is. `newValue` is
+ * normalized (see parseEditValue in tool-input.ts); a cleared link is ''.
+ * @param {string} field
+ * @param {string | null} oldValue
+ * @param {string} newValue
+ */
+export function isSameValue(field, oldValue, newValue) {
+  if (field === 'tags') {
+    const { added, removed } = diffTags(parseTagList(oldValue), parseTagList(newValue));
+    return added.length === 0 && removed.length === 0;
+  }
+  return (oldValue ?? '') === newValue;
+}
+
+/**
+ * Whether two changesets suggest the same values for the same fields.
+ * @param {{ fieldName: string, newValue: string }[]} a
+ * @param {{ fieldName: string, newValue: string }[]} b
+ */
+export function isSameChangeset(a, b) {
+  return (
+    a.length === b.length &&
+    a.every((change) => b.some((other) => other.fieldName === change.fieldName && isSameValue(change.fieldName, other.newValue, change.newValue)))
+  );
+}
+
+/** Longest reason an edit suggestion may give, trimmed. */
+export const MAX_EDIT_REASON_LENGTH = 500;
+
+/**
+ * Whether an edit suggestion's optional reason is acceptable; blank is.
+ * @param {string} reason
+ */
+export function isValidEditReason(reason) {
+  return reason.trim().length <= MAX_EDIT_REASON_LENGTH;
+}
+
+/** Most links the description and reason of an edit suggestion may hold between them. */
+export const MAX_EDIT_LINKS = 2;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+/** @param {string | null | undefined} text */
+const countLinks = (text) => (text?.match(LINK_PATTERN) ?? []).length;
+
+/**
+ * The part of an edit suggestion that looks like link spam, or null: a link
+ * in the name or core task, or more than MAX_EDIT_LINKS links in the
+ * description and reason together. Link fields hold one validated URL each
+ * and are not counted.
+ * @param {{ fieldName: string, newValue: string }[]} changes
+ * @param {string | null | undefined} reason
+ * @returns {string | null} the field name, or 'reason'
+ */
+export function findLinkSpam(changes, reason) {
+  const linked = changes.find((change) => (change.fieldName === 'name' || change.fieldName === 'coreTask') && countLinks(change.newValue) > 0);
+  if (linked) return linked.fieldName;
+
+  const descriptionLinks = countLinks(changes.find((change) => change.fieldName === 'description')?.newValue);
+  const reasonLinks = countLinks(reason);
+  if (descriptionLinks + reasonLinks <= MAX_EDIT_LINKS) return null;
+  return descriptionLinks >= reasonLinks ? 'description' : 'reason';
+}
+
+/**
+ * How a pending suggestion relates to the tool as it is now: `applied` when
+ * the field already has the suggested value, `conflict` when the field was
+ * changed since the suggestion was made (`oldValue`), `clean` otherwise.
+ * @param {string} field
+ * @param {string | null} oldValue
+ * @param {string | null} currentValue
+ * @param {string} newValue
+ * @returns {'clean' | 'applied' | 'conflict'}
+ */
+export function suggestionState(field, oldValue, currentValue, newValue) {
+  if (isSameValue(field, currentValue, newValue)) return 'applied';
+  return isSameValue(field, currentValue, oldValue ?? '') ? 'clean' : 'conflict';
+}
+
+/**
+ * Three-way merge of tag lists: the tags added and removed by a suggestion
+ * made against `baseTags`, applied to `currentTags`.
+ * @param {Tag[]} baseTags
+ * @param {Tag[]} currentTags
+ * @param {Tag[]} suggestedTags
+ * @returns {Tag[]}
+ */
+export function mergeTags(baseTags, currentTags, suggestedTags) {
+  const { added, removed } = diffTags(baseTags, suggestedTags);
+  const id = (/** @type {Tag} */ tag) => `${tag.key}:${tag.value}`;
+  const removedIds = new Set(removed.map(id));
+  const merged = currentTags.filter((tag) => tag.key !== 'source' && !removedIds.has(id(tag)));
+  const mergedIds = new Set(merged.map(id));
+  return [...merged, ...added.filter((tag) => !mergedIds.has(id(tag)))];
+}
+
+/**
+ * Word-level diff of two texts: the longest common run of words and
+ * whitespace is kept, the rest is removed from `oldText` or added from
+ * `newText`. Adjacent parts of the same type are merged.
+ * @param {string} oldText
+ * @param {string} newText
+ * @returns {DiffPart[]}
+ */
+export function diffText(oldText, newText) {
+  const a = oldText.match(/\s+|\S+/g) ?? [];
+  const b = newText.match(/\s+|\S+/g) ?? [];
+
+  /** @type {DiffPart[]} */
+  const parts = [];
+  const push = (/** @type {DiffPart['type']} */ type, /** @type {string} */ text) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (oldText) push('removed', oldText);
+    if (newText) push('added', newText);
+    return parts;
+  }
+
+  // lengths[i * width + j]: longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j] ? lengths[(i + 1) * width + j + 1] + 1 : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
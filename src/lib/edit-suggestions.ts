@@ -0,0 +1,152 @@
+/**
+ * Edit suggestions are stored a row per field. The fields of one suggestion
+ * share a changeset id and are approved or rejected together; older rows
+ * and the cron worker's tag suggestions have none and stand alone.
+ *
+ * Each row keeps the value the field had when it was suggested, so review
+ * can tell when the tool has changed since (see suggestionState() in
+ * edit-changes.mjs).
+ *
+ * Suggestions from a blocked source (edit_source_blocks) are stored as
+ * rejected as they arrive, until the block expires.
+ */
+
+import { and, asc, eq, gt, inArray } from 'drizzle-orm';
+import type { Database } from '../db';
+import { editSourceBlocks, editSuggestions, tags, tools } from '../db/schema';
+import { isSameChangeset, isSameValue } from './edit-changes.mjs';
+import { EDITABLE_FIELDS, isEditableField, type EditableField } from './tool-input';
+
+export type EditSuggestion = typeof editSuggestions.$inferSelect;
+
+const DEFAULT_SOURCE_BLOCK_DAYS = 30;
+
+/** A tool's editable fields as edit_suggestions stores them: tags as a JSON array. */
+export type FieldValues = Record<EditableField, string | null>;
+
+/** The suggestion with `editId` and the other fields of its changeset, oldest first. */
+export async function findChangeset(db: Database, editId: number): Promise<EditSuggestion[]> {
+  const [edit] = await db.select().from(editSuggestions).where(eq(editSuggestions.id, editId)).limit(1);
+  if (!edit) return [];
+  if (!edit.changesetId) return [edit];
+  return db
+    .select()
+    .from(editSuggestions)
+    .where(eq(editSuggestions.changesetId, edit.changesetId))
+    .orderBy(asc(editSuggestions.id));
+}
+
+/**
+ * Pending suggestions grouped into changesets, newest first, for the admin
+ * Edits tab.
+ */
+export function groupChangesets<T extends Pick<EditSuggestion, 'id' | 'changesetId'>>(edits: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const edit of edits) {
+    const key = edit.changesetId ?? `#${edit.id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(edit);
+    } else {
+      groups.set(key, [edit]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/** The current value of every editable field of the given tools. */
+export async function loadCurrentValues(db: Database, toolIds: number[]): Promise<Map<number, FieldValues>> {
+  const values = new Map<number, FieldValues>();
+  if (toolIds.length === 0) return values;
+
+  const rows = await db.select().from(tools).where(inArray(tools.id, toolIds));
+  const tagRows = await db
+    .select({ toolId: tags.toolId, tagKey: tags.tagKey, tagValue: tags.tagValue })
+    .from(tags)
+    .where(inArray(tags.toolId, toolIds));
+  for (const tool of rows) {
+    const toolTags = tagRows
+      .filter((tag) => tag.toolId === tool.id)
+      .map((tag) => ({ key: tag.tagKey, value: tag.tagValue }));
+    const fields = {} as FieldValues;
+    for (const field of EDITABLE_FIELDS) {
+      fields[field] = field === 'tags' ? JSON.stringify(toolTags) : tool[field];
+    }
+    values.set(tool.id, fields);
+  }
+  return values;
+}
+
+/**
+ * Mark pending changesets of a tool superseded when the tool already has
+ * every value they suggest, e.g. after approving a duplicate of them.
+ * Returns them, for the suggesters' emails.
+ */
+export async function supersedeApplied(db: Database, toolId: number): Promise<EditSuggestion[][]> {
+  const pending = await db
+    .select()
+    .from(editSuggestions)
+    .where(and(eq(editSuggestions.toolId, toolId), eq(editSuggestions.status, 'pending')))
+    .orderBy(asc(editSuggestions.id));
+  if (pending.length === 0) return [];
+
+  const current = (await loadCurrentValues(db, [toolId])).get(toolId);
+  if (!current) return [];
+  const applied = groupChangesets(pending).filter((changeset) =>
+    changeset.every((row) => isEditableField(row.fieldName) && isSameValue(row.fieldName, current[row.fieldName], row.newValue))
+  );
+  if (applied.length === 0) return [];
+
+  await db
+    .update(editSuggestions)
+    .set({ status: 'superseded', submitterEmail: null })
+    .where(inArray(editSuggestions.id, applied.flat().map((row) => row.id)));
+  return applied;
+}
+
+/** A pending changeset for the tool that suggests these same values, if any. */
+export async function findPendingDuplicate(
+  db: Database,
+  toolId: number,
+  changes: { fieldName: string; newValue: string }[]
+): Promise<EditSuggestion[] | null> {
+  const pending = await db
+    .select()
+    .from(editSuggestions)
+    .where(and(eq(editSuggestions.toolId, toolId), eq(editSuggestions.status, 'pending')))
+    .orderBy(asc(editSuggestions.id));
+  return groupChangesets(pending).find((changeset) => isSameChangeset(changeset, changes)) ?? null;
+}
+
+/** How long Block Source blocks a source: EDIT_SOURCE_BLOCK_DAYS, default 30. */
+export function sourceBlockDays(env: Pick<Env, 'EDIT_SOURCE_BLOCK_DAYS'>): number {
+  const configured = parseInt(env.EDIT_SOURCE_BLOCK_DAYS || '', 10);
+  return configured > 0 ? configured : DEFAULT_SOURCE_BLOCK_DAYS;
+}
+
+export async function isBlockedSource(db: Database, sourceHash: string, now = new Date()): Promise<boolean> {
+  const [block] = await db
+    .select({ sourceHash: editSourceBlocks.sourceHash })
+    .from(editSourceBlocks)
+    .where(and(eq(editSourceBlocks.sourceHash, sourceHash), gt(editSourceBlocks.expiresAt, now)))
+    .limit(1);
+  return !!block;
+}
+
+/**
+ * Block a source from suggesting edits until `expiresAt` and reject its
+ * pending suggestions, without emailing their suggesters. Blocking a source
+ * again moves the expiry. Returns the ids rejected.
+ */
+export async function blockSource(db: Database, sourceHash: string, expiresAt: Date): Promise<number[]> {
+  await db
+    .insert(editSourceBlocks)
+    .values({ sourceHash, blockedAt: new Date(), expiresAt })
+    .onConflictDoUpdate({ target: editSourceBlocks.sourceHash, set: { blockedAt: new Date(), expiresAt } });
+  const rejected = await db
+    .update(editSuggestions)
+    .set({ status: 'rejected', submitterEmail: null })
+    .where(and(eq(editSuggestions.submitterSourceHash, sourceHash), eq(editSuggestions.status, 'pending')))
+    .returning({ id: editSuggestions.id });
+  return rejected.map((row) => row.id);
+}
@@ -0,0 +1,80 @@
+// Conditional GET support (ETag / Last-Modified / 304) for public API
+// responses. Validators are computed from cheap version queries before the
+// response body is built, so unchanged polls skip the expensive work.
+
+export const API_CACHE_CONTROL = 'public, max-age=60, must-revalidate';
+
+/**
+ * Weak ETag over the given version parts.
+ * @param {(string | number | null)[]} parts
+ * @returns {Promise<string>}
+ */
+export async function computeEtag(parts) {
+  const data = new TextEncoder().encode(parts.map((p) => p ?? '').join('|'));
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  const hex = Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `W/"${hex.slice(0, 32)}"`;
+}
+
+/**
+ * Latest of the given dates, ignoring nulls.
+ * @param {...(Date | null)} dates
+ * @returns {Date | null}
+ */
+export function latestDate(...dates) {
+  /** @type {Date | null} */
+  let latest = null;
+  for (const date of dates) {
+    if (date && (!latest || date > latest)) latest = date;
+  }
+  return latest;
+}
+
+/**
+ * @param {string} etag
+ * @param {Date | null} lastModified
+ * @returns {Record<string, string>}
+ */
+export function cacheHeaders(etag, lastModified) {
+  /** @type {Record<string, string>} */
+  const headers = { ETag: etag, 'Cache-Control': API_CACHE_CONTROL };
+  if (lastModified) headers['Last-Modified'] = lastModified.toUTCString();
+  return headers;
+}
+
+/**
+ * Whether the client's cached copy is still current. If-None-Match takes
+ * precedence over If-Modified-Since, as in RFC 9110.
+ * @param {Request} request
+ * @param {string} etag
+ * @param {Date | null} lastModified
+ * @returns {boolean}
+ */
+export function isNotModified(request, etag, lastModified) {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch !== null) {
+    const opaque = etag.replace(/^W\//, '');
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === opaque);
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    if (!Number.isNaN(since)) return Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+  return false;
+}
+
+/**
+ * @param {Record<string, string>} headers
+ * @returns {Response}
+ */
+export function notModified(headers) {
+  return new Response(null, { status: 304, headers });
+}
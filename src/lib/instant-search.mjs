@@ -0,0 +1,81 @@
+// Homepage instant search. The index is built at build time from the
+// approved tools (see HomePage.astro) and matched entirely in the browser,
+// so filtering never hits the API and keeps working offline.
+
+/**
+ * @typedef {{ slug: string, text: string, tags: string[] }} SearchDocument
+ * @typedef {{ key: string, value: string, label?: string }} SearchTag
+ */
+
+/**
+ * Lowercase, NFKC-normalize and strip Latin diacritics so "Café" matches "cafe".
+ * @param {string | null | undefined} text
+ * @returns {string}
+ */
+export function normalizeSearchText(text) {
+  if (!text) return '';
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** @param {string} key @param {string} value */
+export function tagToken(key, value) {
+  return `${key}:${value}`;
+}
+
+/**
+ * Build the index entry for one tool. `fields` holds every searchable string
+ * (English and localized copy); tag values and their translated labels are
+ * searchable as text too.
+ * @param {{ slug: string, fields: Array<string | null | undefined>, tags: SearchTag[] }} input
+ * @returns {SearchDocument}
+ */
+export function buildSearchDocument({ slug, fields, tags }) {
+  const parts = [...fields];
+  for (const tag of tags) {
+    parts.push(tag.value);
+    if (tag.label && tag.label !== tag.value) parts.push(tag.label);
+  }
+  const text = [...new Set(parts.map(normalizeSearchText).filter(Boolean))].join(' \n ');
+  return { slug, text, tags: tags.map((tag) => tagToken(tag.key, tag.value)) };
+}
+
+/**
+ * Split a query into normalized terms. Every term must appear in the document.
+ * @param {string} query
+ * @returns {string[]}
+ */
+export function parseSearchTerms(query) {
+  return normalizeSearchText(query).split(' ').filter(Boolean);
+}
+
+/**
+ * Does a document match the terms and the selected tags? Tags with the same
+ * key are alternatives (OR); different keys must all match (AND), the same
+ * rules as /api/tools.
+ * @param {SearchDocument} doc
+ * @param {string[]} terms
+ * @param {Map<string, Set<string>>} [selectedTags] key → selected values
+ * @returns {boolean}
+ */
+export function matchesSearch(doc, terms, selectedTags) {
+  for (const term of terms) {
+    if (!doc.text.includes(term)) return false;
+  }
+  if (selectedTags) {
+    for (const [key, values] of selectedTags) {
+      if (values.size === 0) continue;
+      let any = false;
+      for (const value of values) {
+        if (doc.tags.includes(tagToken(key, value))) { any = true; break; }
+      }
+      if (!any) return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,68 @@
+/**
+ * Stored no-login verification runs (login_checks). Submissions are checked
+ * in the background; admins can re-run a check from the Tools tab. The crawl
+ * and analysis live in login-wall.mjs.
+ */
+
+import { desc, inArray } from 'drizzle-orm';
+import type { Database } from '../db';
+import { loginChecks } from '../db/schema';
+import { crawlForLoginWall, type Evidence, type LoginCheckVerdict, type RedirectHop } from './login-wall.mjs';
+
+export interface LoginCheck {
+  verdict: LoginCheckVerdict;
+  checkedAt: Date;
+  httpStatus: number | null;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+  evidence: Evidence[];
+}
+
+function parseJsonList<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Crawl a tool's URL and store the result. */
+export async function runLoginCheck(db: Database, toolId: number, url: string): Promise<LoginCheck> {
+  const result = await crawlForLoginWall(url);
+  const check: LoginCheck = { ...result, checkedAt: new Date() };
+  await db.insert(loginChecks).values({
+    toolId,
+    checkedAt: check.checkedAt,
+    verdict: check.verdict,
+    httpStatus: check.httpStatus,
+    finalUrl: check.finalUrl,
+    redirectChain: JSON.stringify(check.redirectChain),
+    evidence: JSON.stringify(check.evidence),
+  });
+  return check;
+}
+
+/** Most recent check per tool. */
+export async function loadLatestLoginChecks(db: Database, toolIds: number[]): Promise<Map<number, LoginCheck>> {
+  const latest = new Map<number, LoginCheck>();
+  if (toolIds.length === 0) return latest;
+
+  const rows = await db
+    .select()
+    .from(loginChecks)
+    .where(inArray(loginChecks.toolId, toolIds))
+    .orderBy(desc(loginChecks.checkedAt), desc(loginChecks.id));
+  for (const row of rows) {
+    if (latest.has(row.toolId)) continue;
+    latest.set(row.toolId, {
+      verdict: row.verdict,
+      checkedAt: row.checkedAt,
+      httpStatus: row.httpStatus,
+      finalUrl: row.finalUrl,
+      redirectChain: parseJsonList<RedirectHop>(row.redirectChain),
+      evidence: parseJsonList<Evidence>(row.evidence),
+    });
+  }
+  return latest;
+}
@@ -0,0 +1,295 @@
+// No-login verification for pending submissions. crawlForLoginWall() fetches
+// the submitted URL the way a first-time visitor would (following redirects
+// by hand so the chain is recorded) and analyzeHtml() looks for signs
+// that the tool cannot be used without an account: login or OAuth redirects,
+// password forms, signup modals and paywalls. Cookie-consent banners and
+// trackers are reported too, but do not affect the verdict.
+//
+// This is a hint for the reviewer, not a decision: client-rendered apps only
+// show their shell to a crawler, and optional sign-in buttons are common on
+// tools that work fine without them.
+
+import { detectTrackers } from './trackers.mjs';
+
+/**
+ * @typedef {'fail' | 'warn' | 'info'} EvidenceSeverity
+ * @typedef {{ signal: string, severity: EvidenceSeverity, detail: string }} Evidence
+ * @typedef {{ url: string, status: number }} RedirectHop
+ * @typedef {(typeof LOGIN_CHECK_VERDICTS)[number]} LoginCheckVerdict
+ * @typedef {{
+ *   verdict: LoginCheckVerdict,
+ *   evidence: Evidence[],
+ *   finalUrl: string,
+ *   httpStatus: number | null,
+ *   redirectChain: RedirectHop[],
+ * }} LoginCheckResult
+ */
+
+export const LOGIN_CHECK_VERDICTS = /** @type {const} */ (['pass', 'review', 'fail', 'error']);
+
+/** How each verdict is shown to admins. */
+export const LOGIN_CHECK_VERDICT_LABELS = {
+  pass: 'No login wall found',
+  review: 'Needs a closer look',
+  fail: 'Login wall detected',
+  error: 'Could not check',
+};
+
+export const MAX_REDIRECTS = 5;
+const FETCH_TIMEOUT_MS = 10000;
+/** Only the start of the page is analyzed; login walls show up early. */
+const MAX_HTML_LENGTH = 500_000;
+
+const CRAWLER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; NoLoginTools-Verifier/1.0; +https://nologin.tools/about)',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Hosts that only serve sign-in pages. */
+const OAUTH_HOSTS = [
+  'accounts.google.com', 'login.microsoftonline.com', 'login.live.com', 'appleid.apple.com',
+  'auth0.com', 'okta.com', 'clerk.accounts.dev', 'login.salesforce.com', 'id.atlassian.com',
+];
+
+/** Paths of sign-in pages and OAuth endpoints. */
+const LOGIN_PATH = /\/(?:log-?in|sign-?in|sign_in|signup|sign-?up|register|auth(?:orize)?|oauth2?|sso|session\/new|account\/login|users\/sign_in)(?:\/|$|\.)/i;
+
+/** Text that asks the visitor to sign in before going further. */
+const LOGIN_PROMPTS = [
+  /\b(?:log|sign)\s?in to (?:continue|use|access|get started|start)\b/i,
+  /\b(?:sign|log)\s?up to (?:continue|use|access|get started|start)\b/i,
+  /\bcreate (?:a free |an |your )?account to (?:continue|use|access|get started|start)\b/i,
+  /\byou (?:must|need to) (?:be )?(?:log(?:ged)?|sign(?:ed)?)\s?in\b/i,
+  /\bplease (?:log|sign)\s?in\b/i,
+];
+
+/** Element ids and classes of login or signup dialogs. */
+const AUTH_MODAL = /\b(?:id|class)\s*=\s*["'][^"']*\b(?:login|signin|sign-in|signup|sign-up|register|auth)[-_]?(?:modal|dialog|popup|overlay|wall|gate)\b/i;
+
+const OAUTH_BUTTON = /\b(?:continue|sign in|log in|sign up) with (?:google|github|apple|microsoft|facebook|twitter|x|discord)\b/i;
+
+const PAYWALL_MARKERS = [
+  /"isAccessibleForFree"\s*:\s*(?:false|"false")/i,
+  /\b(?:id|class)\s*=\s*["'][^"']*\bpaywall\b/i,
+  /\bsubscribe (?:now )?to (?:continue|keep reading|unlock|access)\b/i,
+  /\b(?:upgrade|subscribe) to (?:pro|premium|a paid plan) to (?:use|continue|access)\b/i,
+  /\bstart your free trial to\b/i,
+];
+
+/** Consent-management platforms, by script host. */
+const COOKIE_CONSENT_SCRIPTS = {
+  'consent.cookiebot.com': 'Cookiebot',
+  'cdn.cookielaw.org': 'OneTrust',
+  'cmp.quantcast.com': 'Quantcast Choice',
+  'sdk.privacy-center.org': 'Didomi',
+  'app.usercentrics.eu': 'Usercentrics',
+  'consent.trustarc.com': 'TrustArc',
+  'cmp.osano.com': 'Osano',
+  'app.termly.io': 'Termly',
+  'cs.iubenda.com': 'iubenda',
+  'cdn-cookieyes.com': 'CookieYes',
+};
+
+/** @param {string} url */
+function hostOf(url) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/** @param {string} host @param {string} domain */
+function isHostOrSubdomain(host, domain) {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Evidence from the redirect chain: a hop to an OAuth provider or to a
+ * sign-in page means the tool itself was never shown.
+ * @param {RedirectHop[]} chain the requested URL first, the final URL last
+ * @returns {Evidence[]}
+ */
+export function analyzeRedirects(chain) {
+  /** @type {Evidence[]} */
+  const evidence = [];
+  for (const hop of chain.slice(1)) {
+    const host = hostOf(hop.url);
+    if (OAUTH_HOSTS.some((domain) => isHostOrSubdomain(host, domain))) {
+      evidence.push({ signal: 'oauth-redirect', severity: 'fail', detail: `Redirected to ${host}` });
+    } else if (LOGIN_PATH.test(new URL(hop.url).pathname)) {
+      evidence.push({ signal: 'login-redirect', severity: 'fail', detail: `Redirected to ${hop.url}` });
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Collect the hosts of external <script src> tags.
+ * @param {string} html
+ * @returns {Set<string>}
+ */
+function scriptHosts(html) {
+  const hosts = new Set();
+  for (const match of html.matchAll(/<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)) {
+    const src = match[1].startsWith('//') ? `https:${match[1]}` : match[1];
+    const host = hostOf(src);
+    if (host) hosts.add(host);
+  }
+  return hosts;
+}
+
+/** @param {Set<string>} hosts @param {Record<string, string>} known */
+function knownScripts(hosts, known) {
+  const names = new Set();
+  for (const host of hosts) {
+    for (const [domain, name] of Object.entries(known)) {
+      if (isHostOrSubdomain(host, domain)) names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Visible text of a page, roughly: scripts, styles and tags removed.
+ * @param {string} html
+ */
+function visibleText(html) {
+  return html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Evidence from the page HTML.
+ * @param {string} html
+ * @returns {Evidence[]}
+ */
+export function analyzeHtml(html) {
+  /** @type {Evidence[]} */
+  const evidence = [];
+  const text = visibleText(html);
+
+  const hasPasswordField = /<input\b[^>]*\btype\s*=\s*["']?password\b/i.test(html);
+  const prompt = LOGIN_PROMPTS.map((pattern) => text.match(pattern)).find(Boolean);
+  const modal = html.match(AUTH_MODAL);
+
+  if (hasPasswordField && (prompt || text.length < 2000)) {
+    // A password form that is most of the page is a sign-in page
+    evidence.push({ signal: 'login-form', severity: 'fail', detail: 'The page is a sign-in form' });
+  } else if (hasPasswordField) {
+    evidence.push({ signal: 'password-field', severity: 'warn', detail: 'The page has a password field' });
+  }
+  if (prompt) {
+    evidence.push({ signal: 'login-prompt', severity: 'warn', detail: `"${prompt[0]}"` });
+  }
+  if (modal) {
+    evidence.push({ signal: 'signup-modal', severity: 'warn', detail: `Login/signup dialog markup (${modal[0].replace(/\s+/g, ' ')})` });
+  }
+
+  const oauthButton = text.match(OAUTH_BUTTON);
+  if (oauthButton) {
+    evidence.push({ signal: 'oauth-button', severity: 'info', detail: `"${oauthButton[0]}"` });
+  }
+
+  const paywall = PAYWALL_MARKERS.map((pattern) => html.match(pattern)).find(Boolean);
+  if (paywall) {
+    evidence.push({ signal: 'paywall', severity: 'warn', detail: `Paywall marker: ${paywall[0]}` });
+  }
+
+  const hosts = scriptHosts(html);
+  const consent = knownScripts(hosts, COOKIE_CONSENT_SCRIPTS);
+  if (consent.length > 0) {
+    evidence.push({ signal: 'cookie-consent', severity: 'info', detail: consent.join(', ') });
+  }
+  const trackers = detectTrackers(html);
+  if (trackers.length > 0) {
+    evidence.push({ signal: 'trackers', severity: 'info', detail: trackers.map((tracker) => tracker.name).join(', ') });
+  }
+
+  if (text.length < 200 && hosts.size + (html.match(/<script\b/gi)?.length ?? 0) > 0) {
+    evidence.push({ signal: 'client-rendered', severity: 'info', detail: 'Little text without JavaScript; the app may render its content in the browser' });
+  }
+  return evidence;
+}
+
+/**
+ * Verdict from the strongest piece of evidence: any fail → fail, any
+ * warning → review, otherwise pass.
+ * @param {Evidence[]} evidence
+ * @returns {LoginCheckVerdict}
+ */
+export function resolveVerdict(evidence) {
+  if (evidence.some((item) => item.severity === 'fail')) return 'fail';
+  if (evidence.some((item) => item.severity === 'warn')) return 'review';
+  return 'pass';
+}
+
+/**
+ * Fetch a URL as a first-time visitor and analyze it.
+ * @param {string} url
+ * @param {{ fetch?: typeof fetch, timeoutMs?: number }} [options]
+ * @returns {Promise<LoginCheckResult>}
+ */
+export async function crawlForLoginWall(url, { fetch: fetchImpl = fetch, timeoutMs = FETCH_TIMEOUT_MS } = {}) {
+  /** @type {RedirectHop[]} */
+  const redirectChain = [];
+  let currentUrl = url;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    for (let hops = 0; ; hops++) {
+      const response = await fetchImpl(currentUrl, {
+        headers: CRAWLER_HEADERS,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      redirectChain.push({ url: currentUrl, status: response.status });
+
+      const location = response.headers.get('Location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        if (hops >= MAX_REDIRECTS) {
+          const evidence = [...analyzeRedirects(redirectChain), { signal: 'redirect-loop', severity: /** @type {const} */ ('warn'), detail: `More than ${MAX_REDIRECTS} redirects` }];
+          return { verdict: resolveVerdict(evidence), evidence, finalUrl: currentUrl, httpStatus: response.status, redirectChain };
+        }
+        currentUrl = new URL(location, currentUrl).href;
+        continue;
+      }
+
+      /** @type {Evidence[]} */
+      const evidence = analyzeRedirects(redirectChain);
+      if (response.status === 401 || response.status === 407) {
+        evidence.push({ signal: 'http-auth', severity: 'fail', detail: `HTTP ${response.status}` });
+      } else if (!response.ok) {
+        evidence.push({ signal: 'http-status', severity: 'warn', detail: `HTTP ${response.status}` });
+      }
+
+      const contentType = response.headers.get('Content-Type') || '';
+      if (contentType.includes('html')) {
+        const html = (await response.text()).slice(0, MAX_HTML_LENGTH);
+        evidence.push(...analyzeHtml(html));
+      } else {
+        evidence.push({ signal: 'not-html', severity: 'warn', detail: contentType || 'No Content-Type' });
+      }
+
+      return { verdict: resolveVerdict(evidence), evidence, finalUrl: currentUrl, httpStatus: response.status, redirectChain };
+    }
+  } catch (err) {
+    const detail = err instanceof Error && err.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : String(err);
+    return {
+      verdict: 'error',
+      evidence: [{ signal: 'fetch-failed', severity: 'warn', detail }],
+      finalUrl: currentUrl,
+      httpStatus: null,
+      redirectChain,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
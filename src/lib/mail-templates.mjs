@@ -0,0 +1,62 @@
+// Plain-text emails sent to submitters when a review decision is made (see
+// notifySubmitter in src/lib/mail.ts). Strings come from the `email.*` keys of
+// the i18n dictionaries, in the locale the submitter used.
+
+/**
+ * @typedef {'approved' | 'rejected' | 'editApproved' | 'editRejected'} NotificationKind
+ * @typedef {(key: string, params?: Record<string, string | number>) => string} Translate
+ * @typedef {{
+ *   kind: NotificationKind,
+ *   toolName: string,
+ *   unsubscribeUrl: string,
+ *   linkUrl?: string | null,
+ *   reason?: string | null,
+ *   field?: string | string[] | null,
+ *   locale?: string,
+ * }} Notification
+ * @typedef {{ subject: string, text: string }} RenderedEmail
+ */
+
+export const NOTIFICATION_KINDS = /** @type {const} */ (['approved', 'rejected', 'editApproved', 'editRejected']);
+
+/** Link line per kind: the listing for approvals, the status page for rejections. */
+const LINK_KEYS = {
+  approved: 'email.approved.link',
+  rejected: 'email.rejected.link',
+  editApproved: 'email.editApproved.link',
+  editRejected: null,
+};
+
+/**
+ * @param {Notification} notification
+ * @param {Translate} translate `t` bound to the submitter's locale
+ * @returns {RenderedEmail}
+ */
+export function renderNotification(notification, translate) {
+  const { kind, toolName, unsubscribeUrl, linkUrl, reason, field, locale } = notification;
+  // An edit suggestion names one field, or several when it was a changeset
+  const fields = (Array.isArray(field) ? field : field ? [field] : []).map((name) => translate(`email.field.${name}`));
+  const params = {
+    name: toolName,
+    field: new Intl.ListFormat(locale ?? 'en', { type: 'conjunction' }).format(fields),
+  };
+
+  const bodyKey = fields.length > 1 ? `email.${kind}.bodyMany` : `email.${kind}.body`;
+  const paragraphs = [translate('email.greeting'), translate(bodyKey, params)];
+  if (kind === 'rejected' && reason?.trim()) {
+    paragraphs.push(translate('email.rejected.reason', { reason: reason.trim() }));
+  }
+  const linkKey = LINK_KEYS[kind];
+  if (linkKey && linkUrl) {
+    paragraphs.push(translate(linkKey, { url: linkUrl }));
+  }
+  paragraphs.push(translate('email.signoff'));
+
+  const footer = [translate('email.footer'), translate('email.unsubscribe', { url: unsubscribeUrl })];
+
+  return {
+    // Tool names are single-line already; never let one split a header
+    subject: translate(`email.${kind}.subject`, params).replace(/[\r\n]+/g, ' '),
+    text: `${paragraphs.join('\n\n')}\n\n-- \n${footer.join('\n')}\n`,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Email to submitters about review decisions. MAIL_TRANSPORT picks how mail
+ * leaves: `log` prints it to the console (local development), `resend` sends
+ * it through the Resend HTTP API with MAIL_API_KEY from MAIL_FROM. Unset, no
+ * mail is sent. Addresses are only kept until the decision is made; review
+ * clears them whether or not a message went out.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { editSuggestions, emailSuppressions, tools } from '../db/schema';
+import { createReceiptToken, createUnsubscribeToken } from './receipts.mjs';
+import { renderNotification, type NotificationKind } from './mail-templates.mjs';
+import { getLocalizedPath, loadTranslations, parseLocale, t } from '../i18n/utils';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const logTransport: MailTransport = {
+  async send(message) {
+    const headers = Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}\n`).join('');
+    console.log(`[Mail] To: ${message.to}\nSubject: ${message.subject}\n${headers}\n${message.text}`);
+  },
+};
+
+function resendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text, headers: message.headers }),
+      });
+      if (!res.ok) {
+        throw new Error(`Resend responded ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      }
+    },
+  };
+}
+
+/** The configured transport, or null when mail is off or misconfigured. */
+export function createMailTransport(env: Env): MailTransport | null {
+  switch (env.MAIL_TRANSPORT) {
+    case 'log':
+      return logTransport;
+    case 'resend':
+      return env.MAIL_API_KEY && env.MAIL_FROM ? resendTransport(env.MAIL_API_KEY, env.MAIL_FROM) : null;
+    default:
+      return null;
+  }
+}
+
+export interface SubmitterNotification {
+  kind: NotificationKind;
+  email: string;
+  locale: string | null;
+  toolId: number;
+  toolName: string;
+  slug: string;
+  reason?: string | null;
+  /** The edited field, or every field of an edit changeset. */
+  field?: string | string[] | null;
+}
+
+/**
+ * Email a submitter about a review decision, in the locale they submitted
+ * in. Returns whether a message was sent: nothing goes out without a
+ * transport and RECEIPT_SECRET (which signs the unsubscribe and status
+ * links), or to an address that has unsubscribed.
+ */
+export async function notifySubmitter(db: Database, env: Env, notification: SubmitterNotification): Promise<boolean> {
+  const transport = createMailTransport(env);
+  const secret = env.RECEIPT_SECRET;
+  if (!transport || !secret) return false;
+
+  const unsubscribeToken = await createUnsubscribeToken(secret, notification.email);
+  const [suppressed] = await db
+    .select({ token: emailSuppressions.token })
+    .from(emailSuppressions)
+    .where(eq(emailSuppressions.token, unsubscribeToken))
+    .limit(1);
+  if (suppressed) return false;
+
+  const locale = parseLocale(notification.locale);
+  await loadTranslations(locale);
+
+  const siteUrl = env.SITE_URL.replace(/\/+$/, '');
+  // Rejections link to the private status page, which has the resubmit link
+  const linkUrl = notification.kind === 'rejected'
+    ? `${siteUrl}/submit/status/${await createReceiptToken(secret, notification.toolId)}`
+    : `${siteUrl}${getLocalizedPath(`/tool/${notification.slug}`, locale)}`;
+
+  const unsubscribeUrl = `${siteUrl}/unsubscribe/${unsubscribeToken}`;
+  const { subject, text } = renderNotification(
+    {
+      kind: notification.kind,
+      toolName: notification.toolName,
+      linkUrl,
+      reason: notification.reason,
+      field: notification.field,
+      locale,
+      unsubscribeUrl,
+    },
+    (key, params) => t(locale, key, params)
+  );
+
+  await transport.send({
+    to: notification.email,
+    subject,
+    text,
+    // Opens the confirmation page. No List-Unsubscribe-Post: Astro's origin
+    // check rejects the cross-site form POST that one-click unsubscribe sends.
+    headers: { 'List-Unsubscribe': `<${unsubscribeUrl}>` },
+  });
+  return true;
+}
+
+/**
+ * The unsubscribe token to store with a submitter's address, so that a link
+ * can later be checked against it; null without an address or RECEIPT_SECRET.
+ */
+export async function submitterEmailToken(env: Env, email: string | null): Promise<string | null> {
+  return email && env.RECEIPT_SECRET ? createUnsubscribeToken(env.RECEIPT_SECRET, email) : null;
+}
+
+/**
+ * Unsubscribe the address behind an unsubscribe token: no more mail is sent
+ * to it, and it is deleted from submissions still waiting for review. Only
+ * tokens stored with a submission (or already suppressed) are accepted, so
+ * made-up tokens are not stored. Returns whether the token was accepted.
+ */
+export async function unsubscribeAddress(db: Database, token: string): Promise<boolean> {
+  const toolRows = await db
+    .update(tools)
+    .set({ submitterEmail: null })
+    .where(eq(tools.submitterEmailToken, token))
+    .returning({ id: tools.id });
+  const editRows = await db
+    .update(editSuggestions)
+    .set({ submitterEmail: null })
+    .where(eq(editSuggestions.submitterEmailToken, token))
+    .returning({ id: editSuggestions.id });
+  if (toolRows.length === 0 && editRows.length === 0) {
+    const [suppressed] = await db
+      .select({ token: emailSuppressions.token })
+      .from(emailSuppressions)
+      .where(eq(emailSuppressions.token, token))
+      .limit(1);
+    return !!suppressed;
+  }
+
+  await db.insert(emailSuppressions).values({ token, createdAt: new Date() }).onConflictDoNothing();
+  return true;
+}
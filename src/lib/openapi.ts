@@ -0,0 +1,603 @@
+/**
+ * OpenAPI 3.1 document for /api/openapi.json. Request and response bodies are
+ * converted from the zod schemas in schemas.ts; query parameters are listed
+ * from the same constants parseToolQuery() and parseChangesQuery() check.
+ */
+
+import { z } from 'astro/zod';
+import { LOCALES, DEFAULT_LOCALE } from '../i18n/config';
+import { TOOL_SORTS, HEALTH_FILTERS, FACET_TAG_DEFINITIONS, DEFAULT_PER_PAGE, MAX_PER_PAGE } from './tool-query';
+import { PUBLIC_TOOL_FIELDS, PUBLIC_API_VERSION, PUBLIC_API_VERSION_HEADER } from './public-tool';
+import { DEFAULT_CHANGES_LIMIT, MAX_CHANGES_LIMIT } from './changes';
+import { API_KEY_HEADER } from './api-keys';
+import {
+  apiErrorSchema,
+  adminResponseSchema,
+  adminSecretRequestSchema,
+  adminToolRequestSchema,
+  adminToolsListRequestSchema,
+  antiSpamRequestSchema,
+  apiKeysRequestSchema,
+  bulkImportRequestSchema,
+  challengeResponseSchema,
+  changesResponseSchema,
+  editSuggestionRequestSchema,
+  githubNotifyRequestSchema,
+  messageResponseSchema,
+  pageMetadataResponseSchema,
+  possibleDuplicatesErrorSchema,
+  publicToolSchema,
+  repoPreviewResponseSchema,
+  resubmitToolRequestSchema,
+  reviewRequestSchema,
+  reviewResponseSchema,
+  submissionResponseSchema,
+  submitLookupResponseSchema,
+  submitToolRequestSchema,
+  toolChangeSchema,
+  toolDetailResponseSchema,
+  toolFeatureRequestSchema,
+  toolsListResponseSchema,
+  toolUpdateRequestSchema,
+  toolRevertRequestSchema,
+  webhooksRequestSchema,
+} from './schemas';
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Schemas emitted once under components.schemas and referenced by name. */
+const COMPONENTS = new Map<z.ZodTypeAny, string>([
+  [publicToolSchema, 'PublicTool'],
+  [toolChangeSchema, 'ToolChange'],
+  [apiErrorSchema, 'Error'],
+]);
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') return { ...schema, type: [schema.type, 'null'] };
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * Convert a zod schema to JSON Schema. Covers the zod types used in
+ * schemas.ts; refinements and transforms describe their input type.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, useRefs = true): JsonSchema {
+  const ref = useRefs ? COMPONENTS.get(schema) : undefined;
+  if (ref) return { $ref: `#/components/schemas/${ref}` };
+
+  const json = convert(schema);
+  if (schema.description && !('$ref' in json)) json.description = schema.description;
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        if (check.kind === 'max') json.maxLength = check.value;
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') json.type = 'integer';
+        if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: toJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = schema._def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return { type: 'object', properties, ...(required.length > 0 && { required }) };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => toJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        oneOf: def.options.map((option: z.ZodTypeAny) => toJsonSchema(option)),
+        discriminator: { propertyName: def.discriminator },
+      };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withNull(toJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+    case z.ZodFirstPartyTypeKind.ZodAny:
+      return {};
+    default:
+      throw new Error(`toJsonSchema: unsupported zod type ${def.typeName}`);
+  }
+}
+
+interface Parameter {
+  name: string;
+  in: 'query' | 'path';
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+  explode?: boolean;
+}
+
+interface Operation {
+  method: 'get' | 'post';
+  path: string;
+  tag: 'Tools' | 'Submissions' | 'Admin';
+  summary: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: z.ZodTypeAny;
+  responses: Record<number, { description: string; schema?: z.ZodTypeAny; headers?: string[] }>;
+}
+
+/** Comma-separated or repeated list parameter, as read by getList() in tool-query.ts. */
+function listParameter(name: string, values: readonly string[], description: string): Parameter {
+  return {
+    name,
+    in: 'query',
+    description: `${description} Comma-separated or repeated.`,
+    schema: { type: 'array', items: { type: 'string', enum: [...values] } },
+    explode: true,
+  };
+}
+
+const fieldsParameter: Parameter = {
+  name: 'fields',
+  in: 'query',
+  description: `Comma-separated subset of tool properties to return: ${PUBLIC_TOOL_FIELDS.join(', ')}.`,
+  schema: { type: 'string', examples: ['slug,name,url'] },
+};
+
+const toolsListParameters: Parameter[] = [
+  { name: 'q', in: 'query', description: 'Full-text search.', schema: { type: 'string' } },
+  {
+    name: 'locale',
+    in: 'query',
+    description: 'Also search translated content in this locale.',
+    schema: { type: 'string', enum: [...LOCALES], default: DEFAULT_LOCALE },
+  },
+  ...FACET_TAG_DEFINITIONS.map((def) =>
+    listParameter(def.key, def.values, `Filter by ${def.label.toLowerCase()} tag; OR within the key, AND across keys.`)
+  ),
+  listParameter('health', HEALTH_FILTERS, 'Filter by effective health status.'),
+  { name: 'featured', in: 'query', schema: { type: 'boolean' } },
+  { name: 'hasRepo', in: 'query', schema: { type: 'boolean' } },
+  { name: 'minStars', in: 'query', schema: { type: 'integer', minimum: 0 } },
+  { name: 'maxStars', in: 'query', schema: { type: 'integer', minimum: 0 } },
+  {
+    name: 'sort',
+    in: 'query',
+    description: 'Defaults to relevance when searching, otherwise score.',
+    schema: { type: 'string', enum: [...TOOL_SORTS] },
+  },
+  { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+  { name: 'perPage', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PER_PAGE, default: DEFAULT_PER_PAGE } },
+  {
+    name: 'cursor',
+    in: 'query',
+    description: 'pagination.nextCursor of the previous page, with the same sort. Cannot be combined with page.',
+    schema: { type: 'string' },
+  },
+  fieldsParameter,
+];
+
+const changesParameters: Parameter[] = [
+  { name: 'since', in: 'query', description: 'ISO 8601 timestamp.', schema: { type: 'string', format: 'date-time' } },
+  { name: 'cursor', in: 'query', description: 'nextCursor of the previous response.', schema: { type: 'string' } },
+  {
+    name: 'limit',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_CHANGES_LIMIT, default: DEFAULT_CHANGES_LIMIT },
+  },
+];
+
+const RATE_LIMITED = ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'];
+const CACHED = ['ETag', 'Last-Modified', PUBLIC_API_VERSION_HEADER];
+
+const invalid = { description: 'Invalid request.', schema: apiErrorSchema };
+const unauthorized = { description: 'Missing or wrong admin secret.', schema: apiErrorSchema };
+const notFound = { description: 'Not found.', schema: apiErrorSchema };
+const adminOk = { description: 'Done.', schema: adminResponseSchema };
+
+const OPERATIONS: Operation[] = [
+  {
+    method: 'get',
+    path: '/api/tools',
+    tag: 'Tools',
+    summary: 'List, search and filter tools',
+    parameters: toolsListParameters,
+    responses: {
+      200: { description: 'A page of tools with facet counts.', schema: toolsListResponseSchema, headers: [...CACHED, ...RATE_LIMITED] },
+      304: { description: 'Not modified (If-None-Match / If-Modified-Since).' },
+      400: invalid,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tools/{slug}',
+    tag: 'Tools',
+    summary: 'Get one tool',
+    parameters: [{ name: 'slug', in: 'path', required: true, schema: { type: 'string' } }, fieldsParameter],
+    responses: {
+      200: { description: 'The tool.', schema: toolDetailResponseSchema, headers: [...CACHED, ...RATE_LIMITED] },
+      304: { description: 'Not modified (If-None-Match / If-Modified-Since).' },
+      400: invalid,
+      404: notFound,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/changes',
+    tag: 'Tools',
+    summary: 'Poll the tool change log',
+    parameters: changesParameters,
+    responses: {
+      200: { description: 'Changes in id order.', schema: changesResponseSchema, headers: [PUBLIC_API_VERSION_HEADER, ...RATE_LIMITED] },
+      400: invalid,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/submit/challenge',
+    tag: 'Submissions',
+    summary: 'Get a proof-of-work challenge for a submission',
+    description:
+      'Find a nonce (decimal digits) whose SHA-256 hash of `{challenge}:{nonce}` starts with `difficulty` zero bits, and send both with the submission. Challenges are bound to the requesting IP address.',
+    responses: { 200: { description: 'A challenge.', schema: challengeResponseSchema, headers: RATE_LIMITED } },
+  },
+  {
+    method: 'get',
+    path: '/api/submit/lookup',
+    tag: 'Submissions',
+    summary: 'Check a URL for duplicates before submitting',
+    description: 'Applies the duplicate rules of POST /api/submit, without following redirects.',
+    parameters: [
+      { name: 'url', in: 'query', required: true, schema: { type: 'string', format: 'uri' } },
+      { name: 'name', in: 'query', description: 'Also match tools with a similar name.', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: { description: 'The tool with this URL, if any, and possible duplicates.', schema: submitLookupResponseSchema, headers: RATE_LIMITED },
+      400: invalid,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/submit/repo',
+    tag: 'Submissions',
+    summary: 'Preview a GitHub repository',
+    parameters: [{ name: 'url', in: 'query', required: true, schema: { type: 'string', format: 'uri' } }],
+    responses: {
+      200: { description: 'Repository data from GitHub.', schema: repoPreviewResponseSchema, headers: RATE_LIMITED },
+      400: invalid,
+      404: { description: 'Not found, private, or GitHub did not answer.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/submit/metadata',
+    tag: 'Submissions',
+    summary: "Read a tool's page metadata",
+    description: 'Fetches the page and its web app manifest and returns what the submit form can prefill.',
+    parameters: [{ name: 'url', in: 'query', required: true, schema: { type: 'string', format: 'uri' } }],
+    responses: {
+      200: { description: 'Metadata read from the page.', schema: pageMetadataResponseSchema, headers: RATE_LIMITED },
+      400: invalid,
+      502: { description: 'The page could not be fetched or is not HTML.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/submit',
+    tag: 'Submissions',
+    summary: 'Submit a tool for review',
+    description:
+      'Limited per IP per day; the quota is only used by successful submissions. Anti-spam checks (honeypot, proof-of-work challenge, domain blocklist, reachability) may refuse or flag a submission; requests with an API key skip the challenge.',
+    requestBody: submitToolRequestSchema,
+    responses: {
+      201: { description: 'Submitted; pending review.', schema: submissionResponseSchema, headers: RATE_LIMITED },
+      400: invalid,
+      409: {
+        description:
+          'Already submitted (details.slug and details.status identify the existing tool), or possibleDuplicates lists tools on the same site or with a similar name. Resend with confirmNotDuplicate: true to submit anyway.',
+        schema: possibleDuplicatesErrorSchema,
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/resubmit',
+    tag: 'Submissions',
+    summary: 'Resubmit a rejected tool',
+    requestBody: resubmitToolRequestSchema,
+    responses: {
+      200: { description: 'Back in the review queue.', schema: submissionResponseSchema },
+      400: invalid,
+      404: notFound,
+      409: { description: 'The new URL belongs to another tool.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/edit',
+    tag: 'Submissions',
+    summary: 'Suggest an edit to an approved tool',
+    description:
+      'One field with `fieldName` and `newValue`, or several with `changes`; the fields of a suggestion are reviewed together. Fields that would stay the same are dropped, and a suggestion that changes nothing is refused. Limited per IP and per tool per day; the per-IP quota is only used by accepted suggestions. Links are refused in the name and core task, and limited in the description and reason.',
+    requestBody: editSuggestionRequestSchema,
+    responses: {
+      201: { description: 'Suggestion queued for review.', schema: messageResponseSchema, headers: RATE_LIMITED },
+      400: invalid,
+      404: notFound,
+      409: { description: 'The same change is already waiting for review.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/review',
+    tag: 'Admin',
+    summary: 'Approve or reject a tool or an edit suggestion',
+    description:
+      '`block_edit` rejects an edit suggestion and blocks its source: further suggestions from the same source are rejected as they arrive, until `blockedUntil` (`EDIT_SOURCE_BLOCK_DAYS` days later, default 30).',
+    requestBody: reviewRequestSchema,
+    responses: {
+      200: { description: 'Done.', schema: reviewResponseSchema },
+      400: invalid,
+      401: unauthorized,
+      404: notFound,
+      409: {
+        description: 'Fields of the edit changed since it was suggested; `details` names them. Pass the values to apply in `values`.',
+        schema: apiErrorSchema,
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tools',
+    tag: 'Admin',
+    summary: 'List tools for moderation',
+    requestBody: adminToolsListRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/bulk-import',
+    tag: 'Admin',
+    summary: 'Import tools from CSV or JSON',
+    description:
+      'Each row is validated like a submission and checked for duplicates. The response has a result per row: imported, valid (dry run), invalid, duplicate or possible-duplicate.',
+    requestBody: bulkImportRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tool-update',
+    tag: 'Admin',
+    summary: 'Update tool fields',
+    requestBody: toolUpdateRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tool-revisions',
+    tag: 'Admin',
+    summary: 'List a tool\'s revisions',
+    description: 'Newest first, with the snapshot of the tool\'s content after each change.',
+    requestBody: adminToolRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tool-revert',
+    tag: 'Admin',
+    summary: 'Revert a tool to an earlier revision',
+    description: 'Restores the content fields and tags of the revision and records the result as a new revision.',
+    requestBody: toolRevertRequestSchema,
+    responses: {
+      200: adminOk,
+      400: invalid,
+      401: unauthorized,
+      404: notFound,
+      409: { description: 'The revision\'s URL belongs to another tool now.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tool-feature',
+    tag: 'Admin',
+    summary: 'Feature or unfeature an approved tool',
+    requestBody: toolFeatureRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/tool-delete',
+    tag: 'Admin',
+    summary: 'Delete a tool',
+    requestBody: adminToolRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/health-check',
+    tag: 'Admin',
+    summary: 'Run a health check now',
+    requestBody: adminToolRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/login-check',
+    tag: 'Admin',
+    summary: 'Re-run the no-login verification crawler',
+    description: 'Fetches the tool URL as a first-time visitor and stores the verdict (pass, review, fail or error) with its evidence.',
+    requestBody: adminToolRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/github-fetch',
+    tag: 'Admin',
+    summary: 'Refresh GitHub repository data',
+    requestBody: adminToolRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/github-notify',
+    tag: 'Admin',
+    summary: 'Open a "listed on nologin.tools" issue on the tool\'s repository',
+    requestBody: githubNotifyRequestSchema,
+    responses: {
+      200: adminOk,
+      400: invalid,
+      401: unauthorized,
+      404: notFound,
+      409: { description: 'Already notified; pass force to send again.', schema: apiErrorSchema },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/data-export',
+    tag: 'Admin',
+    summary: 'Export approved tools to the GitHub data repository',
+    requestBody: adminSecretRequestSchema,
+    responses: { 200: adminOk, 401: unauthorized },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/export-history',
+    tag: 'Admin',
+    summary: 'Recent data exports',
+    requestBody: adminSecretRequestSchema,
+    responses: { 200: adminOk, 401: unauthorized },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/webhooks',
+    tag: 'Admin',
+    summary: 'Manage webhook subscriptions',
+    requestBody: webhooksRequestSchema,
+    responses: { 200: adminOk, 201: { description: 'Created; signingSecret is only returned here.', schema: adminResponseSchema }, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/api-keys',
+    tag: 'Admin',
+    summary: 'Manage API keys',
+    requestBody: apiKeysRequestSchema,
+    responses: { 200: adminOk, 201: { description: 'Created; the key is only returned here.', schema: adminResponseSchema }, 400: invalid, 401: unauthorized, 404: notFound },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/anti-spam',
+    tag: 'Admin',
+    summary: 'Read or change the submission anti-spam settings',
+    requestBody: antiSpamRequestSchema,
+    responses: { 200: adminOk, 400: invalid, 401: unauthorized },
+  },
+];
+
+const HEADER_DESCRIPTIONS: Record<string, JsonSchema> = {
+  'X-RateLimit-Limit': { description: 'Bucket size (requests per window).', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the bucket.', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Unix time when the bucket is full again.', schema: { type: 'integer' } },
+  'Retry-After': { description: 'Seconds until the next request is allowed.', schema: { type: 'integer' } },
+  ETag: { schema: { type: 'string' } },
+  'Last-Modified': { schema: { type: 'string' } },
+  [PUBLIC_API_VERSION_HEADER]: { description: 'Version of the public tool shape.', schema: { type: 'string' } },
+};
+
+function buildResponses(operation: Operation): JsonSchema {
+  const responses: Record<string, JsonSchema> = {};
+  const all = { ...operation.responses };
+  // Everything outside /api/admin and /api/og goes through the rate limiter
+  if (!operation.path.startsWith('/api/admin/')) {
+    all[401] ??= { description: `Invalid ${API_KEY_HEADER}.`, schema: apiErrorSchema };
+    all[429] = { description: 'Rate limit exceeded.', schema: apiErrorSchema, headers: [...RATE_LIMITED, 'Retry-After'] };
+  }
+  for (const [status, response] of Object.entries(all)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.headers && {
+        headers: Object.fromEntries(response.headers.map((name) => [name, HEADER_DESCRIPTIONS[name]])),
+      }),
+      ...(response.schema && { content: { 'application/json': { schema: toJsonSchema(response.schema) } } }),
+    };
+  }
+  return responses;
+}
+
+export function buildOpenApiDocument(siteUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    const isPublic = !operation.path.startsWith('/api/admin/') && operation.path !== '/api/review';
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = {
+      tags: [operation.tag],
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      ...(operation.parameters && { parameters: operation.parameters }),
+      ...(operation.requestBody && {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(operation.requestBody) } },
+        },
+      }),
+      responses: buildResponses(operation),
+      // Keys are optional: they only raise the rate limit
+      ...(isPublic && { security: [{}, { apiKey: [] }] }),
+    };
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [schema, name] of COMPONENTS) {
+    schemas[name] = toJsonSchema(schema, false);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'nologin.tools API',
+      version: String(PUBLIC_API_VERSION),
+      description:
+        'Responses are wrapped as {ok: true, data} or {ok: false, error, details}. ' +
+        'Admin endpoints take the admin secret in the request body.',
+    },
+    servers: [{ url: siteUrl }],
+    tags: [{ name: 'Tools' }, { name: 'Submissions' }, { name: 'Admin' }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      },
+    },
+  };
+}
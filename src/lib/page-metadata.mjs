@@ -0,0 +1,329 @@
+// Details of a tool read from its own page, used to prefill the submit form
+// and the admin edit form (GET /api/submit/metadata). fetchPageMetadata()
+// loads the page and its web app manifest; extractMetadata() and
+// parseManifest() only look at what was loaded, so they can be tested against
+// saved pages (scripts/__tests__/fixtures/page-metadata/).
+//
+// Everything here is a suggestion: the forms only fill in fields that are
+// still empty, and the submission is validated as usual.
+
+import { TEXT_FIELD_LIMITS } from './submit-form.mjs';
+
+/**
+ * @typedef {{
+ *   name: string | null,
+ *   title: string | null,
+ *   description: string | null,
+ *   image: string | null,
+ *   favicon: string | null,
+ *   manifestUrl: string | null,
+ *   repoUrl: string | null,
+ *   twitterUrl: string | null,
+ *   githubUrl: string | null,
+ *   discordUrl: string | null,
+ * }} PageMetadata
+ * @typedef {{ name: string | null, description: string | null, display: string, installable: boolean }} WebAppManifest
+ * @typedef {{ key: string, value: string }} Tag
+ * @typedef {PageMetadata & { url: string, manifest: WebAppManifest | null, suggestedTags: Tag[] }} PagePrefill
+ */
+
+const FETCH_TIMEOUT_MS = 10000;
+/** The head and the first links are all that is needed. */
+const MAX_HTML_BYTES = 500_000;
+const MAX_MANIFEST_BYTES = 100_000;
+
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; NoLoginTools-Metadata/1.0; +https://nologin.tools/about)',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+};
+
+/** Manifest display modes that open the app in its own window. */
+const APP_DISPLAY_MODES = ['standalone', 'fullscreen', 'minimal-ui', 'window-controls-overlay'];
+
+/** First path segments on github.com that are not users or organizations. */
+const GITHUB_RESERVED = new Set([
+  'about', 'apps', 'collections', 'contact', 'enterprise', 'explore', 'features', 'issues', 'login', 'marketplace',
+  'new', 'notifications', 'orgs', 'pricing', 'pulls', 'search', 'security', 'settings', 'site', 'sponsors', 'topics',
+]);
+
+/** First path segments on x.com / twitter.com that are not accounts. */
+const TWITTER_RESERVED = new Set(['home', 'i', 'intent', 'share', 'search', 'hashtag', 'explore', 'settings']);
+
+/** Separators between a site's name and the rest of its title. */
+const TITLE_SEPARATOR = /\s+[|–—·:-]\s+|:\s+/;
+
+/** Named entities common in titles and descriptions; others are left as they are. */
+const NAMED_ENTITIES = /** @type {Record<string, string>} */ ({
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+  middot: '·', bull: '•', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™',
+});
+
+/** @param {string} value */
+function decodeEntities(value) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    const lower = code.toLowerCase();
+    const point = lower.startsWith('#x') ? parseInt(lower.slice(2), 16) : lower.startsWith('#') ? parseInt(lower.slice(1), 10) : NaN;
+    if (!Number.isNaN(point)) return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+}
+
+/** @param {string | null | undefined} value */
+function cleanText(value) {
+  const text = value ? decodeEntities(value).replace(/\s+/g, ' ').trim() : '';
+  return text || null;
+}
+
+/**
+ * Attributes of every `<tagName>` element, names lowercased.
+ * @param {string} html
+ * @param {string} tagName
+ * @returns {Record<string, string>[]}
+ */
+function elements(html, tagName) {
+  /** @type {Record<string, string>[]} */
+  const found = [];
+  for (const match of html.matchAll(new RegExp(`<${tagName}\\b([^>]*)>`, 'gi'))) {
+    /** @type {Record<string, string>} */
+    const attributes = {};
+    for (const attr of match[1].matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+      attributes[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? '');
+    }
+    found.push(attributes);
+  }
+  return found;
+}
+
+/**
+ * @param {string | undefined} href
+ * @param {string} base
+ */
+function absoluteUrl(href, base) {
+  if (!href?.trim()) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** @param {Record<string, string>} attributes */
+function relTokens(attributes) {
+  return (attributes.rel ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * `text`, shortened at a word boundary to fit `max` characters.
+ * @param {string} text
+ * @param {number} max
+ */
+function truncate(text, max) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > max / 2 ? cut.slice(0, space) : cut).replace(/[\s,.;:]+$/, '')}…`;
+}
+
+/**
+ * The site's name from its title, as in "Squoosh – Compress images" or
+ * "Excalidraw | Hand-drawn diagrams".
+ * @param {string} title
+ */
+function nameFromTitle(title) {
+  return title.split(TITLE_SEPARATOR)[0].trim() || null;
+}
+
+/**
+ * Classify a link to one of the social profiles the forms ask for.
+ * @param {string} href absolute URL
+ * @returns {{ field: 'repoUrl' | 'githubUrl' | 'twitterUrl' | 'discordUrl', url: string } | null}
+ */
+function classifyLink(href) {
+  let url;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'github.com' && parts.length > 0 && !GITHUB_RESERVED.has(parts[0].toLowerCase())) {
+    if (parts.length >= 2) {
+      return { field: 'repoUrl', url: `https://github.com/${parts[0]}/${parts[1].replace(/\.git$/, '')}` };
+    }
+    return { field: 'githubUrl', url: `https://github.com/${parts[0]}` };
+  }
+  if ((host === 'x.com' || host === 'twitter.com') && parts.length === 1 && !TWITTER_RESERVED.has(parts[0].toLowerCase())) {
+    return { field: 'twitterUrl', url: `https://x.com/${parts[0]}` };
+  }
+  if (host === 'discord.gg' && parts.length === 1) {
+    return { field: 'discordUrl', url: `https://discord.gg/${parts[0]}` };
+  }
+  if (host === 'discord.com' && parts[0] === 'invite' && parts.length === 2) {
+    return { field: 'discordUrl', url: `https://discord.gg/${parts[1]}` };
+  }
+  return null;
+}
+
+/**
+ * Read a page's name, description, images, manifest link and project links.
+ * @param {string} html
+ * @param {string} pageUrl the URL the page was served from, for relative links
+ * @returns {PageMetadata}
+ */
+export function extractMetadata(html, pageUrl) {
+  const base = absoluteUrl(elements(html, 'base')[0]?.href, pageUrl) ?? pageUrl;
+  const metas = elements(html, 'meta');
+  const links = elements(html, 'link');
+
+  /** @param {...string} names `name` or `property` values, in order of preference */
+  const meta = (...names) => {
+    for (const name of names) {
+      const found = metas.find((m) => (m.property ?? m.name ?? '').toLowerCase() === name && m.content?.trim());
+      if (found) return cleanText(found.content);
+    }
+    return null;
+  };
+  /** @param {string} rel */
+  const linkHref = (rel) => absoluteUrl(links.find((l) => relTokens(l).includes(rel))?.href, base);
+
+  const title = cleanText(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]) ?? meta('og:title', 'twitter:title');
+  const name = meta('og:site_name', 'application-name', 'apple-mobile-web-app-title') ?? (title && nameFromTitle(title));
+  const description = meta('description', 'og:description', 'twitter:description');
+
+  // Only GitHub repositories, the ones the forms accept
+  const repoLink = [linkHref('repo'), linkHref('code-repository')].map((href) => href && classifyLink(href)).find((link) => link?.field === 'repoUrl');
+  /** @type {Pick<PageMetadata, 'repoUrl' | 'githubUrl' | 'twitterUrl' | 'discordUrl'>} */
+  const profiles = { repoUrl: repoLink?.url ?? null, githubUrl: null, twitterUrl: null, discordUrl: null };
+  const twitterHandle = meta('twitter:site', 'twitter:creator');
+  if (twitterHandle && /^@\w{1,15}$/.test(twitterHandle)) profiles.twitterUrl = `https://x.com/${twitterHandle.slice(1)}`;
+
+  const hrefs = [
+    ...links.filter((l) => relTokens(l).includes('me')).map((l) => l.href),
+    ...elements(html, 'a').map((a) => a.href),
+  ];
+  for (const href of hrefs) {
+    const url = absoluteUrl(href, base);
+    const link = url && classifyLink(url);
+    if (link && !profiles[link.field]) profiles[link.field] = link.url;
+  }
+  // The owner of the repository is the profile to show
+  if (!profiles.githubUrl && profiles.repoUrl) profiles.githubUrl = profiles.repoUrl.split('/').slice(0, 4).join('/');
+
+  return {
+    name: name && truncate(name, TEXT_FIELD_LIMITS.name[1]),
+    title,
+    description: description && truncate(description, TEXT_FIELD_LIMITS.description[1]),
+    image: absoluteUrl(meta('og:image', 'og:image:url', 'twitter:image') ?? undefined, base),
+    favicon: linkHref('icon') ?? linkHref('apple-touch-icon') ?? absoluteUrl('/favicon.ico', base),
+    manifestUrl: linkHref('manifest'),
+    ...profiles,
+  };
+}
+
+/**
+ * The parts of a web app manifest the forms use. `installable` follows the
+ * browsers' minimum: a name, an icon and an app display mode.
+ * @param {unknown} value parsed manifest JSON
+ * @returns {WebAppManifest | null}
+ */
+export function parseManifest(value) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const manifest = /** @type {Record<string, unknown>} */ (value);
+  const text = (/** @type {unknown} */ field) => (typeof field === 'string' ? cleanText(field) : null);
+
+  const name = text(manifest.name) ?? text(manifest.short_name);
+  const display = text(manifest.display) ?? 'browser';
+  const hasIcon = Array.isArray(manifest.icons) && manifest.icons.some((icon) => typeof icon?.src === 'string' && icon.src);
+  return {
+    name,
+    description: text(manifest.description),
+    display,
+    installable: Boolean(name) && hasIcon && APP_DISPLAY_MODES.includes(display),
+  };
+}
+
+/**
+ * Tags the page suggests: PWA for an installable web app.
+ * @param {WebAppManifest | null} manifest
+ * @returns {Tag[]}
+ */
+export function suggestTags(manifest) {
+  return manifest?.installable ? [{ key: 'type', value: 'PWA' }] : [];
+}
+
+/**
+ * The start of a response body as text, at most `maxBytes` of it. Reading
+ * stops there, so a huge response is never held in memory whole.
+ * @param {Response} response
+ * @param {number} maxBytes
+ * @returns {Promise<string>}
+ */
+export async function readTextPrefix(response, maxBytes) {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.byteLength;
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Fetch a page and its manifest and read what the forms can prefill.
+ * @param {string} url
+ * @param {{ fetch?: typeof fetch, timeoutMs?: number }} [options]
+ * @returns {Promise<PagePrefill | { error: string }>}
+ */
+export async function fetchPageMetadata(url, { fetch: fetchImpl = fetch, timeoutMs = FETCH_TIMEOUT_MS } = {}) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetchImpl(url, { headers: FETCH_HEADERS, redirect: 'follow', signal: controller.signal });
+    if (!response.ok) return { error: `HTTP ${response.status}` };
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!contentType.includes('html')) return { error: `Not an HTML page (${contentType || 'no Content-Type'})` };
+
+    const pageUrl = response.url || url;
+    const metadata = extractMetadata(await readTextPrefix(response, MAX_HTML_BYTES), pageUrl);
+
+    /** @type {WebAppManifest | null} */
+    let manifest = null;
+    if (metadata.manifestUrl) {
+      try {
+        const manifestResponse = await fetchImpl(metadata.manifestUrl, {
+          headers: { ...FETCH_HEADERS, Accept: 'application/manifest+json, application/json' },
+          signal: controller.signal,
+        });
+        if (manifestResponse.ok) manifest = parseManifest(JSON.parse(await readTextPrefix(manifestResponse, MAX_MANIFEST_BYTES)));
+      } catch {
+        // A broken manifest only means no PWA suggestion
+      }
+    }
+
+    return {
+      ...metadata,
+      name: metadata.name ?? (manifest?.name ? truncate(manifest.name, TEXT_FIELD_LIMITS.name[1]) : null),
+      description: metadata.description ?? (manifest?.description ? truncate(manifest.description, TEXT_FIELD_LIMITS.description[1]) : null),
+      url: pageUrl,
+      manifest,
+      suggestedTags: suggestTags(manifest),
+    };
+  } catch (err) {
+    return { error: err instanceof Error && err.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : String(err) };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,120 @@
+// Proof-of-work challenge for the submit form, a captcha without a third
+// party or cookies. The server hands out a signed challenge (GET
+// /api/submit/challenge), the browser searches for a nonce whose SHA-256 hash
+// together with the challenge starts with `difficulty` zero bits, and the
+// submission carries both. A person waits a second or two while filling in
+// the form; a bot has to do the same work for every address it posts from.
+//
+// A challenge is `<issuedAt>.<difficulty>.<salt>.<signature>`, with the issue
+// time in base36 seconds and an HMAC-SHA256 signature of the first three
+// parts and the submitter's IP address, so it cannot be forged or solved once
+// and handed to other clients. The address is only signed, never stored; it
+// is used rather than the IP hash, whose key changes at midnight.
+
+const encoder = new TextEncoder();
+
+/** Leading zero bits a solution needs; each one doubles the expected work. */
+export const POW_DIFFICULTY = 16;
+
+/** How long a challenge can be solved and submitted. */
+export const CHALLENGE_TTL_SECONDS = 15 * 60;
+
+/** @param {ArrayBuffer | Uint8Array} buffer */
+function toHex(buffer) {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** @param {string} secret */
+function importKey(secret) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/** @param {string} payload @param {string} ip */
+function signedPart(payload, ip) {
+  return encoder.encode(`pow.${payload}.${ip}`);
+}
+
+/**
+ * Whether a hash starts with at least `difficulty` zero bits.
+ * @param {Uint8Array} hash
+ * @param {number} difficulty
+ */
+export function hasLeadingZeroBits(hash, difficulty) {
+  let bits = difficulty;
+  for (const byte of hash) {
+    if (bits <= 0) return true;
+    if (bits >= 8) {
+      if (byte !== 0) return false;
+      bits -= 8;
+    } else {
+      return byte >> (8 - bits) === 0;
+    }
+  }
+  return bits <= 0;
+}
+
+/** @param {string} challenge @param {string} nonce */
+async function solutionHash(challenge, nonce) {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${nonce}`)));
+}
+
+/**
+ * Issue a challenge for a submitter.
+ * @param {string} secret
+ * @param {string} ip
+ * @param {{ now?: Date, difficulty?: number }} [options]
+ * @returns {Promise<string>}
+ */
+export async function createChallenge(secret, ip, { now = new Date(), difficulty = POW_DIFFICULTY } = {}) {
+  const issued = Math.floor(now.getTime() / 1000).toString(36);
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(8)));
+  const payload = `${issued}.${difficulty}.${salt}`;
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), signedPart(payload, ip));
+  return `${payload}.${toHex(signature)}`;
+}
+
+/** @param {string} challenge */
+function parseChallenge(challenge) {
+  const match = /^([0-9a-z]{1,10})\.(\d{1,2})\.([0-9a-f]{16})\.([0-9a-f]{64})$/.exec(challenge);
+  if (!match) return null;
+  const [, issued, difficulty, salt, signature] = match;
+  return { payload: `${issued}.${difficulty}.${salt}`, issuedAt: parseInt(issued, 36), difficulty: Number(difficulty), signature };
+}
+
+/**
+ * Check a submitted solution. `invalid` covers malformed, forged and
+ * other-client challenges.
+ * @param {string} secret
+ * @param {string} ip
+ * @param {string} challenge
+ * @param {string} nonce
+ * @param {Date} [now]
+ * @returns {Promise<'valid' | 'invalid' | 'expired' | 'unsolved'>}
+ */
+export async function verifyChallenge(secret, ip, challenge, nonce, now = new Date()) {
+  const parsed = parseChallenge(challenge);
+  if (!parsed || parsed.difficulty < 1) return 'invalid';
+  const signature = Uint8Array.from(parsed.signature.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+  // crypto.subtle.verify compares in constant time
+  if (!(await crypto.subtle.verify('HMAC', await importKey(secret), signature, signedPart(parsed.payload, ip)))) {
+    return 'invalid';
+  }
+
+  const age = Math.floor(now.getTime() / 1000) - parsed.issuedAt;
+  if (age < 0 || age > CHALLENGE_TTL_SECONDS) return 'expired';
+
+  if (!/^\d{1,12}$/.test(nonce)) return 'unsolved';
+  return hasLeadingZeroBits(await solutionHash(challenge, nonce), parsed.difficulty) ? 'valid' : 'unsolved';
+}
+
+/**
+ * Find a nonce that solves a challenge. Runs in the browser.
+ * @param {string} challenge
+ * @returns {Promise<string>}
+ */
+export async function solveChallenge(challenge) {
+  const difficulty = Number(challenge.split('.')[1]);
+  for (let nonce = 0; ; nonce++) {
+    if (hasLeadingZeroBits(await solutionHash(challenge, String(nonce)), difficulty)) return String(nonce);
+  }
+}
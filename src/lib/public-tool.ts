@@ -0,0 +1,230 @@
+/**
+ * Public tool representation shared by /api/tools and /api/tools/[slug].
+ *
+ * Only columns listed in `publicToolColumns` are ever read for the public API,
+ * so internal columns (submitter IP hash, email, rejection reason, ...) cannot
+ * leak when new columns are added to the tools table.
+ */
+
+import { asc, eq, inArray, lte, sql } from 'drizzle-orm';
+import type { Database } from '../db';
+import { tools, tags, healthChecks, toolChanges } from '../db/schema';
+import type { z } from 'astro/zod';
+import { HEALTH_TOLERANCE, resolveEffectiveStatus } from './health';
+import type { publicToolSchema } from './schemas';
+
+export const PUBLIC_API_VERSION = 1;
+export const PUBLIC_API_VERSION_HEADER = 'X-API-Version';
+
+/** Version 1 of the public tool shape; the schema lives in schemas.ts. */
+export type PublicToolV1 = z.infer<typeof publicToolSchema>;
+
+export type PublicTool = PublicToolV1;
+export type PublicToolField = keyof PublicTool;
+
+export const PUBLIC_TOOL_FIELDS: readonly PublicToolField[] = [
+  'id', 'slug', 'name', 'url', 'description', 'coreTask', 'status', 'approvedAt',
+  'isFeatured', 'archiveUrl', 'repoUrl', 'twitterUrl', 'githubUrl', 'discordUrl',
+  'githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt',
+  'updatedAt', 'tags', 'latestHealth',
+];
+
+/** Column allowlist for selecting tools destined for the public API. */
+export const publicToolColumns = {
+  id: tools.id,
+  slug: tools.slug,
+  name: tools.name,
+  url: tools.url,
+  description: tools.description,
+  coreTask: tools.coreTask,
+  status: tools.status,
+  approvedAt: tools.approvedAt,
+  isFeatured: tools.isFeatured,
+  archiveUrl: tools.archiveUrl,
+  repoUrl: tools.repoUrl,
+  twitterUrl: tools.twitterUrl,
+  githubUrl: tools.githubUrl,
+  discordUrl: tools.discordUrl,
+  githubStars: tools.githubStars,
+  githubForks: tools.githubForks,
+  githubLicense: tools.githubLicense,
+  githubLanguage: tools.githubLanguage,
+  githubUpdatedAt: tools.githubUpdatedAt,
+  updatedAt: tools.updatedAt,
+};
+
+export type PublicToolRow = Pick<typeof tools.$inferSelect, keyof typeof publicToolColumns>;
+
+/**
+ * Parse the `?fields=` projection parameter.
+ * Returns null when no projection was requested (all fields).
+ */
+export function parseFieldsParam(
+  param: string | null
+): { fields: PublicToolField[] | null } | { error: string } {
+  if (param === null || !param.trim()) return { fields: null };
+
+  const requested = [...new Set(param.split(',').map((f) => f.trim()).filter(Boolean))];
+  const unknown = requested.filter((f) => !PUBLIC_TOOL_FIELDS.includes(f as PublicToolField));
+  if (unknown.length > 0) {
+    return { error: `Unknown field(s): ${unknown.join(', ')}. Allowed: ${PUBLIC_TOOL_FIELDS.join(', ')}.` };
+  }
+  return { fields: requested as PublicToolField[] };
+}
+
+export interface PublicToolsVersion {
+  toolCount: number;
+  /** Newest `tools.updated_at` across all tools. */
+  updatedAt: Date | null;
+  /**
+   * Newest tool_changes row. Deleting a tool leaves no row to move
+   * `updatedAt` (and can move it back), but it records a change.
+   */
+  changedAt: Date | null;
+  /** Newest health check, when the response depends on health. */
+  healthCheckedAt: Date | null;
+}
+
+function fromSeconds(value: number | null | undefined): Date | null {
+  return value == null ? null : new Date(value * 1000);
+}
+
+/**
+ * Cheap fingerprint of the tool table for conditional GETs. Covers all tools
+ * (not just one query's matches) because facet counts look beyond the
+ * filtered set.
+ */
+export async function loadPublicToolsVersion(db: Database, includeHealth: boolean): Promise<PublicToolsVersion> {
+  const [[toolRow], [changeRow], healthRows] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)`, updatedAt: sql<number | null>`max(${tools.updatedAt})` })
+      .from(tools),
+    db.select({ createdAt: sql<number | null>`max(${toolChanges.createdAt})` }).from(toolChanges),
+    includeHealth
+      ? db.select({ checkedAt: sql<number | null>`max(${healthChecks.checkedAt})` }).from(healthChecks)
+      : Promise.resolve([]),
+  ]);
+  return {
+    toolCount: toolRow.count,
+    updatedAt: fromSeconds(toolRow.updatedAt),
+    changedAt: fromSeconds(changeRow?.createdAt),
+    healthCheckedAt: fromSeconds(healthRows[0]?.checkedAt),
+  };
+}
+
+/** Newest health check for one tool. */
+export async function loadToolHealthCheckedAt(db: Database, toolId: number): Promise<Date | null> {
+  const [row] = await db
+    .select({ checkedAt: sql<number | null>`max(${healthChecks.checkedAt})` })
+    .from(healthChecks)
+    .where(eq(healthChecks.toolId, toolId));
+  return fromSeconds(row?.checkedAt);
+}
+
+function toIso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * Load tags and recent health for a page of tool rows and assemble public tools.
+ * Relations that are not part of the projection are not queried.
+ */
+export async function buildPublicTools(
+  db: Database,
+  rows: PublicToolRow[],
+  fields: PublicToolField[] | null
+): Promise<Partial<PublicTool>[]> {
+  const wants = (field: PublicToolField) => !fields || fields.includes(field);
+  const toolIds = rows.map((r) => r.id);
+
+  const tagMap = new Map<number, { key: string; value: string }[]>();
+  if (wants('tags') && toolIds.length > 0) {
+    const toolTags = await db
+      .select({ toolId: tags.toolId, tagKey: tags.tagKey, tagValue: tags.tagValue })
+      .from(tags)
+      .where(inArray(tags.toolId, toolIds));
+    for (const tag of toolTags) {
+      if (!tagMap.has(tag.toolId)) tagMap.set(tag.toolId, []);
+      tagMap.get(tag.toolId)!.push({ key: tag.tagKey, value: tag.tagValue });
+    }
+  }
+
+  const healthMap = new Map<number, { isOnline: boolean; httpStatus: number | null; responseTimeMs: number | null; checkedAt: Date }[]>();
+  if (wants('latestHealth') && toolIds.length > 0) {
+    // Only the HEALTH_TOLERANCE most recent checks per tool
+    const ranked = db
+      .select({
+        toolId: healthChecks.toolId,
+        isOnline: healthChecks.isOnline,
+        httpStatus: healthChecks.httpStatus,
+        responseTimeMs: healthChecks.responseTimeMs,
+        checkedAt: healthChecks.checkedAt,
+        rank: sql<number>`row_number() OVER (PARTITION BY ${healthChecks.toolId} ORDER BY ${healthChecks.checkedAt} DESC)`.as('rank'),
+      })
+      .from(healthChecks)
+      .where(inArray(healthChecks.toolId, toolIds))
+      .as('ranked');
+    const checks = await db
+      .select({
+        toolId: ranked.toolId,
+        isOnline: ranked.isOnline,
+        httpStatus: ranked.httpStatus,
+        responseTimeMs: ranked.responseTimeMs,
+        checkedAt: ranked.checkedAt,
+      })
+      .from(ranked)
+      .where(lte(ranked.rank, HEALTH_TOLERANCE))
+      .orderBy(ranked.toolId, asc(ranked.rank));
+    for (const check of checks) {
+      const arr = healthMap.get(check.toolId) || [];
+      arr.push(check);
+      healthMap.set(check.toolId, arr);
+    }
+  }
+
+  return rows.map((row) => {
+    const recentChecks = healthMap.get(row.id) || [];
+    const latest = recentChecks[0] || null;
+    const effectiveStatus = resolveEffectiveStatus(recentChecks);
+
+    const full: PublicTool = {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      url: row.url,
+      description: row.description,
+      coreTask: row.coreTask,
+      status: row.status,
+      approvedAt: toIso(row.approvedAt),
+      isFeatured: row.isFeatured,
+      archiveUrl: row.archiveUrl,
+      repoUrl: row.repoUrl,
+      twitterUrl: row.twitterUrl,
+      githubUrl: row.githubUrl,
+      discordUrl: row.discordUrl,
+      githubStars: row.githubStars,
+      githubForks: row.githubForks,
+      githubLicense: row.githubLicense,
+      githubLanguage: row.githubLanguage,
+      githubUpdatedAt: toIso(row.githubUpdatedAt),
+      updatedAt: toIso(row.updatedAt),
+      tags: tagMap.get(row.id) || [],
+      latestHealth: latest
+        ? {
+            isOnline: latest.isOnline,
+            effectiveStatus: effectiveStatus ?? (latest.isOnline ? 'online' : 'offline'),
+            httpStatus: latest.httpStatus,
+            responseTimeMs: latest.responseTimeMs,
+            checkedAt: latest.checkedAt.toISOString(),
+          }
+        : null,
+    };
+
+    if (!fields) return full;
+    const projected: Partial<PublicTool> = {};
+    for (const field of fields) {
+      (projected as Record<string, unknown>)[field] = full[field];
+    }
+    return projected;
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Token-bucket rate limiting for /api/*, applied in middleware. Buckets live
+ * in D1 (rate_limit_buckets) and are refilled lazily: each request refills by
+ * the time elapsed since the last one and takes a token in a single upsert,
+ * so concurrent requests cannot overdraw a bucket.
+ */
+
+import { eq, sql } from 'drizzle-orm';
+import type { Database } from '../db';
+import { rateLimitBuckets } from '../db/schema';
+import type { ApiKey } from './api-keys';
+import { bucketState, refilledTokensSql, type BucketState } from './token-bucket.mjs';
+
+export const DEFAULT_ANONYMOUS_PER_MINUTE = 60;
+export const DEFAULT_API_KEY_PER_MINUTE = 600;
+const DEFAULT_MAX_SUBMISSIONS = 3;
+const DEFAULT_SUBMISSION_WINDOW_HOURS = 24;
+const DEFAULT_MAX_EDITS = 10;
+const DEFAULT_MAX_TOOL_EDITS = 5;
+
+export interface RateLimitPolicy {
+  /** Bucket identity, e.g. `api:ip:<hash>` or `api:key:12`. */
+  bucket: string;
+  /** Bucket capacity: requests allowed in a burst and per window. */
+  limit: number;
+  /** Time for an empty bucket to refill completely. */
+  windowSeconds: number;
+  /**
+   * Both take a token up front; 'success' gives it back after a non-2xx
+   * response, so rejected attempts don't use up the quota.
+   */
+  chargeOn: 'request' | 'success';
+  /** 429 message. */
+  message: string;
+}
+
+export type RateLimitResult = BucketState;
+
+type RateLimitEnv = Pick<
+  Env,
+  | 'RATE_LIMIT_MAX_SUBMISSIONS'
+  | 'RATE_LIMIT_WINDOW_HOURS'
+  | 'RATE_LIMIT_MAX_EDITS'
+  | 'RATE_LIMIT_MAX_TOOL_EDITS'
+  | 'RATE_LIMIT_API_PER_MINUTE'
+  | 'RATE_LIMIT_API_KEY_PER_MINUTE'
+>;
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+/** The window of the submission and edit suggestion quotas. */
+function quotaWindow(env: RateLimitEnv): { hours: number; label: string } {
+  const hours = positiveInt(env.RATE_LIMIT_WINDOW_HOURS, DEFAULT_SUBMISSION_WINDOW_HOURS);
+  return { hours, label: hours === 24 ? 'daily' : `${hours}-hour` };
+}
+
+/**
+ * The policy for an API request. Submissions and edit suggestions keep their
+ * own per-IP quotas; everything else is limited per key when a valid key is
+ * sent, else per IP. `clientHash` is hashRateLimitClient() of the address.
+ */
+export function resolveRateLimitPolicy(
+  env: RateLimitEnv,
+  request: Request,
+  pathname: string,
+  clientHash: string,
+  apiKey: ApiKey | null
+): RateLimitPolicy {
+  if (request.method === 'POST' && pathname === '/api/submit') {
+    const maxSubmissions = positiveInt(env.RATE_LIMIT_MAX_SUBMISSIONS, DEFAULT_MAX_SUBMISSIONS);
+    const window = quotaWindow(env);
+    return {
+      bucket: `submit:ip:${clientHash}`,
+      limit: maxSubmissions,
+      windowSeconds: window.hours * 3600,
+      chargeOn: 'success',
+      message: `You have reached the ${window.label} submission limit (${maxSubmissions} per ${window.hours}h). Please try again later.`,
+    };
+  }
+
+  if (request.method === 'POST' && pathname === '/api/edit') {
+    const maxEdits = positiveInt(env.RATE_LIMIT_MAX_EDITS, DEFAULT_MAX_EDITS);
+    const window = quotaWindow(env);
+    return {
+      bucket: `edit:ip:${clientHash}`,
+      limit: maxEdits,
+      windowSeconds: window.hours * 3600,
+      chargeOn: 'success',
+      message: `You have reached the ${window.label} edit suggestion limit (${maxEdits} per ${window.hours}h). Please try again later.`,
+    };
+  }
+
+  if (apiKey) {
+    return {
+      bucket: `api:key:${apiKey.id}`,
+      limit: apiKey.rateLimitPerMinute ?? positiveInt(env.RATE_LIMIT_API_KEY_PER_MINUTE, DEFAULT_API_KEY_PER_MINUTE),
+      windowSeconds: 60,
+      chargeOn: 'request',
+      message: 'Rate limit exceeded for this API key. Please slow down.',
+    };
+  }
+
+  return {
+    bucket: `api:ip:${clientHash}`,
+    limit: positiveInt(env.RATE_LIMIT_API_PER_MINUTE, DEFAULT_ANONYMOUS_PER_MINUTE),
+    windowSeconds: 60,
+    chargeOn: 'request',
+    message: 'Rate limit exceeded. Use an API key for higher limits, or please slow down.',
+  };
+}
+
+/**
+ * The per-tool quota of edit suggestions, so that one tool cannot flood the
+ * review queue. POST /api/edit takes a token once a suggestion is accepted.
+ */
+export function resolveToolEditPolicy(env: RateLimitEnv, toolId: number): RateLimitPolicy {
+  const maxToolEdits = positiveInt(env.RATE_LIMIT_MAX_TOOL_EDITS, DEFAULT_MAX_TOOL_EDITS);
+  const window = quotaWindow(env);
+  return {
+    bucket: `edit:tool:${toolId}`,
+    limit: maxToolEdits,
+    windowSeconds: window.hours * 3600,
+    chargeOn: 'request',
+    message: `This tool has reached its ${window.label} edit suggestion limit (${maxToolEdits} per ${window.hours}h). Please try again later.`,
+  };
+}
+
+/** Take one token from the bucket if there is one. */
+export async function consumeToken(db: Database, policy: RateLimitPolicy, now = Date.now()): Promise<RateLimitResult> {
+  const refilled = refilledTokensSql(
+    sql,
+    { tokens: rateLimitBuckets.tokens, updatedAt: rateLimitBuckets.updatedAt, now: sql`excluded.updated_at` },
+    policy
+  );
+
+  // SET expressions all see the old row, so `refilled` is the same in each
+  const [row] = await db
+    .insert(rateLimitBuckets)
+    .values({ bucketKey: policy.bucket, tokens: policy.limit - 1, allowed: true, updatedAt: now })
+    .onConflictDoUpdate({
+      target: rateLimitBuckets.bucketKey,
+      set: {
+        tokens: sql`${refilled} - (CASE WHEN ${refilled} >= 1 THEN 1 ELSE 0 END)`,
+        allowed: sql`${refilled} >= 1`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    })
+    .returning({ tokens: rateLimitBuckets.tokens, allowed: rateLimitBuckets.allowed });
+
+  return bucketState(policy, row.tokens, row.allowed, now);
+}
+
+/**
+ * Give back a token taken by consumeToken(), for a request that turned out not
+ * to count. Never fills the bucket past its capacity.
+ */
+export async function refundToken(db: Database, policy: RateLimitPolicy): Promise<void> {
+  await db
+    .update(rateLimitBuckets)
+    .set({ tokens: sql`MIN(${policy.limit}, ${rateLimitBuckets.tokens} + 1)` })
+    .where(eq(rateLimitBuckets.bucketKey, policy.bucket));
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetAt),
+  };
+  if (!result.allowed) headers['Retry-After'] = String(result.retryAfter);
+  return headers;
+}
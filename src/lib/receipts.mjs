@@ -0,0 +1,99 @@
+// Submission receipts: a private link that lets a submitter follow their
+// submission (/submit/status/<token>) without an account. The token is
+// `<toolId>.<issuedAt>.<signature>`, with the issue time in base36 seconds
+// and an HMAC-SHA256 signature of both under RECEIPT_SECRET, so it cannot be
+// guessed from the tool id and nothing has to be stored.
+//
+// The same secret signs the unsubscribe links in submitter emails.
+
+const encoder = new TextEncoder();
+
+/** @param {string} secret */
+function importKey(secret) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/** @param {ArrayBuffer} buffer */
+function toBase64Url(buffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * @param {string} value
+ * @returns {Uint8Array | null}
+ */
+function fromBase64Url(value) {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/** @param {number} toolId @param {string} issued */
+function signedPart(toolId, issued) {
+  return encoder.encode(`receipt.${toolId}.${issued}`);
+}
+
+/**
+ * Issue a receipt token for a submitted tool.
+ * @param {string} secret
+ * @param {number} toolId
+ * @param {Date} [issuedAt]
+ * @returns {Promise<string>}
+ */
+export async function createReceiptToken(secret, toolId, issuedAt = new Date()) {
+  const issued = Math.floor(issuedAt.getTime() / 1000).toString(36);
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), signedPart(toolId, issued));
+  return `${toolId}.${issued}.${toBase64Url(signature)}`;
+}
+
+/**
+ * The tool a receipt token was issued for, or null if the token is malformed
+ * or was not signed with `secret`.
+ * @param {string} secret
+ * @param {string} token
+ * @returns {Promise<{ toolId: number, issuedAt: Date } | null>}
+ */
+export async function verifyReceiptToken(secret, token) {
+  const match = /^([1-9]\d{0,15})\.([0-9a-z]{1,10})\.([A-Za-z0-9_-]{43})$/.exec(token);
+  if (!match) return null;
+  const [, id, issued, encodedSignature] = match;
+  const signature = fromBase64Url(encodedSignature);
+  if (!signature) return null;
+
+  const toolId = Number(id);
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify('HMAC', await importKey(secret), signature, signedPart(toolId, issued));
+  return valid ? { toolId, issuedAt: new Date(parseInt(issued, 36) * 1000) } : null;
+}
+
+/**
+ * Unsubscribe token for an email address: an HMAC of the normalized address,
+ * so the same address always gets the same token and suppressions can be
+ * stored without keeping the address itself.
+ * @param {string} secret
+ * @param {string} email
+ * @returns {Promise<string>}
+ */
+export async function createUnsubscribeToken(secret, email) {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importKey(secret),
+    encoder.encode(`unsubscribe.${email.trim().toLowerCase()}`)
+  );
+  return toBase64Url(signature);
+}
+
+/**
+ * Whether a value has the shape of an unsubscribe token. Tokens cannot be
+ * verified without the address, so this only screens out junk.
+ * @param {string} value
+ */
+export function isUnsubscribeToken(value) {
+  return /^[A-Za-z0-9_-]{43}$/.test(value);
+}
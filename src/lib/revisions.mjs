@@ -0,0 +1,119 @@
+// Tool revisions: a snapshot of a tool's content after every change, kept in
+// tool_revisions for its public history and for admin reverts. API routes
+// record them through tool-revisions.ts; the D1 scripts (SEO push, tool
+// discovery) use recordRevisionWith() below with their own query function.
+
+/**
+ * @typedef {{ key: string, value: string }} Tag
+ * @typedef {(typeof REVISION_SOURCES)[number]} RevisionSource
+ * @typedef {(typeof REVISION_FIELDS)[number]} RevisionField
+ * @typedef {Record<Exclude<RevisionField, 'tags'>, string | null> & { tags: Tag[] }} Snapshot
+ * @typedef {(sql: string, params?: unknown[]) => Promise<Record<string, any>[]>} Query
+ */
+
+/**
+ * What made a change. `baseline` is the state of tools that existed before
+ * revisions were recorded; `revert` restores an earlier revision.
+ */
+export const REVISION_SOURCES = /** @type {const} */ (['baseline', 'submit', 'edit', 'admin', 'seo', 'discovery', 'revert']);
+
+/** Snapshotted fields, with their tools column. Tags come from the tags table. */
+export const REVISION_COLUMNS = /** @type {const} */ ({
+  name: 'name',
+  url: 'url',
+  description: 'description',
+  coreTask: 'core_task',
+  repoUrl: 'repo_url',
+  twitterUrl: 'twitter_url',
+  githubUrl: 'github_url',
+  discordUrl: 'discord_url',
+  seoTitle: 'seo_title',
+  seoDescription: 'seo_description',
+  seoFocusKeyword: 'seo_focus_keyword',
+  seoIntent: 'seo_intent',
+  seoTaskPhrase: 'seo_task_phrase',
+});
+
+export const REVISION_FIELDS = /** @type {const} */ ([
+  .../** @type {(keyof typeof REVISION_COLUMNS)[]} */ (Object.keys(REVISION_COLUMNS)),
+  'tags',
+]);
+
+/** @param {Tag} tag */
+const tagId = (tag) => `${tag.key}:${tag.value}`;
+
+/**
+ * A snapshot of a tool's fields (camelCase, as Drizzle returns them) and
+ * tags. Tags are sorted so equal sets serialize the same.
+ * @param {Partial<Record<keyof typeof REVISION_COLUMNS, string | null>>} tool
+ * @param {Tag[]} tags
+ * @returns {Snapshot}
+ */
+export function buildSnapshot(tool, tags) {
+  const snapshot = /** @type {Snapshot} */ ({});
+  for (const field of /** @type {(keyof typeof REVISION_COLUMNS)[]} */ (Object.keys(REVISION_COLUMNS))) {
+    snapshot[field] = tool[field] || null;
+  }
+  snapshot.tags = tags.map((tag) => ({ key: tag.key, value: tag.value })).sort((a, b) => tagId(a).localeCompare(tagId(b)));
+  return snapshot;
+}
+
+/**
+ * Fields that differ between two snapshots, in REVISION_FIELDS order.
+ * @param {Snapshot} before
+ * @param {Snapshot} after
+ * @returns {RevisionField[]}
+ */
+export function diffSnapshots(before, after) {
+  return REVISION_FIELDS.filter((field) => {
+    if (field === 'tags') {
+      const ids = (/** @type {Tag[]} */ tags) => (tags ?? []).map(tagId).sort().join('|');
+      return ids(before.tags) !== ids(after.tags);
+    }
+    return (before[field] ?? null) !== (after[field] ?? null);
+  });
+}
+
+/** Revisions shown in a tool page's History section. */
+export const HISTORY_LIMIT = 20;
+
+/**
+ * Changed fields as the public history names them: the SEO fields count as
+ * one, `seo`.
+ * @param {RevisionField[]} fields
+ * @returns {string[]}
+ */
+export function historyFields(fields) {
+  return [...new Set(fields.map((field) => (field.startsWith('seo') ? 'seo' : field)))];
+}
+
+/**
+ * Record the tool's current state as a revision through raw SQL, unless it
+ * matches the latest revision. Returns whether one was recorded.
+ * @param {Query} query
+ * @param {number} toolId
+ * @param {RevisionSource} source
+ * @returns {Promise<boolean>}
+ */
+export async function recordRevisionWith(query, toolId, source) {
+  const [tool] = await query(`SELECT ${Object.values(REVISION_COLUMNS).join(', ')} FROM tools WHERE id = ?`, [toolId]);
+  if (!tool) return false;
+  const tags = await query('SELECT tag_key, tag_value FROM tags WHERE tool_id = ?', [toolId]);
+  const snapshot = buildSnapshot(
+    Object.fromEntries(Object.entries(REVISION_COLUMNS).map(([field, column]) => [field, tool[column]])),
+    tags.map((tag) => ({ key: tag.tag_key, value: tag.tag_value }))
+  );
+
+  const [previous] = await query('SELECT snapshot FROM tool_revisions WHERE tool_id = ? ORDER BY id DESC LIMIT 1', [toolId]);
+  const changedFields = previous ? diffSnapshots(JSON.parse(previous.snapshot), snapshot) : null;
+  if (changedFields && changedFields.length === 0) return false;
+
+  await query('INSERT INTO tool_revisions (tool_id, source, snapshot, changed_fields, created_at) VALUES (?, ?, ?, ?, ?)', [
+    toolId,
+    source,
+    JSON.stringify(snapshot),
+    changedFields && JSON.stringify(changedFields),
+    Math.floor(Date.now() / 1000),
+  ]);
+  return true;
+}
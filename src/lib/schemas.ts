@@ -0,0 +1,535 @@
+/**
+ * Request and response schemas for the JSON API. Routes validate request
+ * bodies with validateBody(); the same schemas generate /api/openapi.json
+ * (see openapi.ts), so a field added here is documented and checked at once.
+ *
+ * Tool fields come from tool-input.ts. Their messages are i18n keys, which
+ * validateBody() translates; admin-only messages are plain English.
+ */
+
+import { z } from 'astro/zod';
+import { DEFAULT_LOCALE, LOCALES, type Locale } from '../i18n/config';
+import { t } from '../i18n/utils';
+import { TAG_DEFINITIONS } from './tags';
+import { SEO_INTENTS, includesNoLoginIntent } from './tool-seo.mjs';
+import { toolFields, toolTagSchema, isEditableField, parseEditValue, type EditableField } from './tool-input';
+import { DUPLICATE_REASONS } from './duplicates.mjs';
+import { WEBHOOK_EVENTS } from './webhooks';
+import { MAX_API_KEY_RATE_LIMIT } from './api-keys';
+import { TOOL_CHANGE_TYPES } from './changes';
+import { SPAM_ACTIONS } from './anti-spam.mjs';
+import { MAX_IMPORT_ROWS } from './bulk-import.mjs';
+import { isValidEditReason } from './edit-changes.mjs';
+import { collectValidationErrors } from './validation-errors.mjs';
+
+/**
+ * Parse a request body. Errors are keyed by top-level field (what the forms
+ * map onto inputs) with the first problem per field, translated for
+ * `locale`; `message` is the first of them, for callers that show a single
+ * line. Load the locale's translations before calling.
+ */
+export function validateBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown,
+  locale: Locale = DEFAULT_LOCALE
+): { data: z.output<T> } | { errors: Record<string, string>; message: string } {
+  const result = schema.safeParse(body);
+  if (result.success) return { data: result.data };
+  return collectValidationErrors(result.error.issues, (key, params) => t(locale, key, params));
+}
+
+function id(message: string) {
+  return z.number({ required_error: message, invalid_type_error: message }).int(message).positive(message);
+}
+
+const TOOL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+const CATEGORY_VALUES = TAG_DEFINITIONS.find((d) => d.key === 'category')?.values ?? [];
+
+/** UI language for translated error messages. */
+const localeField = z.enum(LOCALES).optional().describe('Language of error messages and of the review decision email.');
+
+// --- Public submissions ---
+
+export const submitToolRequestSchema = z.object({
+  name: toolFields.name,
+  url: toolFields.url,
+  description: toolFields.description,
+  pledge: z.literal(true, { errorMap: () => ({ message: 'validation.pledge' }) }),
+  coreTask: toolFields.coreTask,
+  submitterEmail: toolFields.submitterEmail,
+  repoUrl: toolFields.repoUrl,
+  twitterUrl: toolFields.twitterUrl,
+  githubUrl: toolFields.githubUrl,
+  discordUrl: toolFields.discordUrl,
+  tags: toolFields.tags.default([]),
+  locale: localeField,
+  confirmNotDuplicate: z.boolean().optional().describe('Submit even though possible duplicates were reported.'),
+  // Named by HONEYPOT_FIELD in anti-spam.mjs
+  website: z.string().optional().describe('Leave empty: a trap for form-filling bots.'),
+  challenge: z.string().optional().describe('From GET /api/submit/challenge. Not needed with an API key.'),
+  challengeNonce: z.string().optional().describe('Solution to `challenge`.'),
+});
+
+export const resubmitToolRequestSchema = submitToolRequestSchema
+  .omit({ confirmNotDuplicate: true, website: true, challenge: true, challengeNonce: true })
+  .extend({
+    toolId: id('validation.toolId'),
+  });
+
+const editValueField = z
+  .string({ required_error: 'validation.editRequired', invalid_type_error: 'validation.newValue' })
+  .max(2000, 'validation.newValue');
+
+export const editSuggestionRequestSchema = z
+  .object({
+    toolId: id('validation.editRequired'),
+    fieldName: z
+      .string({ required_error: 'validation.editRequired', invalid_type_error: 'validation.editRequired' })
+      .refine(isEditableField, (value) => ({ message: 'validation.editField', params: { field: value } }))
+      .optional(),
+    newValue: editValueField
+      .min(1, 'validation.editRequired')
+      .optional()
+      .describe('For `tags`, a JSON array of {key, value} objects.'),
+    changes: z
+      .record(editValueField)
+      .optional()
+      .describe('Several fields at once: new values by field name, reviewed together. Replaces fieldName and newValue; a blank link clears it.'),
+    reason: z
+      .string({ invalid_type_error: 'validation.editReason' })
+      .trim()
+      .refine(isValidEditReason, 'validation.editReason')
+      .nullish(),
+    submitterEmail: toolFields.submitterEmail,
+    locale: localeField,
+  })
+  .transform(({ fieldName, newValue, changes, ...body }, ctx) => {
+    const path = changes ? 'changes' : 'newValue';
+    const entries = Object.entries(changes ?? (fieldName && newValue !== undefined ? { [fieldName]: newValue } : {}));
+    if (entries.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: 'validation.editRequired' });
+      return z.NEVER;
+    }
+
+    const parsedChanges: { fieldName: EditableField; newValue: string }[] = [];
+    for (const [field, value] of entries) {
+      if (!isEditableField(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: 'validation.editField', params: { field } });
+        return z.NEVER;
+      }
+      // Validated and normalized with the same rules as the field itself
+      const parsed = parseEditValue(field, value);
+      if ('error' in parsed) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: parsed.error });
+        return z.NEVER;
+      }
+      parsedChanges.push({ fieldName: field, newValue: parsed.value });
+    }
+    return { ...body, changes: parsedChanges };
+  });
+
+// --- Admin ---
+
+const adminRequestSchema = z.object({
+  secret: z.string().describe('ADMIN_SECRET.'),
+});
+
+const toolIdField = id('toolId is required.');
+const editIdField = id('editId is required.');
+
+export const reviewRequestSchema = z.discriminatedUnion(
+  'action',
+  [
+    adminRequestSchema.extend({ action: z.literal('approve'), toolId: toolIdField }),
+    adminRequestSchema.extend({ action: z.literal('reject'), toolId: toolIdField, reason: z.string().nullish() }),
+    adminRequestSchema.extend({
+      action: z.literal('approve_edit'),
+      editId: editIdField,
+      values: z
+        .record(editValueField)
+        .optional()
+        .describe('Values to apply instead of the suggested ones, by field name; required for fields changed since the suggestion was made.'),
+    }),
+    adminRequestSchema.extend({ action: z.literal('reject_edit'), editId: editIdField }),
+    adminRequestSchema.extend({ action: z.literal('block_edit'), editId: editIdField }),
+  ],
+  { errorMap: () => ({ message: 'Invalid action.' }) }
+);
+
+export const adminSecretRequestSchema = adminRequestSchema;
+
+export const adminToolRequestSchema = adminRequestSchema.extend({ toolId: toolIdField });
+
+export const toolFeatureRequestSchema = adminToolRequestSchema.extend({
+  featured: z.boolean({ required_error: 'featured must be a boolean.', invalid_type_error: 'featured must be a boolean.' }),
+});
+
+export const githubNotifyRequestSchema = adminToolRequestSchema.extend({
+  force: z.boolean().optional().describe('Send again even if an issue was already created.'),
+});
+
+export const adminToolsListRequestSchema = adminRequestSchema.extend({
+  status: z.enum(['all', ...TOOL_STATUSES]).optional(),
+  search: z.string().optional(),
+  page: z.number().int().positive().optional(),
+  featured: z.boolean().optional(),
+});
+
+const seoFields = {
+  seoTitle: z.string().trim().min(1, 'SEO title is required and must be max 80 characters.').max(80, 'SEO title is required and must be max 80 characters.').optional(),
+  seoDescription: z.string().trim().min(1, 'SEO description is required and must be max 180 characters.').max(180, 'SEO description is required and must be max 180 characters.').optional(),
+  seoFocusKeyword: z.string().trim().min(1, 'SEO focus keyword is required and must be max 120 characters.').max(120, 'SEO focus keyword is required and must be max 120 characters.').optional(),
+  seoIntent: z.string().trim().refine((value) => SEO_INTENTS.includes(value), `SEO intent must be one of: ${SEO_INTENTS.join(', ')}.`).optional(),
+  seoTaskPhrase: z
+    .string()
+    .trim()
+    .refine(
+      (value) => value.length > 0 && value.length <= 120 && includesNoLoginIntent(value),
+      'SEO task phrase must be max 120 characters and explicitly mention the no-login angle.'
+    )
+    .optional(),
+};
+
+/** Partial update: only fields present in the body are changed. */
+export const toolUpdateRequestSchema = adminToolRequestSchema.extend({
+  name: toolFields.name.optional(),
+  url: toolFields.url.optional(),
+  description: toolFields.description.optional(),
+  coreTask: toolFields.coreTask.optional(),
+  ...seoFields,
+  repoUrl: toolFields.repoUrl.optional(),
+  twitterUrl: toolFields.twitterUrl.optional(),
+  githubUrl: toolFields.githubUrl.optional(),
+  discordUrl: toolFields.discordUrl.optional(),
+  tags: toolFields.tags.optional().describe('Replaces all tags. The source tag is derived from repoUrl.'),
+  refreshGithub: z.boolean().optional().describe('Re-fetch GitHub repository data.'),
+});
+
+export const toolRevertRequestSchema = adminToolRequestSchema.extend({
+  revisionId: id('revisionId is required.').describe('A revision of the tool, from /api/admin/tool-revisions.'),
+});
+
+export const bulkImportRequestSchema = adminRequestSchema.extend({
+  input: z
+    .string({ required_error: 'Nothing to import.', invalid_type_error: 'input must be a string.' })
+    .describe(`CSV or JSON text, at most ${MAX_IMPORT_ROWS} tools. See bulk-import.mjs for the format.`),
+  approve: z.boolean().optional().describe('Import as approved instead of pending.'),
+  dryRun: z.boolean().optional().describe('Validate and check for duplicates without importing.'),
+  allowPossibleDuplicates: z.boolean().optional().describe('Import rows on the same site as, or with a name like, an existing tool.'),
+});
+
+/**
+ * One tool of a bulk import, in the shape of .github/auto-tools/*.json. Tags
+ * are checked strictly by findTagErrors() in bulk-import.mjs.
+ */
+export const importToolRowSchema = z.object({
+  name: toolFields.name,
+  url: toolFields.url,
+  description: toolFields.description,
+  coreTask: toolFields.coreTask,
+  repoUrl: toolFields.repoUrl,
+  twitterUrl: toolFields.twitterUrl,
+  githubUrl: toolFields.githubUrl,
+  discordUrl: toolFields.discordUrl,
+  tags: z.array(toolTagSchema, { required_error: 'validation.tags', invalid_type_error: 'validation.tags' }),
+  ...seoFields,
+});
+
+const webhookInputShape = {
+  url: z
+    .string({ required_error: 'A valid URL is required.', invalid_type_error: 'A valid URL is required.' })
+    .trim()
+    .superRefine((value, ctx) => {
+      let protocol: string;
+      try {
+        protocol = new URL(value).protocol;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A valid URL is required.' });
+        return;
+      }
+      if (protocol !== 'https:' && protocol !== 'http:') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'URL must use http or https.' });
+      }
+    }),
+  events: z
+    .array(
+      z.enum(WEBHOOK_EVENTS, { errorMap: (_issue, ctx) => ({ message: `Unknown event: ${String(ctx.data)}.` }) }),
+      { required_error: 'Select at least one event.', invalid_type_error: 'Select at least one event.' }
+    )
+    .min(1, 'Select at least one event.')
+    .transform((events) => [...new Set(events)]),
+  categories: z
+    .array(z.string().refine((value) => CATEGORY_VALUES.includes(value), (value) => ({ message: `Unknown category: ${value}.` })))
+    .nullish()
+    .transform((categories) => (categories?.length ? [...new Set(categories)] : null))
+    .describe('Only send events for tools in these categories. Empty or null means all.'),
+  description: z
+    .string()
+    .nullish()
+    .transform((value) => (value?.trim() ? value.trim().slice(0, 200) : null)),
+};
+
+const webhookIdField = id('webhookId is required.');
+
+export const webhooksRequestSchema = z.discriminatedUnion(
+  'action',
+  [
+    adminRequestSchema.extend({ action: z.literal('list') }),
+    adminRequestSchema.extend({ action: z.literal('create'), ...webhookInputShape }),
+    adminRequestSchema.extend({ action: z.literal('update'), webhookId: webhookIdField, ...webhookInputShape }),
+    adminRequestSchema.extend({
+      action: z.literal('toggle'),
+      webhookId: webhookIdField,
+      active: z.boolean({ required_error: 'active must be a boolean.', invalid_type_error: 'active must be a boolean.' }),
+    }),
+    adminRequestSchema.extend({ action: z.literal('delete'), webhookId: webhookIdField }),
+    adminRequestSchema.extend({ action: z.literal('test'), webhookId: webhookIdField }),
+    adminRequestSchema.extend({
+      action: z.literal('redeliver'),
+      webhookId: webhookIdField,
+      deliveryId: id('deliveryId is required.'),
+    }),
+  ],
+  { errorMap: () => ({ message: 'Invalid action.' }) }
+);
+
+const rateLimitMessage = `Rate limit must be a whole number between 1 and ${MAX_API_KEY_RATE_LIMIT}.`;
+
+export const apiKeysRequestSchema = z.discriminatedUnion(
+  'action',
+  [
+    adminRequestSchema.extend({ action: z.literal('list') }),
+    adminRequestSchema.extend({
+      action: z.literal('create'),
+      name: z
+        .string({ required_error: 'Name must be between 2 and 100 characters.', invalid_type_error: 'Name must be between 2 and 100 characters.' })
+        .trim()
+        .min(2, 'Name must be between 2 and 100 characters.')
+        .max(100, 'Name must be between 2 and 100 characters.'),
+      // Form fields arrive as strings; blank means the default limit
+      rateLimitPerMinute: z.preprocess(
+        (value) => (value === undefined || value === null || value === '' ? null : Number(value)),
+        z
+          .number({ invalid_type_error: rateLimitMessage })
+          .int(rateLimitMessage)
+          .min(1, rateLimitMessage)
+          .max(MAX_API_KEY_RATE_LIMIT, rateLimitMessage)
+          .nullable()
+      ),
+    }),
+    adminRequestSchema.extend({ action: z.literal('revoke'), keyId: id('keyId is required.') }),
+  ],
+  { errorMap: () => ({ message: 'Invalid action.' }) }
+);
+
+const spamActionField = z.enum(SPAM_ACTIONS, { errorMap: () => ({ message: `Action must be one of: ${SPAM_ACTIONS.join(', ')}.` }) });
+
+export const antiSpamRequestSchema = z.discriminatedUnion(
+  'action',
+  [
+    adminRequestSchema.extend({ action: z.literal('get') }),
+    adminRequestSchema.extend({
+      action: z.literal('update'),
+      settings: z
+        .object(
+          { honeypot: spamActionField, challenge: spamActionField, blocklist: spamActionField, reachability: spamActionField },
+          { required_error: 'settings is required.', invalid_type_error: 'settings must be an object.' }
+        )
+        .describe('What a failed check does: off (not run), flag (marked for review) or block (refused).'),
+    }),
+  ],
+  { errorMap: () => ({ message: 'Invalid action.' }) }
+);
+
+// --- Responses ---
+
+export const apiErrorSchema = z.object({
+  ok: z.literal(false),
+  error: z.string(),
+  details: z.record(z.string()).optional().describe('Per-field messages, keyed by request field.'),
+});
+
+export const possibleDuplicateSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  url: z.string(),
+  status: z.enum(TOOL_STATUSES),
+  reasons: z.array(z.enum(DUPLICATE_REASONS)).describe('url: same address; site: same website; name: similar name.'),
+});
+
+export const possibleDuplicatesErrorSchema = apiErrorSchema.extend({
+  possibleDuplicates: z.array(possibleDuplicateSchema).optional(),
+});
+
+export function apiSuccessSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({ ok: z.literal(true), data });
+}
+
+export const publicToolSchema = z
+  .object({
+    id: z.number().int(),
+    slug: z.string(),
+    name: z.string(),
+    url: z.string(),
+    description: z.string().nullable(),
+    coreTask: z.string(),
+    status: z.enum(TOOL_STATUSES),
+    approvedAt: z.string().nullable(),
+    isFeatured: z.boolean(),
+    archiveUrl: z.string().nullable(),
+    repoUrl: z.string().nullable(),
+    twitterUrl: z.string().nullable(),
+    githubUrl: z.string().nullable(),
+    discordUrl: z.string().nullable(),
+    githubStars: z.number().int().nullable(),
+    githubForks: z.number().int().nullable(),
+    githubLicense: z.string().nullable(),
+    githubLanguage: z.string().nullable(),
+    githubUpdatedAt: z.string().nullable(),
+    updatedAt: z.string().nullable(),
+    tags: z.array(toolTagSchema),
+    latestHealth: z
+      .object({
+        isOnline: z.boolean(),
+        effectiveStatus: z.enum(['online', 'unstable', 'offline']),
+        httpStatus: z.number().int().nullable(),
+        responseTimeMs: z.number().int().nullable(),
+        checkedAt: z.string(),
+      })
+      .nullable(),
+  })
+  .describe('With `?fields=`, only the requested properties are present.');
+
+export const toolsListResponseSchema = apiSuccessSchema(
+  z.object({
+    tools: z.array(publicToolSchema),
+    facets: z.record(z.record(z.number().int())).describe('Counts per tag key and value, ignoring that key\'s own filter.'),
+    search: z
+      .object({
+        query: z.string(),
+        locale: z.string(),
+        highlights: z.record(z.string()).describe('Highlighted snippet per tool slug.'),
+      })
+      .optional(),
+    pagination: z.object({
+      page: z.number().int().nullable().describe('Null when paging by cursor.'),
+      perPage: z.number().int(),
+      total: z.number().int(),
+      totalPages: z.number().int(),
+      nextCursor: z.string().nullable(),
+    }),
+  })
+);
+
+export const toolDetailResponseSchema = apiSuccessSchema(publicToolSchema);
+
+export const toolChangeSchema = z.object({
+  id: z.number().int(),
+  type: z.enum(TOOL_CHANGE_TYPES),
+  toolId: z.number().int(),
+  slug: z.string(),
+  status: z.enum(TOOL_STATUSES).nullable(),
+  previousStatus: z.enum(TOOL_STATUSES).nullable(),
+  changedFields: z.array(z.string()),
+  occurredAt: z.string(),
+});
+
+export const changesResponseSchema = apiSuccessSchema(
+  z.object({
+    changes: z.array(toolChangeSchema),
+    nextCursor: z.string().nullable().describe('Pass as `cursor` on the next poll.'),
+    hasMore: z.boolean(),
+  })
+);
+
+export const submissionResponseSchema = apiSuccessSchema(
+  z.object({
+    slug: z.string(),
+    receipt: z
+      .string()
+      .nullable()
+      .describe('Private receipt token: /submit/status/{receipt} shows the review status. Null when receipts are not configured.'),
+  })
+);
+
+export const challengeResponseSchema = apiSuccessSchema(
+  z.object({
+    challenge: z.string().nullable().describe('Null when challenges are not configured; submit without one.'),
+    difficulty: z.number().int().describe('Leading zero bits of SHA-256(`{challenge}:{nonce}`) a solution needs.'),
+    expiresInSeconds: z.number().int(),
+  })
+);
+
+export const submitLookupResponseSchema = apiSuccessSchema(
+  z.object({
+    url: z.string().describe('The URL as it would be stored, before redirects are followed.'),
+    slug: z.string(),
+    existing: possibleDuplicateSchema.nullable().describe('The tool with this URL; submitting it again is refused.'),
+    possibleDuplicates: z.array(possibleDuplicateSchema).describe('Tools on the same site or with a similar name.'),
+  })
+);
+
+export const repoPreviewResponseSchema = apiSuccessSchema(
+  z.object({
+    owner: z.string(),
+    repo: z.string(),
+    stars: z.number().int(),
+    forks: z.number().int(),
+    license: z.string().nullable().describe('SPDX identifier.'),
+    language: z.string().nullable(),
+    updatedAt: z.string(),
+  })
+);
+
+export const pageMetadataResponseSchema = apiSuccessSchema(
+  z.object({
+    url: z.string().describe('The page URL after redirects.'),
+    name: z.string().nullable(),
+    title: z.string().nullable(),
+    description: z.string().nullable().describe('Shortened to the submission limit.'),
+    image: z.string().nullable().describe('OpenGraph or Twitter card image.'),
+    favicon: z.string().nullable(),
+    manifestUrl: z.string().nullable(),
+    repoUrl: z.string().nullable().describe('GitHub repository from <link rel="repo"> or the first repository link.'),
+    twitterUrl: z.string().nullable(),
+    githubUrl: z.string().nullable(),
+    discordUrl: z.string().nullable(),
+    manifest: z
+      .object({
+        name: z.string().nullable(),
+        description: z.string().nullable(),
+        display: z.string(),
+        installable: z.boolean(),
+      })
+      .nullable(),
+    suggestedTags: z.array(z.object({ key: z.string(), value: z.string() })).describe('PWA for an installable web app.'),
+  })
+);
+
+export const messageResponseSchema = apiSuccessSchema(z.object({ message: z.string() }));
+
+export const reviewResponseSchema = apiSuccessSchema(
+  z.union([
+    z.object({ toolId: z.number().int(), status: z.enum(['approved', 'rejected']) }),
+    z.object({
+      editId: z.number().int(),
+      editIds: z.array(z.number().int()).describe('Every suggestion of the changeset, reviewed together.'),
+      status: z.enum(['approved', 'rejected']),
+      supersededIds: z
+        .array(z.number().int())
+        .optional()
+        .describe('Other pending suggestions for the tool whose values it now has, closed as superseded.'),
+      rejectedIds: z
+        .array(z.number().int())
+        .optional()
+        .describe('block_edit: every pending suggestion from the blocked source, this one included.'),
+      blockedUntil: z
+        .string()
+        .optional()
+        .describe('block_edit: when the block expires and the source can suggest edits again.'),
+    }),
+  ])
+);
+
+/** Admin responses not worth describing field by field. */
+export const adminResponseSchema = apiSuccessSchema(z.record(z.unknown()));
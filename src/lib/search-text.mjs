@@ -0,0 +1,68 @@
+// Text helpers for the tools_fts full-text index, shared by the API and
+// scripts/sync-search-index.mjs.
+//
+// FTS5's unicode61 tokenizer splits on whitespace and punctuation only, so a
+// run of Chinese or Japanese text would become a single token. Han and kana
+// characters are therefore indexed one per token and searched as phrases.
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const CJK_CHAR_GLOBAL = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])/gu;
+// CJK characters plus CJK and full-width punctuation, for undoing segmentation
+const CJK_TEXT = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\u3000-\\u303f\\uff00-\\uffef]';
+const SNIPPET_GAP = new RegExp(`(${CJK_TEXT}[\\u0002\\u0003]*) +(?=[\\u0002\\u0003]*${CJK_TEXT})`, 'gu');
+
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+export const MAX_QUERY_TERMS = 8;
+
+/**
+ * Put every Han/kana character in its own token.
+ * @param {string | null | undefined} text
+ * @returns {string}
+ */
+export function segmentText(text) {
+  if (!text) return '';
+  return text.replace(CJK_CHAR_GLOBAL, ' $1 ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Turn user input into an FTS5 MATCH expression. Every term must match
+ * (implicit AND); Latin terms match as prefixes, CJK terms as a phrase of
+ * segmented characters or as a prefix of unsegmented text.
+ * Returns '' when the input has nothing searchable.
+ * @param {string} input
+ * @returns {string}
+ */
+export function buildFtsQuery(input) {
+  const terms = (input || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TERMS);
+
+  return terms
+    .map((term) => {
+      if (!CJK_CHAR.test(term)) return `"${term}"*`;
+      return `("${segmentText(term)}" OR "${term}"*)`;
+    })
+    .join(' ');
+}
+
+/**
+ * Convert a raw FTS5 snippet (marked with SNIPPET_OPEN / SNIPPET_CLOSE) into
+ * HTML: escape it, undo CJK segmentation and wrap matches in <mark>.
+ * @param {string | null | undefined} raw
+ * @returns {string}
+ */
+export function formatSnippet(raw) {
+  if (!raw) return '';
+  return raw
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(SNIPPET_GAP, '$1')
+    .replaceAll(SNIPPET_OPEN, '<mark>')
+    .replaceAll(SNIPPET_CLOSE, '</mark>');
+}
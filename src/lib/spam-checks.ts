@@ -0,0 +1,207 @@
+/**
+ * Submission anti-spam pipeline. submit.ts runs the checks enabled in the
+ * `anti-spam` setting before inserting a tool and records the outcome in
+ * submission_checks, blocked or not; the admin Tools tab shows it on the
+ * pending tool and the Spam tab adjusts the settings. The rules live in
+ * anti-spam.mjs, the challenge in proof-of-work.mjs.
+ */
+
+import { desc, eq, inArray } from 'drizzle-orm';
+import type { Database } from '../db';
+import { settings, submissionChecks } from '../db/schema';
+import { checkHealth, type HealthCheckResult } from './health';
+import { verifyChallenge } from './proof-of-work.mjs';
+import {
+  decideSpamOutcome,
+  findBlockedHostname,
+  parseSpamSettings,
+  type SpamCheckResult,
+  type SpamSettings,
+} from './anti-spam.mjs';
+import discoverySources from '../../scripts/tool-discovery-sources.json';
+
+const SETTINGS_KEY = 'anti-spam';
+
+/** Shared with tool discovery, which skips the same sites. */
+const BLOCKED_HOSTNAMES: string[] = discoverySources.excludeHostnames;
+
+export interface SpamCheckInput {
+  url: string;
+  clientIp: string;
+  honeypot: string | undefined;
+  challenge: string | undefined;
+  challengeNonce: string | undefined;
+  /** Sent with an API key; such clients never see the form or a challenge. */
+  hasApiKey: boolean;
+}
+
+export interface SpamCheckRun {
+  results: SpamCheckResult[];
+  blocked: SpamCheckResult | null;
+  flagged: boolean;
+  /** The reachability fetch, reused as the submission's first health check. */
+  health: HealthCheckResult | null;
+}
+
+export interface StoredSpamCheck {
+  checkedAt: Date;
+  blocked: boolean;
+  results: SpamCheckResult[];
+}
+
+export interface BlockedSubmission extends StoredSpamCheck {
+  id: number;
+  url: string;
+  submitterIpHash: string | null;
+}
+
+function parseResults(value: string): SpamCheckResult[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadSpamSettings(db: Database): Promise<SpamSettings> {
+  const [row] = await db.select({ value: settings.value }).from(settings).where(eq(settings.key, SETTINGS_KEY)).limit(1);
+  if (!row) return parseSpamSettings(null);
+  try {
+    return parseSpamSettings(JSON.parse(row.value));
+  } catch {
+    return parseSpamSettings(null);
+  }
+}
+
+export async function saveSpamSettings(db: Database, value: SpamSettings): Promise<void> {
+  const now = new Date();
+  await db
+    .insert(settings)
+    .values({ key: SETTINGS_KEY, value: JSON.stringify(value), updatedAt: now })
+    .onConflictDoUpdate({ target: settings.key, set: { value: JSON.stringify(value), updatedAt: now } });
+}
+
+const CHALLENGE_DETAILS = {
+  invalid: 'Challenge missing, malformed or issued to another client',
+  expired: 'Challenge expired',
+  unsolved: 'Challenge not solved',
+} as const;
+
+/**
+ * Run the enabled checks. Reachability is skipped once a check has blocked
+ * the submission, since it is the only slow one.
+ */
+export async function runSpamChecks(env: Env, config: SpamSettings, input: SpamCheckInput): Promise<SpamCheckRun> {
+  const results: SpamCheckResult[] = [];
+  let health: HealthCheckResult | null = null;
+
+  if (config.honeypot !== 'off') {
+    const filled = Boolean(input.honeypot?.trim());
+    results.push({
+      check: 'honeypot',
+      outcome: filled ? 'fail' : 'pass',
+      action: config.honeypot,
+      detail: filled ? 'Hidden field was filled in' : null,
+    });
+  }
+
+  if (config.challenge !== 'off') {
+    if (input.hasApiKey || !env.RECEIPT_SECRET) {
+      results.push({
+        check: 'challenge',
+        outcome: 'skipped',
+        action: config.challenge,
+        detail: input.hasApiKey ? 'Sent with an API key' : 'RECEIPT_SECRET is not set',
+      });
+    } else {
+      const verdict = input.challenge && input.challengeNonce
+        ? await verifyChallenge(env.RECEIPT_SECRET, input.clientIp, input.challenge, input.challengeNonce)
+        : 'invalid';
+      results.push({
+        check: 'challenge',
+        outcome: verdict === 'valid' ? 'pass' : 'fail',
+        action: config.challenge,
+        detail: verdict === 'valid' ? null : CHALLENGE_DETAILS[verdict],
+      });
+    }
+  }
+
+  if (config.blocklist !== 'off') {
+    const blockedHost = findBlockedHostname(input.url, BLOCKED_HOSTNAMES);
+    results.push({
+      check: 'blocklist',
+      outcome: blockedHost ? 'fail' : 'pass',
+      action: config.blocklist,
+      detail: blockedHost ? `On the blocklist: ${blockedHost}` : null,
+    });
+  }
+
+  if (config.reachability !== 'off') {
+    if (decideSpamOutcome(results).blocked) {
+      results.push({ check: 'reachability', outcome: 'skipped', action: config.reachability, detail: 'Already blocked' });
+    } else {
+      health = await checkHealth(input.url, env.SITE_URL);
+      results.push({
+        check: 'reachability',
+        outcome: health.isOnline ? 'pass' : 'fail',
+        action: config.reachability,
+        detail: health.isOnline ? null : health.httpStatus ? `HTTP ${health.httpStatus}` : 'No response',
+      });
+    }
+  }
+
+  return { results, ...decideSpamOutcome(results), health };
+}
+
+/** Store a run; toolId is null for blocked submissions. */
+export async function recordSpamChecks(
+  db: Database,
+  run: SpamCheckRun,
+  submission: { toolId: number | null; url: string; ipHash: string }
+): Promise<void> {
+  if (run.results.length === 0) return;
+  await db.insert(submissionChecks).values({
+    toolId: submission.toolId,
+    url: submission.url,
+    submitterIpHash: submission.ipHash,
+    checkedAt: new Date(),
+    blocked: run.blocked !== null,
+    results: JSON.stringify(run.results),
+  });
+}
+
+/** Most recent run per tool. */
+export async function loadLatestSpamChecks(db: Database, toolIds: number[]): Promise<Map<number, StoredSpamCheck>> {
+  const latest = new Map<number, StoredSpamCheck>();
+  if (toolIds.length === 0) return latest;
+
+  const rows = await db
+    .select()
+    .from(submissionChecks)
+    .where(inArray(submissionChecks.toolId, toolIds))
+    .orderBy(desc(submissionChecks.checkedAt), desc(submissionChecks.id));
+  for (const row of rows) {
+    if (row.toolId === null || latest.has(row.toolId)) continue;
+    latest.set(row.toolId, { checkedAt: row.checkedAt, blocked: row.blocked, results: parseResults(row.results) });
+  }
+  return latest;
+}
+
+/** Latest refused submissions, newest first. */
+export async function loadBlockedSubmissions(db: Database, limit = 50): Promise<BlockedSubmission[]> {
+  const rows = await db
+    .select()
+    .from(submissionChecks)
+    .where(eq(submissionChecks.blocked, true))
+    .orderBy(desc(submissionChecks.checkedAt), desc(submissionChecks.id))
+    .limit(limit);
+  return rows.map((row) => ({
+    id: row.id,
+    url: row.url,
+    submitterIpHash: row.submitterIpHash,
+    checkedAt: row.checkedAt,
+    blocked: row.blocked,
+    results: parseResults(row.results),
+  }));
+}
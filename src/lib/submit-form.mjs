@@ -0,0 +1,109 @@
+// Rules shared by the submit form's live validation and the server
+// (tool-input.ts), and the draft the form keeps in localStorage so a failed
+// or interrupted submission is not lost.
+
+/** Length limits of the required text fields, as [min, max]. */
+export const TEXT_FIELD_LIMITS = /** @type {const} */ ({
+  name: [2, 100],
+  description: [1, 500],
+  coreTask: [1, 200],
+});
+
+export const MAX_EMAIL_LENGTH = 254;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Form fields kept in the draft. The email address and the pledge are not. */
+export const DRAFT_FIELDS = /** @type {const} */ ([
+  'name',
+  'url',
+  'description',
+  'repoUrl',
+  'twitterUrl',
+  'githubUrl',
+  'discordUrl',
+  'coreTask',
+]);
+
+export const DRAFT_STORAGE_KEY = 'nologin:submit-draft';
+
+/** Drafts older than this are dropped instead of restored. */
+export const DRAFT_MAX_AGE_DAYS = 30;
+
+/**
+ * @typedef {{ key: string, value: string }} DraftTag
+ * @typedef {{ fields: Partial<Record<(typeof DRAFT_FIELDS)[number], string>>, tags: DraftTag[], savedAt: string }} SubmitDraft
+ */
+
+/**
+ * Whether a text field's value is within its limits once trimmed.
+ * @param {keyof typeof TEXT_FIELD_LIMITS} field
+ * @param {string} value
+ */
+export function isValidText(field, value) {
+  const [min, max] = TEXT_FIELD_LIMITS[field];
+  const length = value.trim().length;
+  return length >= min && length <= max;
+}
+
+/**
+ * Whether an optional email address is acceptable; blank is.
+ * @param {string} value
+ */
+export function isValidEmail(value) {
+  const trimmed = value.trim();
+  return !trimmed || (trimmed.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(trimmed));
+}
+
+/**
+ * The draft to store, or null when nothing has been filled in.
+ * @param {Record<string, unknown>} values form values by field name
+ * @param {DraftTag[]} tags
+ * @param {Date} [now]
+ * @returns {string | null}
+ */
+export function serializeDraft(values, tags, now = new Date()) {
+  /** @type {SubmitDraft['fields']} */
+  const fields = {};
+  for (const field of DRAFT_FIELDS) {
+    const value = values[field];
+    if (typeof value === 'string' && value.trim()) fields[field] = value;
+  }
+  if (Object.keys(fields).length === 0 && tags.length === 0) return null;
+  return JSON.stringify({ fields, tags, savedAt: now.toISOString() });
+}
+
+/**
+ * A stored draft, or null if it is missing, malformed or too old.
+ * @param {string | null} stored
+ * @param {Date} [now]
+ * @returns {SubmitDraft | null}
+ */
+export function parseDraft(stored, now = new Date()) {
+  if (!stored) return null;
+  let parsed;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const savedAt = new Date(parsed.savedAt);
+  const age = now.getTime() - savedAt.getTime();
+  if (Number.isNaN(age) || age < 0 || age > DRAFT_MAX_AGE_DAYS * 86400 * 1000) return null;
+
+  /** @type {SubmitDraft['fields']} */
+  const fields = {};
+  for (const field of DRAFT_FIELDS) {
+    const value = parsed.fields?.[field];
+    if (typeof value === 'string') fields[field] = value;
+  }
+  /** @type {DraftTag[]} */
+  const tags = [];
+  for (const tag of Array.isArray(parsed.tags) ? parsed.tags : []) {
+    if (typeof tag?.key === 'string' && typeof tag?.value === 'string') tags.push({ key: tag.key, value: tag.value });
+  }
+  if (Object.keys(fields).length === 0 && tags.length === 0) return null;
+  return { fields, tags, savedAt: savedAt.toISOString() };
+}
@@ -51,6 +51,14 @@ export const TAG_DEFINITIONS: TagDefinition[] = [
   },
 ];
 
+// Auto-derived from repo_url on submit/update, so it is not offered in the TagPicker.
+export const SOURCE_TAG_DEFINITION: TagDefinition = {
+  key: 'source',
+  label: 'Source',
+  values: ['Open Source', 'Closed Source'],
+  multiSelect: false,
+};
+
 export function getTagLabel(key: string, value: string): string {
   return `${key}:${value}`;
 }
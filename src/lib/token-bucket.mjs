@@ -0,0 +1,49 @@
+// Token-bucket maths for the rate limits in rate-limit.ts. A bucket holds up
+// to `limit` tokens and refills continuously, from empty to full in
+// `windowSeconds`; every counted request takes one token.
+
+/**
+ * @typedef {{ limit: number, windowSeconds: number }} BucketSize
+ * @typedef {object} BucketState
+ * @property {boolean} allowed
+ * @property {number} limit
+ * @property {number} remaining
+ * @property {number} resetAt Unix time (seconds) when the bucket is full again.
+ * @property {number} retryAfter Seconds until the next token, when not allowed.
+ */
+
+/**
+ * Tokens in a bucket after refilling it for the time since it was last
+ * updated, as a SQL expression. `sql` is a template tag such as drizzle-orm's;
+ * `columns` are SQL fragments for it with the stored tokens, the last update
+ * and the current time (both in ms). A clock that went backwards adds nothing.
+ * @template T
+ * @param {(strings: TemplateStringsArray, ...values: unknown[]) => T} sql
+ * @param {{ tokens: unknown, updatedAt: unknown, now: unknown }} columns
+ * @param {BucketSize} size
+ * @returns {T}
+ */
+export function refilledTokensSql(sql, columns, size) {
+  const perMs = size.limit / (size.windowSeconds * 1000);
+  return sql`MIN(${size.limit}, ${columns.tokens} + MAX(${columns.now} - ${columns.updatedAt}, 0) * ${perMs})`;
+}
+
+/**
+ * Rate limit state to report for a bucket holding `tokens` at `now` (ms),
+ * after a request that was `allowed` or not.
+ * @param {BucketSize} size
+ * @param {number} tokens
+ * @param {boolean} allowed
+ * @param {number} now
+ * @returns {BucketState}
+ */
+export function bucketState(size, tokens, allowed, now) {
+  const perSecond = size.limit / size.windowSeconds;
+  return {
+    allowed,
+    limit: size.limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetAt: Math.ceil(now / 1000 + (size.limit - tokens) / perSecond),
+    retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / perSecond)),
+  };
+}
@@ -0,0 +1,60 @@
+// Opaque cursors for keyset pagination of /api/tools: base64url JSON of the
+// sort name, the last row's sort key values and the listing's reference
+// time. tool-query.ts builds and checks them against the requested sort.
+
+/**
+ * @typedef {string | number | null} CursorValue
+ * @typedef {{ sort: string, values: CursorValue[], now: number | null }} DecodedCursor
+ */
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function toBase64Url(text) {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * @param {string} value
+ * @returns {string}
+ */
+function fromBase64Url(value) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * @param {string} sort
+ * @param {CursorValue[]} values
+ * @param {number} now
+ * @returns {string}
+ */
+export function encodeCursor(sort, values, now) {
+  return toBase64Url(JSON.stringify({ s: sort, k: values, t: now }));
+}
+
+/**
+ * Parse a cursor from a request; null if it is malformed. `now` is null for
+ * cursors from before the reference time was kept.
+ * @param {string} cursor
+ * @returns {DecodedCursor | null}
+ */
+export function decodeCursor(cursor) {
+  try {
+    const parsed = JSON.parse(fromBase64Url(cursor));
+    if (
+      typeof parsed?.s !== 'string' ||
+      !Array.isArray(parsed.k) ||
+      !parsed.k.every((/** @type {unknown} */ v) => v === null || typeof v === 'string' || typeof v === 'number') ||
+      (parsed.t !== undefined && !Number.isInteger(parsed.t))
+    ) {
+      return null;
+    }
+    return { sort: parsed.s, values: parsed.k, now: parsed.t ?? null };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Admin bulk import: validates each row like a submission, checks it for
+ * duplicates against the directory and the rows before it, and inserts the
+ * rows that pass, pending or approved. Nothing is fetched per row (no
+ * redirect resolution, health check or GitHub lookup), and the rows are
+ * written in a few D1 batches, so a large import stays within the Worker's
+ * subrequest and query limits; the cron worker fills in GitHub data and
+ * health checks. Parsing lives in bulk-import.mjs.
+ */
+
+import type { z } from 'astro/zod';
+import type { Database } from '../db';
+import { tags, tools } from '../db/schema';
+import { urlToSlug } from './utils';
+import { insertToolChange } from './changes';
+import { insertFirstRevision } from './tool-revisions';
+import { enqueueWebhookEvents } from './webhooks';
+import { TAG_DEFINITIONS } from './tags';
+import { withSourceTag, type ToolTag } from './tool-input';
+import { validateBody, importToolRowSchema } from './schemas';
+import { findTagErrors } from './bulk-import.mjs';
+import { findPossibleDuplicates, DUPLICATE_REASON_LABELS } from './duplicates.mjs';
+
+export type ImportRowStatus = 'imported' | 'valid' | 'invalid' | 'duplicate' | 'possible-duplicate';
+
+export interface ImportRowResult {
+  /** 1-based position in the input. */
+  row: number;
+  name: string | null;
+  url: string | null;
+  status: ImportRowStatus;
+  messages: string[];
+  /** The new tool's slug, or the existing tool's for duplicates. */
+  slug: string | null;
+}
+
+type ImportToolRow = z.output<typeof importToolRowSchema>;
+
+export interface ImportOptions {
+  approve: boolean;
+  dryRun: boolean;
+  allowPossibleDuplicates: boolean;
+}
+
+const SEO_FIELDS = ['seoTitle', 'seoDescription', 'seoFocusKeyword', 'seoIntent', 'seoTaskPhrase'];
+
+function textField(row: unknown, field: string): string | null {
+  const value = row && typeof row === 'object' ? (row as Record<string, unknown>)[field] : undefined;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/** Blank SEO fields are left out, as validate-tool-data.mjs allows. */
+function withoutBlankSeoFields(row: unknown): unknown {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) return row;
+  const copy: Record<string, unknown> = { ...row };
+  for (const field of SEO_FIELDS) {
+    if (copy[field] === null || copy[field] === '') delete copy[field];
+  }
+  return copy;
+}
+
+export async function importTools(db: Database, env: Env, rows: unknown[], options: ImportOptions): Promise<ImportRowResult[]> {
+  const existing = await db
+    .select({ id: tools.id, slug: tools.slug, name: tools.name, url: tools.url, status: tools.status })
+    .from(tools);
+  const status = options.approve ? 'approved' : 'pending';
+  const results: ImportRowResult[] = [];
+  const accepted: { result: ImportRowResult; tool: ImportToolRow; slug: string; toolTags: ToolTag[] }[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const result: ImportRowResult = {
+      row: index + 1,
+      name: textField(row, 'name'),
+      url: textField(row, 'url'),
+      status: 'invalid',
+      messages: [],
+      slug: null,
+    };
+    results.push(result);
+
+    const validated = validateBody(importToolRowSchema, withoutBlankSeoFields(row));
+    if ('errors' in validated) {
+      result.messages = Object.entries(validated.errors).map(([field, message]) => `${field}: ${message}`);
+      continue;
+    }
+    const tool = validated.data;
+    result.url = tool.url;
+
+    const tagErrors = findTagErrors(tool.tags, TAG_DEFINITIONS);
+    if (tagErrors.length > 0) {
+      result.messages = tagErrors.map((message) => `tags: ${message}`);
+      continue;
+    }
+
+    const slug = urlToSlug(tool.url);
+    const possibleDuplicates = findPossibleDuplicates(tool, existing);
+    const sameUrl = existing.find((ref) => ref.slug === slug) ?? possibleDuplicates.find((dup) => dup.reasons.includes('url'));
+    if (sameUrl) {
+      result.status = 'duplicate';
+      result.slug = sameUrl.slug;
+      result.messages = [`Already listed as ${sameUrl.name} (${sameUrl.status}).`];
+      continue;
+    }
+    result.messages = possibleDuplicates.map(
+      (dup) => `Possible duplicate of ${dup.name} (${dup.status}): ${dup.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(', ')}.`
+    );
+    if (possibleDuplicates.length > 0 && !options.allowPossibleDuplicates) {
+      result.status = 'possible-duplicate';
+      continue;
+    }
+
+    result.status = 'valid';
+    result.slug = slug;
+    // Later rows are checked against this one as if it had been imported
+    existing.push({ id: 0, slug, name: tool.name, url: tool.url, status });
+    accepted.push({ result, tool, slug, toolTags: withSourceTag(tool.tags, tool.repoUrl) });
+  }
+
+  if (options.dryRun || accepted.length === 0) return results;
+
+  // Written in batches, not per row, to stay within the Worker's D1 query limit
+  const now = new Date();
+  const [firstInsert, ...otherInserts] = accepted.map(({ tool, slug }) =>
+    db
+      .insert(tools)
+      .values({
+        slug,
+        name: tool.name,
+        url: tool.url,
+        description: tool.description,
+        coreTask: tool.coreTask,
+        seoTitle: tool.seoTitle ?? null,
+        seoDescription: tool.seoDescription ?? null,
+        seoFocusKeyword: tool.seoFocusKeyword ?? null,
+        seoIntent: tool.seoIntent ?? null,
+        seoTaskPhrase: tool.seoTaskPhrase ?? null,
+        noLoginPledge: true,
+        status,
+        submittedAt: now,
+        approvedAt: options.approve ? now : null,
+        repoUrl: tool.repoUrl,
+        twitterUrl: tool.twitterUrl,
+        githubUrl: tool.githubUrl,
+        discordUrl: tool.discordUrl,
+      })
+      .returning()
+  );
+  const inserted = (await db.batch([firstInsert, ...otherInserts])).map(([row]) => row);
+
+  const [firstFollowUp, ...otherFollowUps] = accepted.flatMap(({ toolTags }, i) => [
+    ...(toolTags.length > 0
+      ? [db.insert(tags).values(toolTags.map((tag) => ({ toolId: inserted[i].id, tagKey: tag.key, tagValue: tag.value })))]
+      : []),
+    insertFirstRevision(db, inserted[i], toolTags, 'admin'),
+    insertToolChange(db, { type: 'added', toolId: inserted[i].id, slug: inserted[i].slug, status }),
+  ]);
+  await db.batch([firstFollowUp, ...otherFollowUps]);
+
+  if (options.approve) {
+    await enqueueWebhookEvents(
+      db,
+      env.SITE_URL,
+      'tool.approved',
+      accepted.map(({ toolTags }, i) => ({
+        id: inserted[i].id,
+        slug: inserted[i].slug,
+        name: inserted[i].name,
+        url: inserted[i].url,
+        categories: toolTags.filter((tag) => tag.key === 'category').map((tag) => tag.value),
+      })),
+      { previousStatus: null }
+    );
+  }
+
+  for (const [i, { result }] of accepted.entries()) {
+    result.status = 'imported';
+    result.slug = inserted[i].slug;
+  }
+  return results;
+}
@@ -0,0 +1,136 @@
+/**
+ * Validation and normalization for user-editable tool fields, shared by every
+ * path that writes them: submit, resubmit, edit suggestions and their
+ * approval, and the admin tool update. Values come out trimmed, with the tool
+ * URL canonicalized (see duplicates.mjs) and blank links as null.
+ *
+ * Messages are i18n keys under `validation.*`; validateBody() in schemas.ts
+ * translates them for the request's locale.
+ */
+
+import { z } from 'astro/zod';
+import { TAG_DEFINITIONS } from './tags';
+import { validateTwitterUrl, validateGitHubProfileUrl, validateDiscordUrl, validateRepoUrl } from './github';
+import { canonicalizeUrl } from './duplicates.mjs';
+import { TEXT_FIELD_LIMITS, isValidEmail } from './submit-form.mjs';
+
+export interface ToolTag {
+  key: string;
+  value: string;
+}
+
+/** Fields a visitor can suggest an edit for. */
+export const EDITABLE_FIELDS = [
+  'name', 'description', 'coreTask', 'url', 'tags', 'repoUrl', 'twitterUrl', 'githubUrl', 'discordUrl',
+] as const;
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export const LINK_FIELDS = ['repoUrl', 'twitterUrl', 'githubUrl', 'discordUrl'] as const;
+
+export function isEditableField(value: unknown): value is EditableField {
+  return EDITABLE_FIELDS.includes(value as EditableField);
+}
+
+/**
+ * Keep tags whose key and value are defined in TAG_DEFINITIONS, once each.
+ * The source tag is never taken from input; see withSourceTag().
+ */
+export function normalizeTags(input: ToolTag[]): ToolTag[] {
+  const seen = new Set<string>();
+  const tags: ToolTag[] = [];
+  for (const tag of input) {
+    const def = TAG_DEFINITIONS.find((d) => d.key === tag.key);
+    if (!def || !def.values.includes(tag.value)) continue;
+    const id = `${tag.key}:${tag.value}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    tags.push({ key: tag.key, value: tag.value });
+  }
+  return tags;
+}
+
+/** Tags plus the source tag derived from the repository URL. */
+export function withSourceTag(tags: ToolTag[], repoUrl: string | null | undefined): ToolTag[] {
+  const withoutSource = tags.filter((t) => t.key !== 'source');
+  return repoUrl ? [...withoutSource, { key: 'source', value: 'Open Source' }] : withoutSource;
+}
+
+function requiredText(message: string, [min, max]: readonly [number, number]) {
+  return z
+    .string({ required_error: message, invalid_type_error: message })
+    .trim()
+    .min(min, message)
+    .max(max, message);
+}
+
+/** Optional link; blank clears it. */
+function link(validate: (url: string) => boolean, message: string) {
+  return z
+    .string({ invalid_type_error: message })
+    .trim()
+    .refine((value) => !value || validate(value), message)
+    .nullish()
+    .transform((value) => value || null);
+}
+
+export const toolTagSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+});
+
+export const toolFields = {
+  name: requiredText('validation.name', TEXT_FIELD_LIMITS.name),
+  url: z
+    .string({ required_error: 'validation.urlRequired', invalid_type_error: 'validation.urlRequired' })
+    .trim()
+    .min(1, 'validation.urlRequired')
+    .transform((value, ctx) => {
+      const url = canonicalizeUrl(value);
+      if (!url) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'validation.url' });
+        return z.NEVER;
+      }
+      return url;
+    }),
+  description: requiredText('validation.description', TEXT_FIELD_LIMITS.description),
+  coreTask: requiredText('validation.coreTask', TEXT_FIELD_LIMITS.coreTask),
+  submitterEmail: z
+    .string({ invalid_type_error: 'validation.email' })
+    .trim()
+    .refine(isValidEmail, 'validation.email')
+    .nullish()
+    .transform((value) => value || null)
+    .describe('Emailed the review decision, then deleted.'),
+  repoUrl: link(validateRepoUrl, 'validation.repoUrl'),
+  twitterUrl: link(validateTwitterUrl, 'validation.twitterUrl'),
+  githubUrl: link(validateGitHubProfileUrl, 'validation.githubUrl'),
+  discordUrl: link(validateDiscordUrl, 'validation.discordUrl'),
+  tags: z
+    .array(toolTagSchema, { invalid_type_error: 'validation.tags' })
+    .transform(normalizeTags)
+    .describe('Unknown keys and values are ignored; the source tag is derived from repoUrl.'),
+};
+
+/**
+ * Validate a suggested value as stored in edit_suggestions.new_value and
+ * return it normalized: tags as a JSON array, cleared links as ''.
+ */
+export function parseEditValue(
+  fieldName: EditableField,
+  raw: string
+): { value: string } | { error: string } {
+  if (fieldName === 'tags') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: 'validation.tags' };
+    }
+    const result = toolFields.tags.safeParse(parsed);
+    return result.success ? { value: JSON.stringify(result.data) } : { error: result.error.issues[0].message };
+  }
+
+  const result = toolFields[fieldName].safeParse(raw);
+  if (!result.success) return { error: result.error.issues[0].message };
+  return { value: result.data ?? '' };
+}
@@ -0,0 +1,369 @@
+/**
+ * Query parsing, SQL filters, sort orders and facet counts for the public
+ * tool list (/api/tools). Everything is pushed down into D1 so the endpoint
+ * never loads the full directory into memory.
+ */
+
+import { and, eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../db';
+import { tools, tags } from '../db/schema';
+import { TAG_DEFINITIONS, SOURCE_TAG_DEFINITION, type TagDefinition } from './tags';
+import { HEALTH_TOLERANCE, HEALTH_WINDOW_HOURS } from './health';
+import { ftsMatchSql, ftsRankSql } from './tool-search';
+import { buildFtsQuery } from './search-text.mjs';
+import { toolScoreSql } from './tool-score.mjs';
+import { decodeCursor, encodeCursor, type CursorValue } from './tool-cursor.mjs';
+import { DEFAULT_LOCALE, LOCALES, type Locale } from '../i18n/config';
+
+export const FACET_TAG_DEFINITIONS: TagDefinition[] = [...TAG_DEFINITIONS, SOURCE_TAG_DEFINITION];
+
+export const TOOL_SORTS = ['relevance', 'score', 'newest', 'stars', 'name'] as const;
+export type ToolSort = (typeof TOOL_SORTS)[number];
+
+export const HEALTH_FILTERS = ['online', 'unstable', 'offline', 'unknown'] as const;
+export type HealthFilter = (typeof HEALTH_FILTERS)[number];
+
+export const DEFAULT_PER_PAGE = 24;
+export const MAX_PER_PAGE = 100;
+
+export interface ToolQuery {
+  q: string;
+  /** FTS5 MATCH expression built from `q`; empty when `q` has no searchable terms. */
+  match: string;
+  /** Locale whose translated content is searched in addition to English. */
+  locale: Locale;
+  /** Tag filters: OR within a key, AND across keys. */
+  tags: Record<string, string[]>;
+  health: HealthFilter[];
+  featured: boolean | null;
+  hasRepo: boolean | null;
+  minStars: number | null;
+  maxStars: number | null;
+  sort: ToolSort;
+  page: number;
+  perPage: number;
+  /** Sort key values of the last tool on the previous page; replaces `page` when set. */
+  cursor: CursorValue[] | null;
+  /**
+   * Reference time (Unix seconds) for health and score. Kept in the cursor,
+   * so every page of a listing compares the same scores.
+   */
+  now: number;
+}
+
+interface SortKey {
+  expr: SQL;
+  direction: 'asc' | 'desc';
+}
+
+export type FacetCounts = Record<string, Record<string, number>>;
+
+/** Read a repeatable, comma-separated parameter (`?privacy=A,B` or `?privacy=A&privacy=B`). */
+function getList(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function parseBoolean(value: string | null): boolean | null | undefined {
+  if (value === null || value === '') return null;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return undefined;
+}
+
+function parseNonNegativeInt(value: string | null): number | null | undefined {
+  if (value === null || value === '') return null;
+  if (!/^\d+$/.test(value)) return undefined;
+  return parseInt(value, 10);
+}
+
+export function parseToolQuery(
+  params: URLSearchParams
+): { query: ToolQuery } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  const tagFilters: Record<string, string[]> = {};
+  for (const def of FACET_TAG_DEFINITIONS) {
+    const values = [...new Set(getList(params, def.key))];
+    if (values.length === 0) continue;
+    const invalid = values.filter((v) => !def.values.includes(v));
+    if (invalid.length > 0) {
+      errors[def.key] = `Unknown ${def.key} value(s): ${invalid.join(', ')}.`;
+    } else {
+      tagFilters[def.key] = values;
+    }
+  }
+
+  const health = [...new Set(getList(params, 'health'))];
+  const invalidHealth = health.filter((h) => !HEALTH_FILTERS.includes(h as HealthFilter));
+  if (invalidHealth.length > 0) {
+    errors.health = `health must be one of: ${HEALTH_FILTERS.join(', ')}.`;
+  }
+
+  const featured = parseBoolean(params.get('featured'));
+  if (featured === undefined) errors.featured = 'featured must be true or false.';
+
+  const hasRepo = parseBoolean(params.get('hasRepo'));
+  if (hasRepo === undefined) errors.hasRepo = 'hasRepo must be true or false.';
+
+  const minStars = parseNonNegativeInt(params.get('minStars'));
+  if (minStars === undefined) errors.minStars = 'minStars must be a non-negative integer.';
+  const maxStars = parseNonNegativeInt(params.get('maxStars'));
+  if (maxStars === undefined) errors.maxStars = 'maxStars must be a non-negative integer.';
+  if (minStars != null && maxStars != null && minStars > maxStars) {
+    errors.maxStars = 'maxStars must be greater than or equal to minStars.';
+  }
+
+  const q = (params.get('q') || '').trim();
+  const match = buildFtsQuery(q);
+
+  const locale = params.get('locale') || DEFAULT_LOCALE;
+  if (!LOCALES.includes(locale as Locale)) {
+    errors.locale = `locale must be one of: ${LOCALES.join(', ')}.`;
+  }
+
+  // Relevance is the default when searching; without a search it falls back to score.
+  let sort = params.get('sort') || (match ? 'relevance' : 'score');
+  if (!TOOL_SORTS.includes(sort as ToolSort)) {
+    errors.sort = `sort must be one of: ${TOOL_SORTS.join(', ')}.`;
+  } else if (sort === 'relevance' && !match) {
+    sort = 'score';
+  }
+
+  const perPage = parseNonNegativeInt(params.get('perPage'));
+  if (perPage === undefined || perPage === 0 || (perPage != null && perPage > MAX_PER_PAGE)) {
+    errors.perPage = `perPage must be between 1 and ${MAX_PER_PAGE}.`;
+  }
+
+  let cursor: CursorValue[] | null = null;
+  let now = Math.floor(Date.now() / 1000);
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    const decoded = decodeCursor(cursorParam);
+    if (params.has('page')) {
+      errors.cursor = 'Use either cursor or page, not both.';
+    } else if (!decoded || errors.sort) {
+      errors.cursor = 'Invalid cursor.';
+    } else if (decoded.sort !== sort || decoded.values.length !== buildToolSortKeys({ sort: sort as ToolSort, match, locale: locale as Locale, now }).length) {
+      errors.cursor = 'Cursor does not match the requested sort.';
+    } else {
+      cursor = decoded.values;
+      // Cursors from before the reference time was kept have none
+      if (decoded.now !== null) now = decoded.now;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    query: {
+      q,
+      match,
+      locale: locale as Locale,
+      tags: tagFilters,
+      health: health as HealthFilter[],
+      featured: featured ?? null,
+      hasRepo: hasRepo ?? null,
+      minStars: minStars ?? null,
+      maxStars: maxStars ?? null,
+      sort: sort as ToolSort,
+      page: Math.max(1, parseInt(params.get('page') || '1', 10) || 1),
+      perPage: perPage ?? DEFAULT_PER_PAGE,
+      cursor,
+      now,
+    },
+  };
+}
+
+/**
+ * Effective health status at `now` (Unix seconds) as a SQL expression,
+ * mirroring resolveEffectiveStatus(): no check inside the window → 'unknown',
+ * latest online → 'online', none of the last HEALTH_TOLERANCE online →
+ * 'offline', otherwise 'unstable'. Checks made after `now` are ignored.
+ */
+export function healthStatusSql(now: number): SQL<HealthFilter> {
+  const windowCutoff = now - HEALTH_WINDOW_HOURS * 3600;
+  return sql<HealthFilter>`(CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM health_checks WHERE tool_id = ${tools.id} AND checked_at > ${windowCutoff} AND checked_at <= ${now}
+    ) THEN 'unknown'
+    WHEN (
+      SELECT is_online FROM health_checks WHERE tool_id = ${tools.id} AND checked_at <= ${now} ORDER BY checked_at DESC LIMIT 1
+    ) = 1 THEN 'online'
+    WHEN (
+      SELECT SUM(is_online) FROM (
+        SELECT is_online FROM health_checks WHERE tool_id = ${tools.id} AND checked_at <= ${now} ORDER BY checked_at DESC LIMIT ${HEALTH_TOLERANCE}
+      )
+    ) = 0 THEN 'offline'
+    ELSE 'unstable'
+  END)`;
+}
+
+/**
+ * Recommendation score at `now` (Unix seconds) as a SQL expression, the same
+ * as computeScore() in src/data/loader.ts (see tool-score.mjs).
+ */
+export function scoreSql(now: number): SQL<number> {
+  return toolScoreSql(
+    sql<number>,
+    {
+      badgeDisplayType: sql`(SELECT display_type FROM badge_displays WHERE tool_id = ${tools.id})`,
+      approvedAt: tools.approvedAt,
+      health: healthStatusSql(now),
+      isFeatured: tools.isFeatured,
+    },
+    now
+  );
+}
+
+function tagFilterSql(key: string, values: string[]): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM ${tags}
+    WHERE ${tags.toolId} = ${tools.id} AND ${tags.tagKey} = ${key} AND ${inArray(tags.tagValue, values)}
+  )`;
+}
+
+/**
+ * Build WHERE conditions for a query. `excludeTagKey` drops that key's own
+ * filter, which is how disjunctive facet counts are computed.
+ */
+export function buildToolConditions(query: ToolQuery, excludeTagKey?: string): SQL[] {
+  const conditions: SQL[] = [eq(tools.status, 'approved')];
+
+  if (query.match) {
+    conditions.push(ftsMatchSql(query.match, query.locale));
+  }
+
+  for (const [key, values] of Object.entries(query.tags)) {
+    if (key === excludeTagKey) continue;
+    conditions.push(tagFilterSql(key, values));
+  }
+
+  if (query.health.length > 0) {
+    conditions.push(sql`${healthStatusSql(query.now)} IN ${query.health}`);
+  }
+
+  if (query.featured !== null) {
+    conditions.push(eq(tools.isFeatured, query.featured));
+  }
+
+  if (query.hasRepo === true) {
+    conditions.push(sql`${tools.repoUrl} IS NOT NULL AND ${tools.repoUrl} != ''`);
+  } else if (query.hasRepo === false) {
+    conditions.push(sql`(${tools.repoUrl} IS NULL OR ${tools.repoUrl} = '')`);
+  }
+
+  if (query.minStars !== null) {
+    conditions.push(sql`${tools.githubStars} >= ${query.minStars}`);
+  }
+  if (query.maxStars !== null) {
+    conditions.push(sql`${tools.githubStars} <= ${query.maxStars}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Sort keys for a query, always ending in the tool id so the order is total
+ * and can be resumed from a cursor. Nullable columns are coalesced because
+ * keyset comparisons do not work on NULL.
+ */
+export function buildToolSortKeys(query: Pick<ToolQuery, 'sort' | 'match' | 'locale' | 'now'>): SortKey[] {
+  const byName: SortKey = { expr: sql`${tools.name} COLLATE NOCASE`, direction: 'asc' };
+  const byId: SortKey = { expr: sql`${tools.id}`, direction: 'asc' };
+  const byApproved: SortKey = { expr: sql`COALESCE(${tools.approvedAt}, 0)`, direction: 'desc' };
+  const byScore: SortKey = { expr: scoreSql(query.now), direction: 'desc' };
+  switch (query.sort) {
+    case 'relevance':
+      return [{ expr: ftsRankSql(query.match, query.locale), direction: 'asc' }, byScore, byName, byId];
+    case 'newest':
+      return [byApproved, byName, byId];
+    case 'stars':
+      return [{ expr: sql`COALESCE(${tools.githubStars}, -1)`, direction: 'desc' }, byName, byId];
+    case 'name':
+      return [byName, byId];
+    case 'score':
+    default:
+      return [byScore, byApproved, byName, byId];
+  }
+}
+
+export function buildToolOrderBy(query: ToolQuery): SQL[] {
+  return buildToolSortKeys(query).map((key) =>
+    key.direction === 'asc' ? sql`${key.expr} ASC` : sql`${key.expr} DESC`
+  );
+}
+
+/** Sort key values selected alongside each row, for building the next cursor. */
+export function buildSortKeyColumns(query: ToolQuery): Record<string, SQL<CursorValue>> {
+  return Object.fromEntries(
+    buildToolSortKeys(query).map((key, i) => [`sortKey${i}`, sql<CursorValue>`${key.expr}`])
+  );
+}
+
+/** Cursor pointing after `row`, which must include the buildSortKeyColumns() columns. */
+export function cursorAfterRow(query: ToolQuery, row: Record<string, unknown>): string {
+  const values = buildToolSortKeys(query).map((_, i) => row[`sortKey${i}`] as CursorValue);
+  return encodeCursor(query.sort, values, query.now);
+}
+
+/**
+ * Keyset condition selecting rows after the cursor:
+ * (k0 > v0) OR (k0 = v0 AND k1 > v1) OR ... with > / < per sort direction.
+ */
+export function buildCursorCondition(query: ToolQuery): SQL | undefined {
+  if (!query.cursor) return undefined;
+  const keys = buildToolSortKeys(query);
+  const values = query.cursor;
+  const branches = keys.map((key, i) => {
+    const equalPrefix = keys.slice(0, i).map((prev, j) => sql`${prev.expr} = ${values[j]}`);
+    const after = key.direction === 'asc' ? sql`${key.expr} > ${values[i]}` : sql`${key.expr} < ${values[i]}`;
+    return and(...equalPrefix, after)!;
+  });
+  return or(...branches);
+}
+
+/**
+ * Count tools per tag value. Keys with an active filter are counted with
+ * that key's own filter removed, so selecting one value does not hide the
+ * alternatives for the same key.
+ */
+export async function countFacets(db: Database, query: ToolQuery): Promise<FacetCounts> {
+  const facets: FacetCounts = {};
+  for (const def of FACET_TAG_DEFINITIONS) {
+    facets[def.key] = Object.fromEntries(def.values.map((v) => [v, 0]));
+  }
+
+  const countFor = (keys: string[], conditions: SQL[]) =>
+    db
+      .select({
+        key: tags.tagKey,
+        value: tags.tagValue,
+        count: sql<number>`count(DISTINCT ${tools.id})`,
+      })
+      .from(tags)
+      .innerJoin(tools, eq(tools.id, tags.toolId))
+      .where(and(...conditions, inArray(tags.tagKey, keys)))
+      .groupBy(tags.tagKey, tags.tagValue);
+
+  const filteredKeys = Object.keys(query.tags);
+  const unfilteredKeys = FACET_TAG_DEFINITIONS.map((d) => d.key).filter((k) => !filteredKeys.includes(k));
+
+  const rows = (
+    await Promise.all([
+      unfilteredKeys.length > 0 ? countFor(unfilteredKeys, buildToolConditions(query)) : [],
+      ...filteredKeys.map((key) => countFor([key], buildToolConditions(query, key))),
+    ])
+  ).flat();
+
+  for (const row of rows) {
+    if (facets[row.key] && row.value in facets[row.key]) {
+      facets[row.key][row.value] = row.count;
+    }
+  }
+
+  return facets;
+}
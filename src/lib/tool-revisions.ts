@@ -0,0 +1,113 @@
+/**
+ * Tool revisions (tool_revisions) for the API routes. Every write path that
+ * changes a tool's content calls recordRevision() after the change; the
+ * snapshot format and the raw-SQL variant the D1 scripts use are in
+ * revisions.mjs.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { tags, toolRevisions, tools } from '../db/schema';
+import { buildSnapshot, diffSnapshots, type RevisionField, type RevisionSource, type Snapshot } from './revisions.mjs';
+
+export type { RevisionField, RevisionSource, Snapshot };
+
+export interface ToolRevision {
+  id: number;
+  source: RevisionSource;
+  /** Null for a tool's first revision. */
+  changedFields: RevisionField[] | null;
+  restoredRevisionId: number | null;
+  createdAt: Date;
+  /** Only when listed with `withSnapshots`. */
+  snapshot?: Snapshot;
+}
+
+/**
+ * Record the tool's current state as a revision, unless it matches the
+ * latest one (e.g. an approval that changed nothing).
+ */
+export async function recordRevision(
+  db: Database,
+  toolId: number,
+  source: RevisionSource,
+  restoredRevisionId: number | null = null
+): Promise<void> {
+  const [tool] = await db.select().from(tools).where(eq(tools.id, toolId)).limit(1);
+  if (!tool) return;
+  const toolTags = await db
+    .select({ key: tags.tagKey, value: tags.tagValue })
+    .from(tags)
+    .where(eq(tags.toolId, toolId));
+  const snapshot = buildSnapshot(tool, toolTags);
+
+  const [previous] = await db
+    .select({ snapshot: toolRevisions.snapshot })
+    .from(toolRevisions)
+    .where(eq(toolRevisions.toolId, toolId))
+    .orderBy(desc(toolRevisions.id))
+    .limit(1);
+  const changedFields = previous ? diffSnapshots(JSON.parse(previous.snapshot), snapshot) : null;
+  if (changedFields && changedFields.length === 0) return;
+
+  await db.insert(toolRevisions).values({
+    toolId,
+    source,
+    snapshot: JSON.stringify(snapshot),
+    changedFields: changedFields && JSON.stringify(changedFields),
+    restoredRevisionId,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * The first revision of a tool just inserted with these tags, unawaited, for
+ * db.batch(). There is nothing to compare it with, so nothing is read.
+ */
+export function insertFirstRevision(
+  db: Database,
+  tool: typeof tools.$inferSelect,
+  toolTags: { key: string; value: string }[],
+  source: RevisionSource
+) {
+  return db.insert(toolRevisions).values({
+    toolId: tool.id,
+    source,
+    snapshot: JSON.stringify(buildSnapshot(tool, toolTags)),
+    changedFields: null,
+    restoredRevisionId: null,
+    createdAt: new Date(),
+  });
+}
+
+/** A tool's revisions, newest first. */
+export async function listRevisions(
+  db: Database,
+  toolId: number,
+  { limit = 50, withSnapshots = false }: { limit?: number; withSnapshots?: boolean } = {}
+): Promise<ToolRevision[]> {
+  const rows = await db
+    .select()
+    .from(toolRevisions)
+    .where(eq(toolRevisions.toolId, toolId))
+    .orderBy(desc(toolRevisions.id))
+    .limit(limit);
+  return rows.map((row) => ({
+    id: row.id,
+    source: row.source,
+    changedFields: row.changedFields ? JSON.parse(row.changedFields) : null,
+    restoredRevisionId: row.restoredRevisionId,
+    createdAt: row.createdAt,
+    ...(withSnapshots && { snapshot: JSON.parse(row.snapshot) }),
+  }));
+}
+
+/** The snapshot of one of the tool's revisions, or null. */
+export async function loadSnapshot(db: Database, toolId: number, revisionId: number): Promise<Snapshot | null> {
+  const [row] = await db
+    .select({ snapshot: toolRevisions.snapshot })
+    .from(toolRevisions)
+    .where(and(eq(toolRevisions.id, revisionId), eq(toolRevisions.toolId, toolId)))
+    .limit(1);
+  return row ? JSON.parse(row.snapshot) : null;
+}
@@ -0,0 +1,59 @@
+// Recommendation score of a tool: badge + freshness + health + featured.
+// The static pages score tools in JS (computeScore() in src/data/loader.ts)
+// and /api/tools sorts by the same score in SQL (scoreSql() in
+// tool-query.ts); both come from this file so the two orders agree.
+
+/**
+ * @typedef {'online' | 'unstable' | 'offline' | 'unknown'} ScoreHealth
+ * @typedef {{
+ *   badgeDisplayType: string | null,
+ *   approvedAt: number | null,
+ *   health: ScoreHealth | null,
+ *   isFeatured: boolean,
+ * }} ScoreInput
+ */
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Score at `now` (Unix seconds). `approvedAt` is in Unix seconds; a tool
+ * without health checks in the window has `health` null or 'unknown'.
+ * @param {ScoreInput} tool
+ * @param {number} now
+ * @returns {number}
+ */
+export function computeToolScore(tool, now) {
+  const badge = tool.badgeDisplayType === 'explicit' ? 10 : tool.badgeDisplayType === 'implicit' ? 5 : 0;
+
+  const age = now - (tool.approvedAt ?? 0);
+  const freshness = age < 30 * DAY_SECONDS ? 5 : age < 90 * DAY_SECONDS ? 3 : 1;
+
+  const health = tool.health === 'online' ? 3 : tool.health === 'offline' ? 0 : 1;
+
+  const featured = tool.isFeatured ? 8 : 0;
+
+  return badge + freshness + health + featured;
+}
+
+/**
+ * The same score as a SQL expression. `sql` is a template tag such as
+ * drizzle-orm's; `columns` are SQL fragments for it giving the badge display
+ * type, approval time (Unix seconds), health status and featured flag.
+ * @template T
+ * @param {(strings: TemplateStringsArray, ...values: unknown[]) => T} sql
+ * @param {{ badgeDisplayType: unknown, approvedAt: unknown, health: unknown, isFeatured: unknown }} columns
+ * @param {number} now
+ * @returns {T}
+ */
+export function toolScoreSql(sql, columns, now) {
+  return sql`(
+    (CASE ${columns.badgeDisplayType} WHEN 'explicit' THEN 10 WHEN 'implicit' THEN 5 ELSE 0 END)
+    + (CASE
+        WHEN ${now} - COALESCE(${columns.approvedAt}, 0) < ${30 * DAY_SECONDS} THEN 5
+        WHEN ${now} - COALESCE(${columns.approvedAt}, 0) < ${90 * DAY_SECONDS} THEN 3
+        ELSE 1
+      END)
+    + (CASE ${columns.health} WHEN 'online' THEN 3 WHEN 'offline' THEN 0 ELSE 1 END)
+    + (CASE WHEN ${columns.isFeatured} = 1 THEN 8 ELSE 0 END)
+  )`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Full-text search over the tools_fts index (migrations/0008_tools_fts.sql).
+ *
+ * A tool matches when its English row or its row for the requested locale
+ * matches, so localized searches still find tools that have not been
+ * translated yet.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../db';
+import { tools } from '../db/schema';
+import { DEFAULT_LOCALE, type Locale } from '../i18n/config';
+import { SNIPPET_OPEN, SNIPPET_CLOSE, formatSnippet } from './search-text.mjs';
+
+/** bm25 column weights, in tools_fts column order. */
+const BM25_WEIGHTS = '0, 0, 10, 3, 4, 3, 2, 2, 2, 2';
+const SNIPPET_TOKENS = 12;
+
+function searchLocales(locale: Locale): Locale[] {
+  return locale === DEFAULT_LOCALE ? [DEFAULT_LOCALE] : [locale, DEFAULT_LOCALE];
+}
+
+/** WHERE condition restricting tools to those matching an FTS5 expression. */
+export function ftsMatchSql(match: string, locale: Locale): SQL {
+  return sql`${tools.id} IN (
+    SELECT tool_id FROM tools_fts WHERE tools_fts MATCH ${match} AND locale IN ${searchLocales(locale)}
+  )`;
+}
+
+/** Best (lowest) bm25 rank of a tool across its searched rows. Lower is more relevant. */
+export function ftsRankSql(match: string, locale: Locale): SQL<number> {
+  return sql<number>`(
+    SELECT bm25(tools_fts, ${sql.raw(BM25_WEIGHTS)}) FROM tools_fts
+    WHERE tools_fts MATCH ${match} AND tool_id = ${tools.id} AND locale IN ${searchLocales(locale)}
+    ORDER BY 1 LIMIT 1
+  )`;
+}
+
+/**
+ * Load highlighted snippets (HTML with <mark>) for a page of matched tools,
+ * preferring the requested locale's row over the English one.
+ */
+export async function loadSearchSnippets(
+  db: Database,
+  match: string,
+  locale: Locale,
+  toolIds: number[]
+): Promise<Map<number, string>> {
+  const snippets = new Map<number, string>();
+  if (toolIds.length === 0) return snippets;
+
+  // bm25()/snippet() cannot run inside an aggregate, so rank rows in a
+  // materialized CTE first and pick the best row per tool afterwards.
+  const rows = await db.all<{ toolId: number; snippet: string | null }>(sql`
+    WITH matched AS MATERIALIZED (
+      SELECT
+        tool_id,
+        locale,
+        bm25(tools_fts, ${sql.raw(BM25_WEIGHTS)}) AS rank,
+        snippet(tools_fts, -1, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet
+      FROM tools_fts
+      WHERE tools_fts MATCH ${match}
+        AND locale IN ${searchLocales(locale)}
+        AND tool_id IN (SELECT value FROM json_each(${JSON.stringify(toolIds)}))
+    )
+    SELECT tool_id AS toolId, snippet FROM matched
+    ORDER BY locale = ${locale} DESC, rank ASC
+  `);
+
+  for (const row of rows) {
+    if (!snippets.has(row.toolId)) snippets.set(row.toolId, formatSnippet(row.snippet));
+  }
+  return snippets;
+}
@@ -0,0 +1,41 @@
+/**
+ * Follow-up work when an existing tool's URL changes (an approved edit
+ * suggestion or an admin revert): archive the new URL and give it a health
+ * check, so the tool page does not go on showing health for the old one.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { healthChecks, tools } from '../db/schema';
+import { archiveUrl } from './archive';
+import { checkHealth } from './health';
+
+/** Best-effort and slow; run it with waitUntil(). */
+export async function afterUrlChange(db: Database, env: Env, toolId: number, url: string): Promise<void> {
+  const archived =
+    env.ARCHIVE_ORG_ACCESS_KEY && env.ARCHIVE_ORG_SECRET_KEY
+      ? archiveUrl(url, env.ARCHIVE_ORG_ACCESS_KEY, env.ARCHIVE_ORG_SECRET_KEY)
+          .then(async (archiveUrlResult) => {
+            if (archiveUrlResult) {
+              await db.update(tools).set({ archiveUrl: archiveUrlResult }).where(eq(tools.id, toolId));
+            }
+          })
+          .catch(() => {
+            // Archive is best-effort; failure is non-critical
+          })
+      : Promise.resolve();
+
+  const checked = checkHealth(url, env.SITE_URL)
+    .then(async (result) => {
+      await db.insert(healthChecks).values({
+        toolId,
+        checkedAt: new Date(),
+        isOnline: result.isOnline,
+        httpStatus: result.httpStatus,
+        responseTimeMs: result.responseTimeMs,
+      });
+    })
+    .catch(() => {});
+
+  await Promise.all([archived, checked]);
+}
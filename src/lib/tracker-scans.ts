@@ -0,0 +1,30 @@
+/**
+ * Stored tracker scans (tracker_scans). The cron worker scans approved tools'
+ * landing pages weekly; the catalog and the tag rules live in trackers.mjs.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { trackerScans } from '../db/schema';
+import type { CookieFinding, TrackerFinding } from './trackers.mjs';
+
+export interface StoredTrackerScan {
+  scannedAt: Date;
+  trackers: TrackerFinding[];
+  cookies: CookieFinding[];
+}
+
+/** The latest scan of a tool, or null if it has not been scanned yet. */
+export async function loadTrackerScan(db: Database, toolId: number): Promise<StoredTrackerScan | null> {
+  const [row] = await db
+    .select()
+    .from(trackerScans)
+    .where(eq(trackerScans.toolId, toolId))
+    .limit(1);
+  if (!row) return null;
+  return {
+    scannedAt: row.scannedAt,
+    trackers: JSON.parse(row.trackers),
+    cookies: JSON.parse(row.cookies),
+  };
+}
@@ -0,0 +1,197 @@
+// Known third-party trackers and how to spot them in a page. The cron
+// worker's tracker scan (workers/cron/src/index.ts keeps an inline copy of
+// this catalog) stores what it finds in tracker_scans, the tool page shows
+// it, and proposePrivacyTags() turns it into tag corrections for review.
+// login-wall.mjs reports the same trackers as informational evidence.
+//
+// Cookieless, aggregate-only analytics (Plausible, Fathom, GoatCounter,
+// Cloudflare Web Analytics) are deliberately not listed.
+
+/**
+ * @typedef {(typeof TRACKER_CATEGORIES)[number]} TrackerCategory
+ * @typedef {{ name: string, category: TrackerCategory, hosts: string[], thirdPartyCookies: boolean }} TrackerFinding
+ * @typedef {{ name: string, tracker: string }} CookieFinding
+ * @typedef {{ trackers: TrackerFinding[], cookies: CookieFinding[] }} TrackerScan
+ * @typedef {{ key: string, value: string }} Tag
+ */
+
+export const TRACKER_CATEGORIES = /** @type {const} */ (['analytics', 'advertising', 'session-replay', 'social']);
+
+/** Categories that rule out the "Privacy Focused" tag, not just "No Trackers". */
+const INVASIVE_CATEGORIES = new Set(['advertising', 'session-replay']);
+
+/**
+ * Tracker catalog. `match` entries are a domain (subdomains included),
+ * optionally followed by a path prefix, as in "facebook.com/tr".
+ * @type {{ name: string, category: TrackerCategory, match: string[], thirdPartyCookies?: boolean }[]}
+ */
+const KNOWN_TRACKERS = [
+  { name: 'Google Tag Manager', category: 'analytics', match: ['googletagmanager.com'] },
+  { name: 'Google Analytics', category: 'analytics', match: ['google-analytics.com', 'analytics.google.com'] },
+  { name: 'Meta Pixel', category: 'advertising', match: ['connect.facebook.net', 'facebook.com/tr'], thirdPartyCookies: true },
+  { name: 'Hotjar', category: 'session-replay', match: ['hotjar.com', 'hotjar.io'] },
+  { name: 'Mixpanel', category: 'analytics', match: ['mxpnl.com', 'mixpanel.com'] },
+  { name: 'Segment', category: 'analytics', match: ['segment.com', 'segment.io'] },
+  { name: 'Amplitude', category: 'analytics', match: ['amplitude.com'] },
+  { name: 'Heap', category: 'analytics', match: ['heapanalytics.com'] },
+  { name: 'PostHog', category: 'analytics', match: ['posthog.com'] },
+  { name: 'Yandex Metrica', category: 'analytics', match: ['mc.yandex.ru', 'mc.yandex.com'] },
+  { name: 'Microsoft Clarity', category: 'session-replay', match: ['clarity.ms'] },
+  { name: 'FullStory', category: 'session-replay', match: ['fullstory.com'] },
+  { name: 'Google Ad Manager', category: 'advertising', match: ['doubleclick.net', 'googletagservices.com'], thirdPartyCookies: true },
+  { name: 'Google AdSense', category: 'advertising', match: ['googlesyndication.com', 'googleadservices.com'], thirdPartyCookies: true },
+  { name: 'Microsoft Advertising', category: 'advertising', match: ['bat.bing.com'], thirdPartyCookies: true },
+  { name: 'TikTok Pixel', category: 'advertising', match: ['analytics.tiktok.com'], thirdPartyCookies: true },
+  { name: 'LinkedIn Insight', category: 'advertising', match: ['snap.licdn.com', 'px.ads.linkedin.com'], thirdPartyCookies: true },
+  { name: 'X Pixel', category: 'advertising', match: ['static.ads-twitter.com', 'analytics.twitter.com'], thirdPartyCookies: true },
+  { name: 'Amazon Ads', category: 'advertising', match: ['amazon-adsystem.com'], thirdPartyCookies: true },
+  { name: 'Criteo', category: 'advertising', match: ['criteo.com', 'criteo.net'], thirdPartyCookies: true },
+  { name: 'Taboola', category: 'advertising', match: ['taboola.com'], thirdPartyCookies: true },
+  { name: 'Outbrain', category: 'advertising', match: ['outbrain.com'], thirdPartyCookies: true },
+  { name: 'AddThis', category: 'social', match: ['addthis.com'], thirdPartyCookies: true },
+  { name: 'ShareThis', category: 'social', match: ['sharethis.com'], thirdPartyCookies: true },
+];
+
+/** First-party cookies that trackers set through the site itself, by name. */
+const TRACKING_COOKIES = [
+  { pattern: /^_ga(?:_|$)|^_gid$/, tracker: 'Google Analytics' },
+  { pattern: /^_gcl_/, tracker: 'Google Ads' },
+  { pattern: /^_fbp$|^_fbc$/, tracker: 'Meta Pixel' },
+  { pattern: /^_hj/, tracker: 'Hotjar' },
+  { pattern: /^mp_/, tracker: 'Mixpanel' },
+  { pattern: /^ajs_/, tracker: 'Segment' },
+  { pattern: /^amp_/, tracker: 'Amplitude' },
+  { pattern: /^_clck$|^_clsk$/, tracker: 'Microsoft Clarity' },
+  { pattern: /^_uet(?:sid|vid)$/, tracker: 'Microsoft Advertising' },
+  { pattern: /^_ym_/, tracker: 'Yandex Metrica' },
+];
+
+/**
+ * URLs a page loads: src attributes of scripts, images and iframes, plus
+ * URLs inside inline scripts (loader snippets such as Google Tag Manager's).
+ * Links are not included; linking to a tracker's site loads nothing.
+ * @param {string} html
+ * @returns {URL[]}
+ */
+function loadedUrls(html) {
+  /** @type {URL[]} */
+  const urls = [];
+  /** @param {string} value */
+  const add = (value) => {
+    try {
+      urls.push(new URL(value.startsWith('//') ? `https:${value}` : value));
+    } catch {
+      // Relative or malformed; first-party either way
+    }
+  };
+
+  for (const match of html.matchAll(/<(?:script|img|iframe)\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi)) {
+    add(match[1]);
+  }
+  for (const match of html.matchAll(/<script\b(?![^>]*\bsrc\s*=)[^>]*>([\s\S]*?)<\/script>/gi)) {
+    for (const url of match[1].matchAll(/(?:https?:)?\/\/[a-z0-9.-]+\.[a-z]{2,}(?:\/[^\s"'`)<>]*)?/gi)) {
+      add(url[0]);
+    }
+  }
+  return urls;
+}
+
+/**
+ * @param {URL} url
+ * @param {string} pattern domain with an optional path prefix
+ */
+function matchesPattern(url, pattern) {
+  const slash = pattern.indexOf('/');
+  const domain = slash === -1 ? pattern : pattern.slice(0, slash);
+  const host = url.hostname.toLowerCase();
+  if (host !== domain && !host.endsWith(`.${domain}`)) return false;
+  return slash === -1 || url.pathname.startsWith(pattern.slice(slash));
+}
+
+/**
+ * Known trackers a page loads, in catalog order, with the hosts they were
+ * loaded from.
+ * @param {string} html
+ * @returns {TrackerFinding[]}
+ */
+export function detectTrackers(html) {
+  const urls = loadedUrls(html);
+  /** @type {TrackerFinding[]} */
+  const found = [];
+  for (const tracker of KNOWN_TRACKERS) {
+    const hosts = new Set();
+    for (const url of urls) {
+      if (tracker.match.some((pattern) => matchesPattern(url, pattern))) hosts.add(url.hostname.toLowerCase());
+    }
+    if (hosts.size > 0) {
+      found.push({
+        name: tracker.name,
+        category: tracker.category,
+        hosts: [...hosts].sort(),
+        thirdPartyCookies: tracker.thirdPartyCookies === true,
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Tracking cookies among a response's Set-Cookie headers, once per name.
+ * @param {string[]} setCookieHeaders
+ * @returns {CookieFinding[]}
+ */
+export function detectTrackingCookies(setCookieHeaders) {
+  /** @type {CookieFinding[]} */
+  const found = [];
+  const seen = new Set();
+  for (const header of setCookieHeaders) {
+    const name = header.split('=', 1)[0].trim();
+    if (!name || seen.has(name)) continue;
+    const known = TRACKING_COOKIES.find((cookie) => cookie.pattern.test(name));
+    if (!known) continue;
+    seen.add(name);
+    found.push({ name, tracker: known.tracker });
+  }
+  return found;
+}
+
+/**
+ * Trackers loaded by a page and tracking cookies set with it.
+ * @param {string} html
+ * @param {string[]} [setCookieHeaders]
+ * @returns {TrackerScan}
+ */
+export function scanForTrackers(html, setCookieHeaders = []) {
+  return { trackers: detectTrackers(html), cookies: detectTrackingCookies(setCookieHeaders) };
+}
+
+/**
+ * Privacy tags that a scan contradicts, as a corrected tag list for an edit
+ * suggestion: "No Trackers" goes when anything was found, "Privacy Focused"
+ * when advertising or session-recording trackers were found. Like any tags
+ * suggestion, the list leaves out the source tag, which approval re-derives.
+ * Returns null when the tags are consistent with the scan.
+ *
+ * Tags are only ever removed. A clean scan of the landing page's HTML does
+ * not prove there are no trackers: scripts can be injected at runtime or
+ * only on other pages.
+ * @param {Tag[]} tags the tool's current tags
+ * @param {TrackerScan} scan
+ * @returns {{ tags: Tag[], reason: string } | null}
+ */
+export function proposePrivacyTags(tags, scan) {
+  const names = [...new Set([...scan.trackers.map((t) => t.name), ...scan.cookies.map((c) => c.tracker)])];
+  if (names.length === 0) return null;
+
+  const invasive = scan.trackers.some((t) => INVASIVE_CATEGORIES.has(t.category));
+  const remove = new Set(['No Trackers']);
+  if (invasive) remove.add('Privacy Focused');
+
+  const removed = tags.filter((tag) => tag.key === 'privacy' && remove.has(tag.value));
+  if (removed.length === 0) return null;
+
+  return {
+    tags: tags.filter((tag) => tag.key !== 'source' && !removed.includes(tag)),
+    reason: `Automated tracker scan found ${names.join(', ')} on the landing page, which contradicts ${removed.map((tag) => `"${tag.value}"`).join(' and ')}.`,
+  };
+}
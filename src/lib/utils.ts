@@ -7,11 +7,60 @@ export function urlToSlug(url: string): string {
     .replace(/^-+|-+$/g, '');
 }
 
-export async function hashIp(ip: string): Promise<string> {
-  const salt = 'nologin-tools-2026';
-  const data = new TextEncoder().encode(salt + ip);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(hash))
+const encoder = new TextEncoder();
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * The key all IP hashes are derived from. Without IP_HASH_SECRET they would be
+ * keyed by a public constant, and anyone could brute-force the IPv4 space
+ * against stored hashes, so refuse to hash at all.
+ */
+function ipHashKey(secret: string): BufferSource {
+  if (!secret) throw new Error('IP_HASH_SECRET is not set; refusing to hash IP addresses.');
+  return encoder.encode(secret);
+}
+
+/**
+ * Pseudonymous id for spotting repeat submitters: an HMAC-SHA256 of the
+ * address under a key derived from IP_HASH_SECRET and the UTC date. The key
+ * changes at midnight, so stored hashes only link requests made on the same
+ * day, and the cron worker deletes them once they are older than the longest
+ * rate-limit window.
+ */
+export async function hashIp(ip: string, secret: string, now = new Date()): Promise<string> {
+  const day = now.toISOString().slice(0, 10);
+  const dayKey = await hmac(ipHashKey(secret), `ip-hash.${day}`);
+  return toHex(await hmac(dayKey, ip));
+}
+
+/**
+ * Pseudonymous id for per-IP rate-limit buckets: like hashIp, but its key does
+ * not change at midnight, so quotas run for their whole window. The cron
+ * worker deletes a bucket once it has refilled, so the hash is kept no longer
+ * than the bucket's window.
+ */
+export async function hashRateLimitClient(ip: string, secret: string): Promise<string> {
+  const clientKey = await hmac(ipHashKey(secret), 'rate-limit');
+  return toHex(await hmac(clientKey, ip));
+}
+
+/**
+ * Pseudonymous id of an edit suggestion's source, for Block Source: like
+ * hashIp, but its key is derived from IP_HASH_SECRET alone and does not change
+ * at midnight. Suggestions keep it only as long as their IP hash; a block keeps
+ * it in edit_source_blocks until the block expires.
+ */
+export async function hashEditSource(ip: string, secret: string): Promise<string> {
+  const sourceKey = await hmac(ipHashKey(secret), 'edit-source');
+  return toHex(await hmac(sourceKey, ip));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
 }
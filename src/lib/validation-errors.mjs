@@ -0,0 +1,26 @@
+// Request validation errors as the API reports them: one message per
+// top-level field, which is what the forms map onto their inputs.
+// validateBody() in schemas.ts builds them from zod issues.
+
+/**
+ * @typedef {{ path: (string | number)[], message: string, code: string, params?: Record<string, string | number> }} ValidationIssue
+ * @typedef {(key: string, params?: Record<string, string | number>) => string} Translate
+ */
+
+/**
+ * The first issue per top-level field, translated; issues about the body as a
+ * whole are keyed `body`. Only custom issues carry message params.
+ * @param {ValidationIssue[]} issues
+ * @param {Translate} translate
+ * @returns {{ errors: Record<string, string>, message: string }}
+ */
+export function collectValidationErrors(issues, translate) {
+  /** @type {Record<string, string>} */
+  const errors = {};
+  for (const issue of issues) {
+    const key = issue.path.length > 0 ? String(issue.path[0]) : 'body';
+    if (key in errors) continue;
+    errors[key] = translate(issue.message, issue.code === 'custom' ? issue.params : undefined);
+  }
+  return { errors, message: Object.values(errors)[0] };
+}
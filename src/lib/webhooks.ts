@@ -0,0 +1,175 @@
+/**
+ * Outbound webhook subscriptions. Events are queued as rows in
+ * webhook_deliveries; the cron worker signs and sends them, retrying with
+ * backoff (see runWebhookDeliveries in workers/cron). The worker cannot import
+ * src/lib, so it keeps its own copy of enqueueing for the events it produces —
+ * keep the payload shape here and there in sync.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import type { Database } from '../db';
+import { tools, tags, webhooks, webhookDeliveries } from '../db/schema';
+
+export const WEBHOOK_EVENTS = ['tool.approved', 'tool.offline', 'tool.badge_lost'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent only by the admin "Send test" button; not subscribable. */
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-NoLogin-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-NoLogin-Timestamp';
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent | typeof WEBHOOK_PING_EVENT;
+  createdAt: string;
+  tool: {
+    id: number;
+    slug: string;
+    name: string;
+    url: string;
+    pageUrl: string;
+    categories: string[];
+  } | null;
+  data: Record<string, unknown>;
+}
+
+/** Signing secret shown once to the admin; receivers verify X-NoLogin-Signature with it. */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Queue an event for every active subscription that wants it. A subscription
+ * with categories only receives events for tools tagged with one of them.
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueWebhookEvent(
+  db: Database,
+  siteUrl: string,
+  event: WebhookEvent,
+  toolId: number,
+  data: Record<string, unknown> = {}
+): Promise<number> {
+  const subscriptions = await db.select().from(webhooks).where(eq(webhooks.isActive, true));
+  const interested = subscriptions.filter((w) => parseJsonArray(w.events).includes(event));
+  if (interested.length === 0) return 0;
+
+  const [tool] = await db
+    .select({ id: tools.id, slug: tools.slug, name: tools.name, url: tools.url })
+    .from(tools)
+    .where(eq(tools.id, toolId))
+    .limit(1);
+  if (!tool) return 0;
+
+  const categoryRows = await db
+    .select({ value: tags.tagValue })
+    .from(tags)
+    .where(and(eq(tags.toolId, toolId), eq(tags.tagKey, 'category')));
+  const categories = categoryRows.map((row) => row.value);
+
+  const targets = interested.filter((w) => {
+    const wanted = w.categories ? parseJsonArray(w.categories) : [];
+    return wanted.length === 0 || wanted.some((c) => categories.includes(c));
+  });
+  if (targets.length === 0) return 0;
+
+  const now = new Date();
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    type: event,
+    createdAt: now.toISOString(),
+    tool: { ...tool, pageUrl: `${siteUrl}/tool/${tool.slug}`, categories },
+    data,
+  };
+  await insertDeliveries(db, targets.map((w) => w.id), payload, toolId, now);
+  return targets.length;
+}
+
+/**
+ * enqueueWebhookEvent() for several tools whose categories are known, such as
+ * a bulk import: subscriptions are read once and the deliveries queued in one
+ * batch. Returns the number of deliveries queued.
+ */
+export async function enqueueWebhookEvents(
+  db: Database,
+  siteUrl: string,
+  event: WebhookEvent,
+  eventTools: { id: number; slug: string; name: string; url: string; categories: string[] }[],
+  data: Record<string, unknown> = {}
+): Promise<number> {
+  const subscriptions = await db.select().from(webhooks).where(eq(webhooks.isActive, true));
+  const interested = subscriptions.filter((w) => parseJsonArray(w.events).includes(event));
+  if (interested.length === 0) return 0;
+
+  const now = new Date();
+  const inserts = [];
+  let queued = 0;
+  for (const { categories, ...tool } of eventTools) {
+    const targets = interested.filter((w) => {
+      const wanted = w.categories ? parseJsonArray(w.categories) : [];
+      return wanted.length === 0 || wanted.some((c) => categories.includes(c));
+    });
+    if (targets.length === 0) continue;
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      type: event,
+      createdAt: now.toISOString(),
+      tool: { ...tool, pageUrl: `${siteUrl}/tool/${tool.slug}`, categories },
+      data,
+    };
+    inserts.push(insertDeliveries(db, targets.map((w) => w.id), payload, tool.id, now));
+    queued += targets.length;
+  }
+  const [first, ...rest] = inserts;
+  if (first) await db.batch([first, ...rest]);
+  return queued;
+}
+
+/** Queue a ping to one subscription so the admin can check the receiver. */
+export async function enqueueWebhookPing(db: Database, webhookId: number): Promise<void> {
+  const now = new Date();
+  await insertDeliveries(db, [webhookId], {
+    id: crypto.randomUUID(),
+    type: WEBHOOK_PING_EVENT,
+    createdAt: now.toISOString(),
+    tool: null,
+    data: {},
+  }, null, now);
+}
+
+function insertDeliveries(db: Database, webhookIds: number[], payload: WebhookPayload, toolId: number | null, now: Date) {
+  const body = JSON.stringify(payload);
+  return db.insert(webhookDeliveries).values(
+    webhookIds.map((webhookId) => ({
+      webhookId,
+      eventType: payload.type,
+      toolId,
+      payload: body,
+      status: 'pending' as const,
+      nextAttemptAt: now,
+      createdAt: now,
+    }))
+  );
+}
+
+/** Delivery log for the admin page, newest first. */
+export async function loadRecentDeliveries(db: Database, webhookId: number | null, limit = 50) {
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(webhookId !== null ? eq(webhookDeliveries.webhookId, webhookId) : undefined)
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+export function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
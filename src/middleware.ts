@@ -1,4 +1,16 @@
 import { defineMiddleware } from 'astro:middleware';
+import type { APIContext, MiddlewareNext } from 'astro';
+import { getDb } from './db';
+import { api } from './lib/api';
+import { getClientIp, hashRateLimitClient } from './lib/utils';
+import { findActiveApiKey, getRequestApiKey, touchApiKey, type ApiKey } from './lib/api-keys';
+import {
+  consumeToken,
+  rateLimitHeaders,
+  refundToken,
+  resolveRateLimitPolicy,
+  type RateLimitResult,
+} from './lib/rate-limit';
 
 const ISR_CACHE_TTL = 21600; // 6 hours in seconds
 
@@ -10,6 +22,11 @@ const ISR_REGEX = new RegExp(`^${LOCALE_PREFIX}\\/(?:tool|badge)\\/[^/]+\\/?$`);
 // Paths that should never be redirected
 const SKIP_REDIRECT_REGEX = /^\/(api|admin|ssr|_astro)\//;
 const HAS_EXTENSION_REGEX = /\.\w+$/;
+// English-only pages with no /[lang]/ counterpart; never send them to one
+const UNLOCALIZED_REGEX = /^\/(?:submit\/(?:success|status)|unsubscribe)(?:\/|$)/;
+
+// API paths outside the rate limiter
+const RATE_LIMIT_EXEMPT_REGEX = /^\/api\/(admin|og)\//;
 
 export const onRequest = defineMiddleware(async (context, next) => {
   const { request, url } = context;
@@ -25,6 +42,14 @@ export const onRequest = defineMiddleware(async (context, next) => {
     });
   }
 
+  // API keys and rate limits for /api/*. Admin endpoints are secret-protected;
+  // OG images are fetched by link-preview crawlers that share IPs.
+  if (pathname.startsWith('/api/') && !RATE_LIMIT_EXEMPT_REGEX.test(pathname)) {
+    // No runtime (and nothing to limit) when prerendering at build time
+    const env = (context.locals as any).runtime?.env as Env | undefined;
+    if (env?.DB) return withRateLimit(context, next, env);
+  }
+
   // Trailing slash normalization: /path/ → /path (301, GET only to avoid breaking POST forms)
   if (request.method === 'GET' && pathname !== '/' && pathname.endsWith('/') && !SKIP_REDIRECT_REGEX.test(pathname)) {
     const cleanPath = pathname.replace(/\/+$/, '');
@@ -35,7 +60,12 @@ export const onRequest = defineMiddleware(async (context, next) => {
   }
 
   // Accept-Language redirect for paths without locale prefix
-  if (request.method === 'GET' && !SKIP_REDIRECT_REGEX.test(pathname) && !HAS_EXTENSION_REGEX.test(pathname)) {
+  if (
+    request.method === 'GET' &&
+    !SKIP_REDIRECT_REGEX.test(pathname) &&
+    !HAS_EXTENSION_REGEX.test(pathname) &&
+    !UNLOCALIZED_REGEX.test(pathname)
+  ) {
     const firstSegment = pathname.split('/').filter(Boolean)[0];
     const hasLocalePrefix = firstSegment && NON_DEFAULT_LOCALES.includes(firstSegment);
 
@@ -145,6 +175,63 @@ export const onRequest = defineMiddleware(async (context, next) => {
   return withContentLanguage(response, pathname);
 });
 
+async function withRateLimit(context: APIContext, next: MiddlewareNext, env: Env): Promise<Response> {
+  const { request, url } = context;
+  const db = getDb(env.DB);
+
+  let apiKey: ApiKey | null = null;
+  const sentKey = getRequestApiKey(request);
+  if (sentKey) {
+    apiKey = await findActiveApiKey(db, sentKey);
+    if (!apiKey) return api.error('Invalid or revoked API key.', 401);
+  }
+
+  const clientHash = await hashRateLimitClient(getClientIp(request), env.IP_HASH_SECRET);
+  const policy = resolveRateLimitPolicy(env, request, url.pathname, clientHash, apiKey);
+
+  let result: RateLimitResult;
+  try {
+    result = await consumeToken(db, policy);
+  } catch (err) {
+    // Fail open: a limiter error should not take the API down
+    console.error('[rate-limit] error:', err);
+    return next();
+  }
+
+  if (!result.allowed) {
+    return withHeaders(api.error(policy.message, 429), rateLimitHeaders(result));
+  }
+
+  if (apiKey) {
+    context.locals.runtime.ctx.waitUntil(touchApiKey(db, apiKey));
+  }
+
+  const response = await next();
+
+  if (policy.chargeOn === 'success' && !response.ok) {
+    try {
+      await refundToken(db, policy);
+      result = { ...result, remaining: Math.min(result.limit, result.remaining + 1) };
+    } catch (err) {
+      console.error('[rate-limit] error:', err);
+    }
+  }
+
+  return withHeaders(response, rateLimitHeaders(result));
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const newResponse = new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+  });
+  for (const [name, value] of Object.entries(headers)) {
+    newResponse.headers.set(name, value);
+  }
+  return newResponse;
+}
+
 function getLocaleFromPath(pathname: string): string {
   const firstSegment = pathname.split('/').filter(Boolean)[0];
   if (firstSegment && NON_DEFAULT_LOCALES.includes(firstSegment)) {
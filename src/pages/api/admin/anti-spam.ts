@@ -0,0 +1,40 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { api } from '../../../lib/api';
+import { loadBlockedSubmissions, loadSpamSettings, saveSpamSettings } from '../../../lib/spam-checks';
+import { validateBody, antiSpamRequestSchema } from '../../../lib/schemas';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(antiSpamRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const input = validated.data;
+
+  if (input.action === 'get') {
+    const [settings, blocked] = await Promise.all([loadSpamSettings(db), loadBlockedSubmissions(db)]);
+    return api.success({ settings, blocked });
+  }
+
+  // update
+  await saveSpamSettings(db, input.settings);
+  return api.success({ settings: input.settings });
+};
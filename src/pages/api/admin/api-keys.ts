@@ -0,0 +1,80 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { apiKeys } from '../../../db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { api } from '../../../lib/api';
+import { generateApiKey, hashApiKey } from '../../../lib/api-keys';
+import { validateBody, apiKeysRequestSchema } from '../../../lib/schemas';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(apiKeysRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const input = validated.data;
+
+  if (input.action === 'list') {
+    const keys = await db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        keyPrefix: apiKeys.keyPrefix,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+        createdAt: apiKeys.createdAt,
+        lastUsedAt: apiKeys.lastUsedAt,
+        revokedAt: apiKeys.revokedAt,
+      })
+      .from(apiKeys)
+      .orderBy(desc(apiKeys.createdAt));
+    return api.success({ keys });
+  }
+
+  if (input.action === 'create') {
+    // The key itself is only ever returned here
+    const { key, prefix } = generateApiKey();
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        name: input.name,
+        keyPrefix: prefix,
+        keyHash: await hashApiKey(key),
+        rateLimitPerMinute: input.rateLimitPerMinute,
+        createdAt: new Date(),
+      })
+      .returning({ id: apiKeys.id });
+
+    return api.success({ keyId: created.id, key }, 201);
+  }
+
+  // revoke
+  const { keyId } = input;
+  const [existing] = await db
+    .select({ id: apiKeys.id, revokedAt: apiKeys.revokedAt })
+    .from(apiKeys)
+    .where(eq(apiKeys.id, keyId))
+    .limit(1);
+  if (!existing) return api.error('API key not found.', 404);
+
+  if (!existing.revokedAt) {
+    await db.update(apiKeys).set({ revokedAt: new Date() }).where(eq(apiKeys.id, keyId));
+  }
+  return api.success({ keyId, revoked: true });
+};
@@ -0,0 +1,50 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { api } from '../../../lib/api';
+import { TAG_DEFINITIONS } from '../../../lib/tags';
+import { importTools } from '../../../lib/tool-import';
+import { MAX_IMPORT_ROWS, parseImportInput } from '../../../lib/bulk-import.mjs';
+import { validateBody, bulkImportRequestSchema } from '../../../lib/schemas';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(bulkImportRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const { input, approve = false, dryRun = false, allowPossibleDuplicates = false } = validated.data;
+
+  const parsed = parseImportInput(input, TAG_DEFINITIONS.map((def) => def.key));
+  if ('error' in parsed) {
+    return api.error(parsed.error, 400, { input: parsed.error });
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    const message = `At most ${MAX_IMPORT_ROWS} tools per import; got ${parsed.rows.length}.`;
+    return api.error(message, 400, { input: message });
+  }
+
+  const results = await importTools(db, env, parsed.rows, { approve, dryRun, allowPossibleDuplicates });
+  const imported = results.filter((result) => result.status === 'imported').length;
+  if (imported > 0) {
+    console.log(`[Bulk import] Imported ${imported} of ${results.length} tools as ${approve ? 'approved' : 'pending'}`);
+  }
+
+  return api.success({ format: parsed.format, dryRun, imported, results });
+};
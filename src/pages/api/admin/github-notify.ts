@@ -5,6 +5,7 @@ import { getDb } from '../../../db';
 import { tools, githubNotifications } from '../../../db/schema';
 import { eq } from 'drizzle-orm';
 import { api } from '../../../lib/api';
+import { validateBody, githubNotifyRequestSchema } from '../../../lib/schemas';
 import { parseGitHubRepoUrl, createGitHubNotificationIssue } from '../../../lib/github';
 
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -18,15 +19,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, toolId, force } = body;
+  const { secret } = body;
 
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
-  if (!toolId || typeof toolId !== 'number') {
-    return api.error('toolId is required.', 400);
+  const validated = validateBody(githubNotifyRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
   }
+  const { toolId, force } = validated.data;
 
   const githubToken = env.GITHUB_TOKEN as string | undefined;
   if (!githubToken) {
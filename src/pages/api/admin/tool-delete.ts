@@ -5,6 +5,8 @@ import { getDb } from '../../../db';
 import { tools } from '../../../db/schema';
 import { eq } from 'drizzle-orm';
 import { api } from '../../../lib/api';
+import { validateBody, adminToolRequestSchema } from '../../../lib/schemas';
+import { recordToolChange } from '../../../lib/changes';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const env = locals.runtime.env;
@@ -17,19 +19,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, toolId } = body;
+  const { secret } = body;
 
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
-  if (!toolId || typeof toolId !== 'number') {
-    return api.error('toolId is required.', 400);
+  const validated = validateBody(adminToolRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
   }
+  const { toolId } = validated.data;
 
   // Verify tool exists
   const [tool] = await db
-    .select({ id: tools.id })
+    .select({ id: tools.id, slug: tools.slug, status: tools.status })
     .from(tools)
     .where(eq(tools.id, toolId))
     .limit(1);
@@ -41,5 +45,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
   // Delete tool (cascade will clean up tags, health_checks, badge_displays, edit_suggestions)
   await db.delete(tools).where(eq(tools.id, toolId));
 
+  await recordToolChange(db, {
+    type: 'removed',
+    toolId,
+    slug: tool.slug,
+    previousStatus: tool.status,
+  });
+
   return api.success({ toolId, deleted: true });
 };
@@ -5,6 +5,8 @@ import { getDb } from '../../../db';
 import { tools } from '../../../db/schema';
 import { eq } from 'drizzle-orm';
 import { api } from '../../../lib/api';
+import { validateBody, toolFeatureRequestSchema } from '../../../lib/schemas';
+import { recordToolChange } from '../../../lib/changes';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const env = locals.runtime.env;
@@ -17,18 +19,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, toolId, featured } = body;
+  const { secret } = body;
 
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
-  if (!toolId) return api.error('toolId is required.', 400);
-  if (typeof featured !== 'boolean') return api.error('featured must be a boolean.', 400);
+  const validated = validateBody(toolFeatureRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const { toolId, featured } = validated.data;
 
   // Verify tool exists and is approved
   const [tool] = await db
-    .select({ id: tools.id, status: tools.status })
+    .select({ id: tools.id, slug: tools.slug, status: tools.status, isFeatured: tools.isFeatured })
     .from(tools)
     .where(eq(tools.id, toolId))
     .limit(1);
@@ -46,5 +51,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
     })
     .where(eq(tools.id, toolId));
 
+  if (tool.isFeatured !== featured) {
+    await recordToolChange(db, {
+      type: 'updated',
+      toolId,
+      slug: tool.slug,
+      status: tool.status,
+      changedFields: ['isFeatured'],
+    });
+  }
+
   return api.success({ toolId, featured });
 };
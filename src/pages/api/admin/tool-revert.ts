@@ -0,0 +1,161 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { tools, tags } from '../../../db/schema';
+import { eq, and, ne } from 'drizzle-orm';
+import { urlToSlug } from '../../../lib/utils';
+import { api } from '../../../lib/api';
+import { parseGitHubRepoUrl, fetchGitHubRepoData } from '../../../lib/github';
+import { recordToolChange } from '../../../lib/changes';
+import { loadSnapshot, recordRevision } from '../../../lib/tool-revisions';
+import { buildSnapshot, diffSnapshots } from '../../../lib/revisions.mjs';
+import { validateBody, toolRevertRequestSchema } from '../../../lib/schemas';
+import { withSourceTag } from '../../../lib/tool-input';
+import { afterUrlChange } from '../../../lib/tool-url';
+import { DEFAULT_LOCALE } from '../../../i18n/config';
+import { t } from '../../../i18n/utils';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(toolRevertRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const { toolId, revisionId } = validated.data;
+
+  const [tool] = await db
+    .select()
+    .from(tools)
+    .where(eq(tools.id, toolId))
+    .limit(1);
+  if (!tool) {
+    return api.error('Tool not found.', 404);
+  }
+
+  const snapshot = await loadSnapshot(db, toolId, revisionId);
+  if (!snapshot) {
+    return api.error('Revision not found.', 404);
+  }
+
+  // The URL may have been taken by another tool since
+  const slug = urlToSlug(snapshot.url!);
+  if (slug !== tool.slug) {
+    const [conflict] = await db
+      .select({ id: tools.id })
+      .from(tools)
+      .where(and(eq(tools.slug, slug), ne(tools.id, toolId)))
+      .limit(1);
+    if (conflict) {
+      return api.error(t(DEFAULT_LOCALE, 'validation.failed'), 409, { url: t(DEFAULT_LOCALE, 'validation.urlTaken') });
+    }
+  }
+
+  const currentTags = await db
+    .select({ key: tags.tagKey, value: tags.tagValue })
+    .from(tags)
+    .where(eq(tags.toolId, toolId));
+  const { tags: snapshotTags, ...fields } = snapshot;
+  const changedFields: string[] = diffSnapshots(buildSnapshot(tool, currentTags), snapshot);
+  if (slug !== tool.slug) changedFields.push('slug');
+
+  // Restore every snapshotted field; the source tag follows the restored repo URL
+  const repoChanged = fields.repoUrl !== tool.repoUrl;
+  await db
+    .update(tools)
+    .set({
+      ...fields,
+      name: fields.name!,
+      url: fields.url!,
+      coreTask: fields.coreTask ?? '',
+      slug,
+      ...(repoChanged && !fields.repoUrl && {
+        githubStars: null,
+        githubForks: null,
+        githubLicense: null,
+        githubLanguage: null,
+        githubUpdatedAt: null,
+        githubFetchedAt: null,
+      }),
+    })
+    .where(eq(tools.id, toolId));
+
+  const restoredTags = withSourceTag(snapshotTags, fields.repoUrl);
+  await db.delete(tags).where(eq(tags.toolId, toolId));
+  if (restoredTags.length > 0) {
+    await db.insert(tags).values(
+      restoredTags.map((tag) => ({
+        toolId,
+        tagKey: tag.key,
+        tagValue: tag.value,
+      }))
+    );
+  }
+
+  await recordRevision(db, toolId, 'revert', revisionId);
+
+  if (changedFields.length > 0) {
+    await recordToolChange(db, {
+      type: 'updated',
+      toolId,
+      slug,
+      status: tool.status,
+      changedFields,
+    });
+  }
+
+  if (fields.url !== tool.url) {
+    locals.runtime.ctx.waitUntil(afterUrlChange(db, env, toolId, fields.url!));
+  }
+
+  // Fetch GitHub data for the restored repo asynchronously
+  const repo = repoChanged && fields.repoUrl ? parseGitHubRepoUrl(fields.repoUrl) : null;
+  if (repo) {
+    locals.runtime.ctx.waitUntil(
+      fetchGitHubRepoData(repo.owner, repo.repo)
+        .then(async (data) => {
+          if (data) {
+            await db
+              .update(tools)
+              .set({
+                githubStars: data.stars,
+                githubForks: data.forks,
+                githubLicense: data.license,
+                githubLanguage: data.language,
+                githubUpdatedAt: data.updatedAt,
+                githubFetchedAt: new Date(),
+              })
+              .where(eq(tools.id, toolId));
+            await recordToolChange(db, {
+              type: 'updated',
+              toolId,
+              slug,
+              status: tool.status,
+              changedFields: ['githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt'],
+            });
+            console.log(`[ToolRevert] GitHub data saved for tool #${toolId}`);
+          }
+        })
+        .catch((err) => {
+          console.error(`[ToolRevert] GitHub data fetch/save failed:`, err);
+        })
+    );
+  }
+
+  return api.success({ toolId, slug, changedFields });
+};
@@ -0,0 +1,41 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { tools } from '../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { api } from '../../../lib/api';
+import { validateBody, adminToolRequestSchema } from '../../../lib/schemas';
+import { listRevisions } from '../../../lib/tool-revisions';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(adminToolRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const { toolId } = validated.data;
+
+  const [tool] = await db.select({ id: tools.id }).from(tools).where(eq(tools.id, toolId)).limit(1);
+  if (!tool) {
+    return api.error('Tool not found.', 404);
+  }
+
+  const revisions = await listRevisions(db, toolId, { withSnapshots: true });
+  return api.success({ toolId, revisions });
+};
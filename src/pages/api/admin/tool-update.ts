@@ -6,9 +6,13 @@ import { tools, tags } from '../../../db/schema';
 import { eq, and, ne } from 'drizzle-orm';
 import { urlToSlug } from '../../../lib/utils';
 import { api } from '../../../lib/api';
-import { TAG_DEFINITIONS } from '../../../lib/tags';
-import { validateTwitterUrl, validateGitHubProfileUrl, validateDiscordUrl, validateRepoUrl, parseGitHubRepoUrl, fetchGitHubRepoData } from '../../../lib/github';
-import { SEO_INTENTS, includesNoLoginIntent } from '../../../lib/tool-seo.mjs';
+import { parseGitHubRepoUrl, fetchGitHubRepoData } from '../../../lib/github';
+import { recordToolChange } from '../../../lib/changes';
+import { recordRevision } from '../../../lib/tool-revisions';
+import { validateBody, toolUpdateRequestSchema } from '../../../lib/schemas';
+import { withSourceTag } from '../../../lib/tool-input';
+import { DEFAULT_LOCALE } from '../../../i18n/config';
+import { t } from '../../../i18n/utils';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const env = locals.runtime.env;
@@ -21,15 +25,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, toolId } = body;
+  const { secret } = body;
 
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
-  if (!toolId || typeof toolId !== 'number') {
-    return api.error('toolId is required.', 400);
+  const validated = validateBody(toolUpdateRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error('Validation failed.', 400, validated.errors);
   }
+  const { secret: _secret, toolId, tags: submittedTags, refreshGithub, ...fields } = validated.data;
 
   // Fetch existing tool
   const [tool] = await db
@@ -42,183 +48,58 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Tool not found.', 404);
   }
 
-  // Build update fields
+  // Build update fields; blank links arrive as null and clear the column
   const updateData: Record<string, any> = {};
-  const errors: Record<string, string> = {};
-
-  if (body.name !== undefined) {
-    const name = String(body.name).trim();
-    if (name.length < 2 || name.length > 100) {
-      errors.name = 'Name must be between 2 and 100 characters.';
-    } else {
-      updateData.name = name;
-    }
-  }
-
-  if (body.url !== undefined) {
-    const url = String(body.url).trim();
-    try {
-      new URL(url);
-    } catch {
-      errors.url = 'Please enter a valid URL.';
-    }
-    if (!errors.url) {
-      updateData.url = url;
-      const newSlug = urlToSlug(url);
-      if (newSlug !== tool.slug) {
-        const conflict = await db
-          .select({ id: tools.id })
-          .from(tools)
-          .where(and(eq(tools.slug, newSlug), ne(tools.id, toolId)))
-          .limit(1);
-        if (conflict.length > 0) {
-          errors.url = 'A tool with this URL already exists.';
-        } else {
-          updateData.slug = newSlug;
-        }
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) updateData[key] = value;
+  }
+
+  if (updateData.url !== undefined) {
+    const newSlug = urlToSlug(updateData.url);
+    if (newSlug !== tool.slug) {
+      const conflict = await db
+        .select({ id: tools.id })
+        .from(tools)
+        .where(and(eq(tools.slug, newSlug), ne(tools.id, toolId)))
+        .limit(1);
+      if (conflict.length > 0) {
+        return api.error(t(DEFAULT_LOCALE, 'validation.failed'), 400, { url: t(DEFAULT_LOCALE, 'validation.urlTaken') });
       }
+      updateData.slug = newSlug;
     }
   }
 
-  if (body.description !== undefined) {
-    const desc = String(body.description).trim();
-    if (desc.length > 500) {
-      errors.description = 'Description must be max 500 characters.';
-    } else {
-      updateData.description = desc;
-    }
-  }
-
-  if (body.coreTask !== undefined) {
-    const ct = String(body.coreTask).trim();
-    if (ct.length > 200) {
-      errors.coreTask = 'Core task must be max 200 characters.';
-    } else {
-      updateData.coreTask = ct;
-    }
-  }
-
-  if (body.seoTitle !== undefined) {
-    const val = String(body.seoTitle).trim();
-    if (!val || val.length > 80) {
-      errors.seoTitle = 'SEO title is required and must be max 80 characters.';
-    } else {
-      updateData.seoTitle = val;
-    }
-  }
-
-  if (body.seoDescription !== undefined) {
-    const val = String(body.seoDescription).trim();
-    if (!val || val.length > 180) {
-      errors.seoDescription = 'SEO description is required and must be max 180 characters.';
-    } else {
-      updateData.seoDescription = val;
-    }
-  }
-
-  if (body.seoFocusKeyword !== undefined) {
-    const val = String(body.seoFocusKeyword).trim();
-    if (!val || val.length > 120) {
-      errors.seoFocusKeyword = 'SEO focus keyword is required and must be max 120 characters.';
-    } else {
-      updateData.seoFocusKeyword = val;
-    }
-  }
-
-  if (body.seoIntent !== undefined) {
-    const val = String(body.seoIntent).trim();
-    if (!SEO_INTENTS.includes(val)) {
-      errors.seoIntent = `SEO intent must be one of: ${SEO_INTENTS.join(', ')}.`;
-    } else {
-      updateData.seoIntent = val;
-    }
-  }
-
-  if (body.seoTaskPhrase !== undefined) {
-    const val = String(body.seoTaskPhrase).trim();
-    if (!val || val.length > 120 || !includesNoLoginIntent(val)) {
-      errors.seoTaskPhrase = 'SEO task phrase must be max 120 characters and explicitly mention the no-login angle.';
-    } else {
-      updateData.seoTaskPhrase = val;
-    }
-  }
-
-  if (body.repoUrl !== undefined) {
-    const val = String(body.repoUrl).trim();
-    if (val && !validateRepoUrl(val)) {
-      errors.repoUrl = 'Please enter a valid GitHub repository URL.';
-    } else {
-      updateData.repoUrl = val || null;
-    }
-  }
-
-  if (body.twitterUrl !== undefined) {
-    const val = String(body.twitterUrl).trim();
-    if (val && !validateTwitterUrl(val)) {
-      errors.twitterUrl = 'Please enter a valid Twitter/X URL.';
-    } else {
-      updateData.twitterUrl = val || null;
-    }
-  }
-
-  if (body.githubUrl !== undefined) {
-    const val = String(body.githubUrl).trim();
-    if (val && !validateGitHubProfileUrl(val)) {
-      errors.githubUrl = 'Please enter a valid GitHub URL.';
-    } else {
-      updateData.githubUrl = val || null;
-    }
-  }
-
-  if (body.discordUrl !== undefined) {
-    const val = String(body.discordUrl).trim();
-    if (val && !validateDiscordUrl(val)) {
-      errors.discordUrl = 'Please enter a valid Discord URL.';
-    } else {
-      updateData.discordUrl = val || null;
-    }
-  }
-
-  if (Object.keys(errors).length > 0) {
-    return api.error('Validation failed.', 400, errors);
-  }
-
   // Update tool fields
   if (Object.keys(updateData).length > 0) {
     await db.update(tools).set(updateData).where(eq(tools.id, toolId));
   }
+  const changedFields = Object.keys(updateData).filter(
+    (key) => updateData[key] !== tool[key as keyof typeof tool]
+  );
 
   // Update tags if provided
-  if (body.tags !== undefined && Array.isArray(body.tags)) {
-    const validTags: { key: string; value: string }[] = [];
-    for (const tag of body.tags) {
-      if (tag.key && tag.value) {
-        // Allow source tags (auto-derived) and TAG_DEFINITIONS tags
-        if (tag.key === 'source' && (tag.value === 'Open Source' || tag.value === 'Closed Source')) {
-          validTags.push({ key: tag.key, value: tag.value });
-        } else {
-          const def = TAG_DEFINITIONS.find((d) => d.key === tag.key);
-          if (def && def.values.includes(tag.value)) {
-            validTags.push({ key: tag.key, value: tag.value });
-          }
-        }
-      }
-    }
-
-    // Auto-derive source tag: remove existing source tags, add if repo_url present
-    const filteredTags = validTags.filter(t => t.key !== 'source');
+  if (submittedTags !== undefined) {
+    // Source tag is derived from the (possibly updated) repo URL
     const effectiveRepoUrl = updateData.repoUrl !== undefined ? updateData.repoUrl : tool.repoUrl;
-    if (effectiveRepoUrl) {
-      filteredTags.push({ key: 'source', value: 'Open Source' });
+    const filteredTags = withSourceTag(submittedTags, effectiveRepoUrl);
+
+    const oldTags = await db
+      .select({ tagKey: tags.tagKey, tagValue: tags.tagValue })
+      .from(tags)
+      .where(eq(tags.toolId, toolId));
+    const tagSignature = (list: { key: string; value: string }[]) =>
+      list.map((tag) => `${tag.key}:${tag.value}`).sort().join('|');
+    if (tagSignature(oldTags.map((tag) => ({ key: tag.tagKey, value: tag.tagValue }))) !== tagSignature(filteredTags)) {
+      changedFields.push('tags');
     }
 
     await db.delete(tags).where(eq(tags.toolId, toolId));
     if (filteredTags.length > 0) {
       await db.insert(tags).values(
-        filteredTags.map((t) => ({
+        filteredTags.map((tag) => ({
           toolId,
-          tagKey: t.key,
-          tagValue: t.value,
+          tagKey: tag.key,
+          tagValue: tag.value,
         }))
       );
     }
@@ -226,7 +107,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   // Refresh GitHub data if repo URL changed or explicitly requested
   const effectiveRepoUrl = updateData.repoUrl !== undefined ? updateData.repoUrl : tool.repoUrl;
-  if (body.refreshGithub || (updateData.repoUrl !== undefined && updateData.repoUrl !== tool.repoUrl)) {
+  if (refreshGithub || (updateData.repoUrl !== undefined && updateData.repoUrl !== tool.repoUrl)) {
     if (effectiveRepoUrl) {
       const parsed = parseGitHubRepoUrl(effectiveRepoUrl);
       if (parsed) {
@@ -246,6 +127,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
                     githubFetchedAt: new Date(),
                   })
                   .where(eq(tools.id, toolId));
+                await recordToolChange(db, {
+                  type: 'updated',
+                  toolId,
+                  slug: updateData.slug ?? tool.slug,
+                  status: tool.status,
+                  changedFields: ['githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt'],
+                });
                 console.log(`[ToolUpdate] GitHub data saved for tool #${toolId}`);
               }
             })
@@ -267,8 +155,23 @@ export const POST: APIRoute = async ({ request, locals }) => {
           githubFetchedAt: null,
         })
         .where(eq(tools.id, toolId));
+      if (tool.githubFetchedAt) {
+        changedFields.push('githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt');
+      }
     }
   }
 
+  await recordRevision(db, toolId, 'admin');
+
+  if (changedFields.length > 0) {
+    await recordToolChange(db, {
+      type: 'updated',
+      toolId,
+      slug: updateData.slug ?? tool.slug,
+      status: tool.status,
+      changedFields,
+    });
+  }
+
   return api.success({ toolId });
 };
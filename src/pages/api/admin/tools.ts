@@ -5,7 +5,11 @@ import { getDb } from '../../../db';
 import { tools, tags, healthChecks } from '../../../db/schema';
 import { eq, desc, like, or, sql, inArray } from 'drizzle-orm';
 import { api } from '../../../lib/api';
+import { validateBody, adminToolsListRequestSchema } from '../../../lib/schemas';
 import { HEALTH_TOLERANCE, resolveEffectiveStatus } from '../../../lib/health';
+import { findPossibleDuplicates } from '../../../lib/duplicates.mjs';
+import { loadLatestLoginChecks } from '../../../lib/login-checks';
+import { loadLatestSpamChecks } from '../../../lib/spam-checks';
 
 const PAGE_SIZE = 20;
 
@@ -20,12 +24,18 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, status, search, page = 1, featured } = body;
+  const { secret } = body;
 
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
+  const validated = validateBody(adminToolsListRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const { status, search, page = 1, featured } = validated.data;
+
   // Build conditions
   const conditions = [];
   if (status && status !== 'all') {
@@ -34,7 +44,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
   if (featured === true) {
     conditions.push(eq(tools.isFeatured, true));
   }
-  if (search && typeof search === 'string' && search.trim()) {
+  if (search?.trim()) {
     const term = `%${search.trim()}%`;
     conditions.push(
       or(
@@ -58,7 +68,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
   const total = countResult[0].count;
 
   // Fetch tools
-  const offset = (Math.max(1, Number(page)) - 1) * PAGE_SIZE;
+  const offset = (page - 1) * PAGE_SIZE;
   const toolList = await db
     .select()
     .from(tools)
@@ -88,6 +98,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
       ])
     : [[], []];
 
+  // Possible duplicates are only flagged while a tool awaits review
+  const hasPending = toolList.some((tool) => tool.status === 'pending');
+  const allToolRefs = hasPending
+    ? await db
+        .select({ id: tools.id, slug: tools.slug, name: tools.name, url: tools.url, status: tools.status })
+        .from(tools)
+    : [];
+
+  const loginCheckMap = await loadLatestLoginChecks(db, toolIds);
+  const spamCheckMap = await loadLatestSpamChecks(db, toolIds);
+
   // Build tag map
   const tagMap = new Map<number, { tagKey: string; tagValue: string }[]>();
   for (const tag of allTags) {
@@ -115,6 +136,9 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return {
       ...tool,
       tags: toolTags,
+      loginCheck: loginCheckMap.get(tool.id) ?? null,
+      spamCheck: spamCheckMap.get(tool.id) ?? null,
+      possibleDuplicates: tool.status === 'pending' ? findPossibleDuplicates(tool, allToolRefs) : [],
       latestHealth: latestHealth
         ? {
             ...latestHealth,
@@ -127,7 +151,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
   return api.success({
     tools: result,
     total,
-    page: Number(page),
+    page,
     pageSize: PAGE_SIZE,
     totalPages: Math.ceil(total / PAGE_SIZE),
   });
@@ -0,0 +1,125 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { webhooks, webhookDeliveries } from '../../../db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { api } from '../../../lib/api';
+import { validateBody, webhooksRequestSchema } from '../../../lib/schemas';
+import {
+  generateWebhookSecret,
+  enqueueWebhookPing,
+  loadRecentDeliveries,
+  parseJsonArray,
+} from '../../../lib/webhooks';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const env = locals.runtime.env;
+  const db = getDb(env.DB);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return api.error('Invalid JSON body.', 400);
+  }
+
+  const { secret } = body;
+
+  if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
+    return api.error('Unauthorized.', 401);
+  }
+
+  const validated = validateBody(webhooksRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const input = validated.data;
+
+  if (input.action === 'list') {
+    const rows = await db.select().from(webhooks).orderBy(desc(webhooks.createdAt));
+    return api.success({
+      webhooks: rows.map(({ secret: _secret, ...w }) => ({
+        ...w,
+        events: parseJsonArray(w.events),
+        categories: parseJsonArray(w.categories),
+      })),
+      deliveries: await loadRecentDeliveries(db, null),
+    });
+  }
+
+  if (input.action === 'create') {
+    // The signing secret is only ever returned here
+    const signingSecret = generateWebhookSecret();
+    const [created] = await db
+      .insert(webhooks)
+      .values({
+        url: input.url,
+        secret: signingSecret,
+        events: JSON.stringify(input.events),
+        categories: input.categories ? JSON.stringify(input.categories) : null,
+        description: input.description,
+        isActive: true,
+        createdAt: new Date(),
+      })
+      .returning({ id: webhooks.id });
+
+    return api.success({ webhookId: created.id, signingSecret }, 201);
+  }
+
+  const { webhookId } = input;
+
+  const [webhook] = await db
+    .select({ id: webhooks.id, isActive: webhooks.isActive })
+    .from(webhooks)
+    .where(eq(webhooks.id, webhookId))
+    .limit(1);
+  if (!webhook) return api.error('Webhook not found.', 404);
+
+  if (input.action === 'update') {
+    await db
+      .update(webhooks)
+      .set({
+        url: input.url,
+        events: JSON.stringify(input.events),
+        categories: input.categories ? JSON.stringify(input.categories) : null,
+        description: input.description,
+      })
+      .where(eq(webhooks.id, webhookId));
+
+    return api.success({ webhookId });
+  }
+
+  if (input.action === 'toggle') {
+    const { active } = input;
+    await db.update(webhooks).set({ isActive: active }).where(eq(webhooks.id, webhookId));
+    return api.success({ webhookId, active });
+  }
+
+  if (input.action === 'delete') {
+    // Deliveries go with it (ON DELETE CASCADE)
+    await db.delete(webhooks).where(eq(webhooks.id, webhookId));
+    return api.success({ webhookId, deleted: true });
+  }
+
+  if (input.action === 'test') {
+    await enqueueWebhookPing(db, webhookId);
+    return api.success({ webhookId, queued: true });
+  }
+
+  // redeliver
+  const { deliveryId } = input;
+  const [delivery] = await db
+    .select({ id: webhookDeliveries.id, webhookId: webhookDeliveries.webhookId })
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+  if (!delivery || delivery.webhookId !== webhookId) return api.error('Delivery not found.', 404);
+
+  await db
+    .update(webhookDeliveries)
+    .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), errorMessage: null })
+    .where(eq(webhookDeliveries.id, deliveryId));
+
+  return api.success({ deliveryId, status: 'pending' });
+};
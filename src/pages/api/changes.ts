@@ -0,0 +1,23 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../db';
+import { api } from '../../lib/api';
+import { PUBLIC_API_VERSION, PUBLIC_API_VERSION_HEADER } from '../../lib/public-tool';
+import { parseChangesQuery, listToolChanges } from '../../lib/changes';
+
+export const GET: APIRoute = async ({ locals, url }) => {
+  const db = getDb(locals.runtime.env.DB);
+
+  const parsed = parseChangesQuery(url.searchParams);
+  if ('errors' in parsed) {
+    return api.error('Invalid query parameters.', 400, parsed.errors);
+  }
+
+  const result = await listToolChanges(db, parsed.query);
+
+  return api.success(result, 200, {
+    [PUBLIC_API_VERSION_HEADER]: String(PUBLIC_API_VERSION),
+    'Cache-Control': 'no-cache',
+  });
+};
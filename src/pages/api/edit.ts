@@ -5,10 +5,13 @@ import { getDb } from '../../db';
 import { tools, tags, editSuggestions } from '../../db/schema';
 import { eq, and, ne } from 'drizzle-orm';
 import { api } from '../../lib/api';
-import { hashIp, getClientIp, urlToSlug } from '../../lib/utils';
-import { validateTwitterUrl, validateGitHubProfileUrl, validateDiscordUrl, validateRepoUrl } from '../../lib/github';
-
-const ALLOWED_FIELDS = ['name', 'description', 'coreTask', 'url', 'tags', 'repoUrl', 'twitterUrl', 'githubUrl', 'discordUrl'];
+import { hashIp, hashEditSource, getClientIp, urlToSlug } from '../../lib/utils';
+import { validateBody, editSuggestionRequestSchema } from '../../lib/schemas';
+import { findLinkSpam, isSameValue, MAX_EDIT_LINKS } from '../../lib/edit-changes.mjs';
+import { findPendingDuplicate, isBlockedSource } from '../../lib/edit-suggestions';
+import { submitterEmailToken } from '../../lib/mail';
+import { consumeToken, resolveToolEditPolicy } from '../../lib/rate-limit';
+import { parseLocale, loadTranslations, t } from '../../i18n/utils';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const db = getDb(locals.runtime.env.DB);
@@ -20,18 +23,20 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { toolId, fieldName, newValue, reason } = body;
-
-  if (!toolId || !fieldName || !newValue) {
-    return api.error('toolId, fieldName, and newValue are required.', 400);
-  }
+  const locale = parseLocale(body?.locale);
+  await loadTranslations(locale);
 
-  if (!ALLOWED_FIELDS.includes(fieldName)) {
-    return api.error(`Invalid field: ${fieldName}`, 400);
+  // The edit form shows a single message, so lead with the specific problem
+  const validated = validateBody(editSuggestionRequestSchema, body, locale);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
   }
+  const { toolId, changes, reason, submitterEmail } = validated.data;
 
-  if (typeof newValue !== 'string' || newValue.length > 2000) {
-    return api.error('New value must be a string (max 2000 characters).', 400);
+  const spamField = findLinkSpam(changes, reason);
+  if (spamField) {
+    const message = t(locale, 'validation.editLinks', { max: MAX_EDIT_LINKS });
+    return api.error(message, 400, { [spamField]: message });
   }
 
   // Verify tool exists and is approved
@@ -47,61 +52,82 @@ export const POST: APIRoute = async ({ request, locals }) => {
   }
 
   // URL uniqueness check
-  if (fieldName === 'url') {
-    try { new URL(newValue); } catch {
-      return api.error('Please enter a valid URL.', 400);
-    }
-    const newSlug = urlToSlug(newValue);
+  const urlChange = changes.find((change) => change.fieldName === 'url');
+  if (urlChange) {
+    const newSlug = urlToSlug(urlChange.newValue);
     const [conflict] = await db
       .select({ id: tools.id })
       .from(tools)
       .where(and(eq(tools.slug, newSlug), ne(tools.id, toolId)))
       .limit(1);
     if (conflict) {
-      return api.error('A tool with this URL already exists.', 400);
+      return api.error(t(locale, 'validation.urlTaken'), 400, { newValue: t(locale, 'validation.urlTaken') });
     }
   }
 
-  // Validate social/repo URL fields
-  if (fieldName === 'repoUrl' && newValue.trim() && !validateRepoUrl(newValue.trim())) {
-    return api.error('Please enter a valid GitHub repository URL.', 400);
-  }
-  if (fieldName === 'twitterUrl' && newValue.trim() && !validateTwitterUrl(newValue.trim())) {
-    return api.error('Please enter a valid Twitter/X URL.', 400);
-  }
-  if (fieldName === 'githubUrl' && newValue.trim() && !validateGitHubProfileUrl(newValue.trim())) {
-    return api.error('Please enter a valid GitHub URL.', 400);
-  }
-  if (fieldName === 'discordUrl' && newValue.trim() && !validateDiscordUrl(newValue.trim())) {
-    return api.error('Please enter a valid Discord URL.', 400);
-  }
-
-  // Get current value
-  let oldValue: string | null;
-  if (fieldName === 'tags') {
-    const currentTags = await db
-      .select({ tagKey: tags.tagKey, tagValue: tags.tagValue })
-      .from(tags)
-      .where(eq(tags.toolId, toolId));
-    oldValue = JSON.stringify(currentTags.map(t => ({ key: t.tagKey, value: t.tagValue })));
-  } else {
-    const fieldKey = fieldName as keyof typeof tool;
-    oldValue = (tool[fieldKey] as string | null) || null;
+  // Get current values; fields the suggestion would leave as they are are dropped
+  const currentTags = changes.some((change) => change.fieldName === 'tags')
+    ? await db
+        .select({ tagKey: tags.tagKey, tagValue: tags.tagValue })
+        .from(tags)
+        .where(eq(tags.toolId, toolId))
+    : [];
+  const changed = changes
+    .map((change) => ({
+      ...change,
+      oldValue:
+        change.fieldName === 'tags'
+          ? JSON.stringify(currentTags.map((t) => ({ key: t.tagKey, value: t.tagValue })))
+          : (tool[change.fieldName] as string | null) || null,
+    }))
+    .filter((change) => !isSameValue(change.fieldName, change.oldValue, change.newValue));
+  if (changed.length === 0) {
+    return api.error(t(locale, 'validation.editUnchanged'), 400);
   }
 
   const clientIp = getClientIp(request);
-  const ipHash = await hashIp(clientIp);
+  const ipHash = await hashIp(clientIp, locals.runtime.env.IP_HASH_SECRET);
+  const sourceHash = await hashEditSource(clientIp, locals.runtime.env.IP_HASH_SECRET);
+  const blocked = await isBlockedSource(db, sourceHash);
+
+  if (!blocked) {
+    const duplicate = await findPendingDuplicate(db, toolId, changed);
+    if (duplicate) {
+      return api.error(t(locale, 'validation.editDuplicate'), 409);
+    }
+
+    // Per-tool quota, only taken by suggestions that are otherwise accepted
+    const toolLimit = await consumeToken(db, resolveToolEditPolicy(locals.runtime.env, toolId));
+    if (!toolLimit.allowed) {
+      const limited = api.error(t(locale, 'validation.editToolLimit'), 429);
+      limited.headers.set('Retry-After', String(toolLimit.retryAfter));
+      return limited;
+    }
+  }
 
-  await db.insert(editSuggestions).values({
-    toolId,
-    fieldName,
-    oldValue: oldValue || null,
-    newValue: newValue.trim(),
-    reason: reason?.trim() || null,
-    status: 'pending',
-    submittedAt: new Date(),
-    submitterIpHash: ipHash,
-  });
+  // One row per field, reviewed together as one changeset. A blocked source
+  // gets the usual response, but its suggestion is rejected on arrival.
+  const changesetId = crypto.randomUUID();
+  const submittedAt = new Date();
+  const email = blocked ? null : submitterEmail;
+  const emailToken = await submitterEmailToken(locals.runtime.env, email);
+  await db.insert(editSuggestions).values(
+    changed.map((change) => ({
+      toolId,
+      fieldName: change.fieldName,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      reason: reason?.trim() || null,
+      status: blocked ? ('rejected' as const) : ('pending' as const),
+      submittedAt,
+      submitterIpHash: ipHash,
+      submitterSourceHash: sourceHash,
+      submitterEmail: email,
+      submitterEmailToken: emailToken,
+      submitterLocale: locale,
+      changesetId,
+    }))
+  );
 
   return api.success({ message: 'Edit suggestion submitted.' }, 201);
 };
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { buildOpenApiDocument } from '../../lib/openapi';
+
+export const GET: APIRoute = () => {
+  const siteUrl = import.meta.env.SITE?.replace(/\/$/, '') || 'https://nologin.tools';
+
+  return new Response(JSON.stringify(buildOpenApiDocument(siteUrl), null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -7,8 +7,15 @@ import { eq, and, ne } from 'drizzle-orm';
 import { urlToSlug } from '../../lib/utils';
 import { api } from '../../lib/api';
 import { checkHealth } from '../../lib/health';
-import { TAG_DEFINITIONS } from '../../lib/tags';
-import { validateTwitterUrl, validateGitHubProfileUrl, validateDiscordUrl, validateRepoUrl, parseGitHubRepoUrl, fetchGitHubRepoData } from '../../lib/github';
+import { runLoginCheck } from '../../lib/login-checks';
+import { recordToolChange } from '../../lib/changes';
+import { recordRevision } from '../../lib/tool-revisions';
+import { parseGitHubRepoUrl, fetchGitHubRepoData } from '../../lib/github';
+import { validateBody, resubmitToolRequestSchema } from '../../lib/schemas';
+import { withSourceTag } from '../../lib/tool-input';
+import { createReceiptToken } from '../../lib/receipts.mjs';
+import { submitterEmailToken } from '../../lib/mail';
+import { parseLocale, loadTranslations, t } from '../../i18n/utils';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const db = getDb(locals.runtime.env.DB);
@@ -20,12 +27,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { toolId, name, url, description, pledge, coreTask, submitterEmail, repoUrl, twitterUrl, githubUrl, discordUrl, tags: submittedTags } = body;
+  const locale = parseLocale(body?.locale);
+  await loadTranslations(locale);
 
-  // Validate toolId
-  if (!toolId || typeof toolId !== 'number') {
-    return api.error('Tool ID is required.', 400);
+  const validated = validateBody(resubmitToolRequestSchema, body, locale);
+  if ('errors' in validated) {
+    return api.error(t(locale, 'validation.failed'), 400, validated.errors);
   }
+  const { toolId, name, url, description, coreTask, submitterEmail, repoUrl, twitterUrl, githubUrl, discordUrl, tags: submittedTags } = validated.data;
 
   // Fetch the tool and verify it's rejected
   const [tool] = await db
@@ -42,66 +51,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Only rejected tools can be resubmitted.', 400);
   }
 
-  // Validation
-  const errors: Record<string, string> = {};
-
-  if (!name || typeof name !== 'string' || name.length < 2 || name.length > 100) {
-    errors.name = 'Name must be between 2 and 100 characters.';
-  }
-
-  if (!url || typeof url !== 'string') {
-    errors.url = 'A valid URL is required.';
-  } else {
-    try {
-      new URL(url);
-    } catch {
-      errors.url = 'Please enter a valid URL.';
-    }
-  }
-
-  if (!description || typeof description !== 'string' || description.length > 500) {
-    errors.description = 'Description is required (max 500 characters).';
-  }
-
-  if (!pledge) {
-    errors.pledge = 'You must confirm the no-login pledge.';
-  }
-
-  if (!coreTask || typeof coreTask !== 'string' || coreTask.length > 200) {
-    errors.coreTask = 'Core task description is required (max 200 characters).';
-  }
-
-  if (submitterEmail != null && submitterEmail !== '') {
-    if (typeof submitterEmail !== 'string' || submitterEmail.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(submitterEmail)) {
-      errors.submitterEmail = 'Please enter a valid email address.';
-    }
-  }
-
-  if (repoUrl && typeof repoUrl === 'string' && repoUrl.trim()) {
-    if (!validateRepoUrl(repoUrl.trim())) {
-      errors.repoUrl = 'Please enter a valid GitHub repository URL.';
-    }
-  }
-  if (twitterUrl && typeof twitterUrl === 'string' && twitterUrl.trim()) {
-    if (!validateTwitterUrl(twitterUrl.trim())) {
-      errors.twitterUrl = 'Please enter a valid Twitter/X URL.';
-    }
-  }
-  if (githubUrl && typeof githubUrl === 'string' && githubUrl.trim()) {
-    if (!validateGitHubProfileUrl(githubUrl.trim())) {
-      errors.githubUrl = 'Please enter a valid GitHub URL.';
-    }
-  }
-  if (discordUrl && typeof discordUrl === 'string' && discordUrl.trim()) {
-    if (!validateDiscordUrl(discordUrl.trim())) {
-      errors.discordUrl = 'Please enter a valid Discord URL.';
-    }
-  }
-
-  if (Object.keys(errors).length > 0) {
-    return api.error('Validation failed.', 400, errors);
-  }
-
   // Recompute slug if URL changed
   const newSlug = urlToSlug(url);
 
@@ -115,29 +64,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     if (conflict.length > 0) {
       return api.error('A tool with this URL already exists.', 409, {
-        url: 'This URL belongs to another tool.',
+        url: t(locale, 'validation.urlTaken'),
       });
     }
   }
 
-  // Validate tags
-  const validTags: { key: string; value: string }[] = [];
-  if (Array.isArray(submittedTags)) {
-    for (const tag of submittedTags) {
-      if (tag.key && tag.value) {
-        const def = TAG_DEFINITIONS.find((d) => d.key === tag.key);
-        if (def && def.values.includes(tag.value)) {
-          validTags.push({ key: tag.key, value: tag.value });
-        }
-      }
-    }
-  }
-
-  // Auto-derive source tag from repo URL
-  const trimmedRepoUrl = repoUrl && typeof repoUrl === 'string' ? repoUrl.trim() : '';
-  if (trimmedRepoUrl) {
-    validTags.push({ key: 'source', value: 'Open Source' });
-  }
+  const validTags = withSourceTag(submittedTags, repoUrl);
 
   // Update tool
   const now = new Date();
@@ -145,19 +77,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
     .update(tools)
     .set({
       slug: newSlug,
-      name: name.trim(),
-      url: url.trim(),
-      description: description.trim(),
-      coreTask: coreTask.trim(),
+      name,
+      url,
+      description,
+      coreTask,
       noLoginPledge: true,
       status: 'pending',
       rejectionReason: null,
       submittedAt: now,
-      submitterEmail: submitterEmail ? submitterEmail.trim() : null,
-      repoUrl: trimmedRepoUrl || null,
-      twitterUrl: twitterUrl && typeof twitterUrl === 'string' && twitterUrl.trim() ? twitterUrl.trim() : null,
-      githubUrl: githubUrl && typeof githubUrl === 'string' && githubUrl.trim() ? githubUrl.trim() : null,
-      discordUrl: discordUrl && typeof discordUrl === 'string' && discordUrl.trim() ? discordUrl.trim() : null,
+      submitterEmail,
+      submitterEmailToken: await submitterEmailToken(locals.runtime.env, submitterEmail),
+      submitterLocale: locale,
+      repoUrl,
+      twitterUrl,
+      githubUrl,
+      discordUrl,
     })
     .where(eq(tools.id, toolId));
 
@@ -166,13 +100,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   if (validTags.length > 0) {
     await db.insert(tags).values(
-      validTags.map((t) => ({
+      validTags.map((tag) => ({
         toolId,
-        tagKey: t.key,
-        tagValue: t.value,
+        tagKey: tag.key,
+        tagValue: tag.value,
       }))
     );
   }
+  await recordRevision(db, toolId, 'submit');
+
+  await recordToolChange(db, {
+    type: 'status-changed',
+    toolId,
+    slug: newSlug,
+    status: 'pending',
+    previousStatus: tool.status,
+  });
 
   // Health check asynchronously (fire and forget via waitUntil)
   locals.runtime.ctx.waitUntil(
@@ -189,9 +132,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
       .catch(() => {})
   );
 
+  // No-login verification asynchronously; shown to admins at review
+  locals.runtime.ctx.waitUntil(runLoginCheck(db, toolId, url).catch(() => {}));
+
   // Fetch GitHub repo data asynchronously
-  if (trimmedRepoUrl) {
-    const parsed = parseGitHubRepoUrl(trimmedRepoUrl);
+  if (repoUrl) {
+    const parsed = parseGitHubRepoUrl(repoUrl);
     if (parsed) {
       locals.runtime.ctx.waitUntil(
         fetchGitHubRepoData(parsed.owner, parsed.repo)
@@ -218,5 +164,9 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
   }
 
-  return api.success({ slug: newSlug });
+  // Private status link for the submitter; see /submit/status/[token]
+  const secret = locals.runtime.env.RECEIPT_SECRET;
+  const receipt = secret ? await createReceiptToken(secret, toolId) : null;
+
+  return api.success({ slug: newSlug, receipt });
 };
@@ -3,10 +3,21 @@ export const prerender = false;
 import type { APIRoute } from 'astro';
 import { getDb } from '../../db';
 import { tools, tags, editSuggestions } from '../../db/schema';
-import { eq, and, ne } from 'drizzle-orm';
+import { eq, and, ne, inArray } from 'drizzle-orm';
 import { api } from '../../lib/api';
 import { urlToSlug } from '../../lib/utils';
-import { TAG_DEFINITIONS } from '../../lib/tags';
+import { recordToolChange } from '../../lib/changes';
+import { recordRevision } from '../../lib/tool-revisions';
+import { afterUrlChange } from '../../lib/tool-url';
+import { parseGitHubRepoUrl, fetchGitHubRepoData } from '../../lib/github';
+import { enqueueWebhookEvent } from '../../lib/webhooks';
+import { notifySubmitter, type SubmitterNotification } from '../../lib/mail';
+import { validateBody, reviewRequestSchema } from '../../lib/schemas';
+import { isEditableField, parseEditValue, withSourceTag, type EditableField, type ToolTag } from '../../lib/tool-input';
+import { blockSource, findChangeset, loadCurrentValues, sourceBlockDays, supersedeApplied } from '../../lib/edit-suggestions';
+import { mergeTags, parseTagList, suggestionState } from '../../lib/edit-changes.mjs';
+import { DEFAULT_LOCALE } from '../../i18n/config';
+import { t } from '../../i18n/utils';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const env = locals.runtime.env;
@@ -19,31 +30,95 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { secret, action } = body;
+  const { secret } = body;
 
   // Verify admin secret
   if (!env.ADMIN_SECRET || secret !== env.ADMIN_SECRET) {
     return api.error('Unauthorized.', 401);
   }
 
-  if (action === 'approve') {
-    const { toolId } = body;
-    if (!toolId) return api.error('toolId is required.', 400);
+  const validated = validateBody(reviewRequestSchema, body);
+  if ('errors' in validated) {
+    return api.error(validated.message, 400, validated.errors);
+  }
+  const input = validated.data;
+
+  // Decision emails go out in the background; the address is cleared with
+  // the decision itself, so a failed send is not retried
+  const mailSubmitter = (notification: SubmitterNotification) => {
+    locals.runtime.ctx.waitUntil(
+      notifySubmitter(db, env, notification).catch((err) => {
+        console.error(`[Review] Email to the submitter of tool #${notification.toolId} failed:`, err);
+      })
+    );
+  };
+
+  if (input.action === 'approve') {
+    const { toolId } = input;
+
+    const [tool] = await db
+      .select({
+        slug: tools.slug,
+        name: tools.name,
+        status: tools.status,
+        submitterEmail: tools.submitterEmail,
+        submitterLocale: tools.submitterLocale,
+      })
+      .from(tools)
+      .where(eq(tools.id, toolId))
+      .limit(1);
+    if (!tool) return api.error('Tool not found.', 404);
 
     await db
       .update(tools)
       .set({
         status: 'approved',
         approvedAt: new Date(),
+        submitterEmail: null,
       })
       .where(eq(tools.id, toolId));
 
+    await recordToolChange(db, {
+      type: 'status-changed',
+      toolId,
+      slug: tool.slug,
+      status: 'approved',
+      previousStatus: tool.status,
+    });
+
+    if (tool.status !== 'approved') {
+      await enqueueWebhookEvent(db, env.SITE_URL, 'tool.approved', toolId, { previousStatus: tool.status });
+    }
+
+    if (tool.submitterEmail) {
+      mailSubmitter({
+        kind: 'approved',
+        email: tool.submitterEmail,
+        locale: tool.submitterLocale,
+        toolId,
+        toolName: tool.name,
+        slug: tool.slug,
+      });
+    }
+
     return api.success({ toolId, status: 'approved' });
   }
 
-  if (action === 'reject') {
-    const { toolId, reason } = body;
-    if (!toolId) return api.error('toolId is required.', 400);
+  if (input.action === 'reject') {
+    const { toolId, reason } = input;
+
+    const [tool] = await db
+      .select({
+        slug: tools.slug,
+        name: tools.name,
+        status: tools.status,
+        submitterEmail: tools.submitterEmail,
+        submitterLocale: tools.submitterLocale,
+      })
+      .from(tools)
+      .where(eq(tools.id, toolId))
+      .limit(1);
+    if (!tool) return api.error('Tool not found.', 404);
 
     await db
       .update(tools)
@@ -52,112 +127,298 @@ export const POST: APIRoute = async ({ request, locals }) => {
         rejectionReason: reason || null,
         isFeatured: false,
         featuredAt: null,
+        submitterEmail: null,
       })
       .where(eq(tools.id, toolId));
 
+    await recordToolChange(db, {
+      type: 'status-changed',
+      toolId,
+      slug: tool.slug,
+      status: 'rejected',
+      previousStatus: tool.status,
+    });
+
+    if (tool.submitterEmail) {
+      mailSubmitter({
+        kind: 'rejected',
+        email: tool.submitterEmail,
+        locale: tool.submitterLocale,
+        toolId,
+        toolName: tool.name,
+        slug: tool.slug,
+        reason,
+      });
+    }
+
     return api.success({ toolId, status: 'rejected' });
   }
 
-  if (action === 'approve_edit') {
-    const { editId } = body;
-    if (!editId) return api.error('editId is required.', 400);
+  if (input.action === 'approve_edit') {
+    const { editId, values = {} } = input;
+
+    // The suggestion and the other fields of its changeset
+    const changeset = await findChangeset(db, editId);
+    if (changeset.length === 0) return api.error('Edit suggestion not found.', 404);
+    const [edit] = changeset;
+    const editIds = changeset.map((row) => row.id);
+    if (edit.status !== 'pending') return api.error('Edit suggestion was already reviewed.', 400);
 
-    // Get the edit suggestion
-    const [edit] = await db
+    const [tool] = await db
       .select()
-      .from(editSuggestions)
-      .where(eq(editSuggestions.id, editId))
+      .from(tools)
+      .where(eq(tools.id, edit.toolId))
       .limit(1);
+    if (!tool) return api.error('Tool not found.', 404);
+    const current = (await loadCurrentValues(db, [edit.toolId])).get(edit.toolId)!;
 
-    if (!edit) return api.error('Edit suggestion not found.', 404);
+    // Re-check every field with the current rules; the suggestion may predate them.
+    // Fields changed since the suggestion was made need a value from the
+    // reviewer, except tags, which are merged with the changes made since.
+    const changes: { fieldName: EditableField; newValue: string }[] = [];
+    const conflicts: Record<string, string> = {};
+    for (const row of changeset) {
+      if (!isEditableField(row.fieldName)) {
+        return api.error('Invalid field for editing.', 400);
+      }
+      const resolved = values[row.fieldName];
+      const parsed = parseEditValue(row.fieldName, resolved ?? row.newValue);
+      if ('error' in parsed) {
+        return api.error(t(DEFAULT_LOCALE, parsed.error), 400);
+      }
+      let newValue = parsed.value;
+      const state = suggestionState(row.fieldName, row.oldValue, current[row.fieldName], newValue);
+      if (state === 'applied') continue;
+      if (state === 'conflict' && resolved === undefined) {
+        if (row.fieldName !== 'tags') {
+          conflicts[row.fieldName] = 'Changed since the suggestion was made.';
+          continue;
+        }
+        newValue = JSON.stringify(
+          mergeTags(parseTagList(row.oldValue), parseTagList(current.tags), parseTagList(newValue))
+        );
+      }
+      changes.push({ fieldName: row.fieldName, newValue });
+    }
+    if (Object.keys(conflicts).length > 0) {
+      return api.error('The tool changed since this edit was suggested.', 409, conflicts);
+    }
 
     // Apply the edit to the tool
-    const allowedFields = ['name', 'description', 'coreTask', 'url', 'tags'] as const;
-    type AllowedField = (typeof allowedFields)[number];
-
-    if (!allowedFields.includes(edit.fieldName as AllowedField)) {
-      return api.error('Invalid field for editing.', 400);
+    const updateData: Partial<typeof tools.$inferInsert> = {};
+    let newTags: ToolTag[] | null = null;
+    for (const { fieldName, newValue } of changes) {
+      if (fieldName === 'tags') {
+        newTags = JSON.parse(newValue) as ToolTag[];
+      } else if (fieldName === 'url') {
+        // URL change requires slug update + uniqueness check
+        const newSlug = urlToSlug(newValue);
+        const [existing] = await db
+          .select({ id: tools.id })
+          .from(tools)
+          .where(and(eq(tools.slug, newSlug), ne(tools.id, edit.toolId)))
+          .limit(1);
+        if (existing) {
+          return api.error(t(DEFAULT_LOCALE, 'validation.urlTaken'), 400);
+        }
+        updateData.url = newValue;
+        updateData.slug = newSlug;
+      } else if (fieldName === 'repoUrl' || fieldName === 'twitterUrl' || fieldName === 'githubUrl' || fieldName === 'discordUrl') {
+        // A cleared link ('' in the suggestion) is stored as NULL
+        updateData[fieldName] = newValue || null;
+      } else {
+        updateData[fieldName] = newValue;
+      }
     }
 
-    if (edit.fieldName === 'tags') {
-      // Parse and validate tags JSON
-      let tagEntries: { key: string; value: string }[];
-      try {
-        tagEntries = JSON.parse(edit.newValue);
-        if (!Array.isArray(tagEntries)) throw new Error('Not an array');
-      } catch {
-        return api.error('Invalid tags data.', 400);
-      }
+    const changedFields: string[] = changes.flatMap(({ fieldName }) => (fieldName === 'url' ? ['url', 'slug'] : [fieldName]));
+    const urlChanged = updateData.url !== undefined && updateData.url !== tool.url;
+    const repoChanged = updateData.repoUrl !== undefined && updateData.repoUrl !== tool.repoUrl;
+    const repoUrl = updateData.repoUrl !== undefined ? updateData.repoUrl : tool.repoUrl;
 
-      const validTags: { key: string; value: string }[] = [];
-      for (const tag of tagEntries) {
-        if (tag.key && tag.value) {
-          const def = TAG_DEFINITIONS.find((d) => d.key === tag.key);
-          if (def && def.values.includes(tag.value)) {
-            validTags.push({ key: tag.key, value: tag.value });
-          }
-        }
+    // Clear GitHub data if the repo URL was removed; a new one is fetched below
+    if (repoChanged && !repoUrl) {
+      Object.assign(updateData, {
+        githubStars: null,
+        githubForks: null,
+        githubLicense: null,
+        githubLanguage: null,
+        githubUpdatedAt: null,
+        githubFetchedAt: null,
+      });
+      if (tool.githubFetchedAt) {
+        changedFields.push('githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt');
       }
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await db
+        .update(tools)
+        .set(updateData)
+        .where(eq(tools.id, edit.toolId));
+    }
+
+    // The source tag follows the repo URL, so a repo change rewrites the tags too
+    if (newTags || repoChanged) {
+      const currentTags =
+        newTags ??
+        (
+          await db
+            .select({ tagKey: tags.tagKey, tagValue: tags.tagValue })
+            .from(tags)
+            .where(eq(tags.toolId, edit.toolId))
+        ).map((tag) => ({ key: tag.tagKey, value: tag.tagValue }));
+      const validTags = withSourceTag(currentTags, repoUrl);
+      if (!newTags && Boolean(repoUrl) !== Boolean(tool.repoUrl)) changedFields.push('tags');
 
       // Delete old tags and insert new ones
       await db.delete(tags).where(eq(tags.toolId, edit.toolId));
       if (validTags.length > 0) {
         await db.insert(tags).values(
-          validTags.map((t) => ({
+          validTags.map((tag) => ({
             toolId: edit.toolId,
-            tagKey: t.key,
-            tagValue: t.value,
+            tagKey: tag.key,
+            tagValue: tag.value,
           }))
         );
       }
-    } else if (edit.fieldName === 'url') {
-      // URL change requires slug update + uniqueness check
-      const newUrl = edit.newValue.trim();
-      try { new URL(newUrl); } catch {
-        return api.error('Invalid URL.', 400);
-      }
-      const newSlug = urlToSlug(newUrl);
-      const [existing] = await db
-        .select({ id: tools.id })
-        .from(tools)
-        .where(and(eq(tools.slug, newSlug), ne(tools.id, edit.toolId)))
-        .limit(1);
-      if (existing) {
-        return api.error('A tool with this URL already exists.', 400);
-      }
-      await db
-        .update(tools)
-        .set({ url: newUrl, slug: newSlug })
-        .where(eq(tools.id, edit.toolId));
-    } else {
-      const updateData: Record<string, string> = {};
-      updateData[edit.fieldName] = edit.newValue;
-      await db
-        .update(tools)
-        .set(updateData)
-        .where(eq(tools.id, edit.toolId));
     }
 
-    // Mark edit as approved
+    await recordRevision(db, edit.toolId, 'edit');
+
+    const ctx = locals.runtime.ctx;
+    if (urlChanged) {
+      ctx.waitUntil(afterUrlChange(db, env, edit.toolId, updateData.url!));
+    }
+
+    // Fetch GitHub data for the new repo asynchronously
+    const repo = repoChanged && repoUrl ? parseGitHubRepoUrl(repoUrl) : null;
+    if (repo) {
+      ctx.waitUntil(
+        fetchGitHubRepoData(repo.owner, repo.repo)
+          .then(async (data) => {
+            if (data) {
+              await db
+                .update(tools)
+                .set({
+                  githubStars: data.stars,
+                  githubForks: data.forks,
+                  githubLicense: data.license,
+                  githubLanguage: data.language,
+                  githubUpdatedAt: data.updatedAt,
+                  githubFetchedAt: new Date(),
+                })
+                .where(eq(tools.id, edit.toolId));
+              await recordToolChange(db, {
+                type: 'updated',
+                toolId: edit.toolId,
+                slug: updateData.slug ?? tool.slug,
+                status: tool.status,
+                changedFields: ['githubStars', 'githubForks', 'githubLicense', 'githubLanguage', 'githubUpdatedAt'],
+              });
+              console.log(`[Review] GitHub data saved for tool #${edit.toolId}`);
+            }
+          })
+          .catch((err) => {
+            console.error(`[Review] GitHub data fetch/save failed:`, err);
+          })
+      );
+    }
+
+    // Mark the changeset as approved
     await db
       .update(editSuggestions)
-      .set({ status: 'approved' })
-      .where(eq(editSuggestions.id, editId));
+      .set({ status: 'approved', submitterEmail: null })
+      .where(inArray(editSuggestions.id, editIds));
+
+    // Other pending suggestions the tool now matches are closed with this one
+    const superseded = await supersedeApplied(db, edit.toolId);
+
+    const [edited] = await db
+      .select({ slug: tools.slug, name: tools.name, status: tools.status })
+      .from(tools)
+      .where(eq(tools.id, edit.toolId))
+      .limit(1);
+    if (edited) {
+      if (changedFields.length > 0) {
+        await recordToolChange(db, {
+          type: 'updated',
+          toolId: edit.toolId,
+          slug: edited.slug,
+          status: edited.status,
+          changedFields,
+        });
+      }
+
+      for (const rows of [changeset, ...superseded]) {
+        if (!rows[0].submitterEmail) continue;
+        mailSubmitter({
+          kind: 'editApproved',
+          email: rows[0].submitterEmail,
+          locale: rows[0].submitterLocale,
+          toolId: edit.toolId,
+          toolName: edited.name,
+          slug: edited.slug,
+          field: rows.map((row) => row.fieldName),
+        });
+      }
+    }
 
-    return api.success({ editId, status: 'approved' });
+    return api.success({ editId, editIds, status: 'approved', supersededIds: superseded.flat().map((row) => row.id) });
   }
 
-  if (action === 'reject_edit') {
-    const { editId } = body;
-    if (!editId) return api.error('editId is required.', 400);
+  if (input.action === 'block_edit') {
+    const changeset = await findChangeset(db, input.editId);
+    if (changeset.length === 0) return api.error('Edit suggestion not found.', 404);
+    const [edit] = changeset;
+    if (edit.status !== 'pending') return api.error('Edit suggestion was already reviewed.', 400);
+    // Stored hashes are purged after RATE_LIMIT_WINDOW_HOURS
+    if (!edit.submitterSourceHash) return api.error('The source of this edit suggestion is no longer known.', 400);
 
-    await db
-      .update(editSuggestions)
-      .set({ status: 'rejected' })
-      .where(eq(editSuggestions.id, editId));
+    // Rejects this changeset too; spam gets no decision email
+    const blockedUntil = new Date(Date.now() + sourceBlockDays(env) * 86400 * 1000);
+    const rejectedIds = await blockSource(db, edit.submitterSourceHash, blockedUntil);
+    return api.success({
+      editId: input.editId,
+      editIds: changeset.map((row) => row.id),
+      status: 'rejected',
+      rejectedIds,
+      blockedUntil: blockedUntil.toISOString(),
+    });
+  }
+
+  // reject_edit
+  const { editId } = input;
 
-    return api.success({ editId, status: 'rejected' });
+  const changeset = await findChangeset(db, editId);
+  if (changeset.length === 0) return api.error('Edit suggestion not found.', 404);
+  const [edit] = changeset;
+  const editIds = changeset.map((row) => row.id);
+  if (edit.status !== 'pending') return api.error('Edit suggestion was already reviewed.', 400);
+
+  await db
+    .update(editSuggestions)
+    .set({ status: 'rejected', submitterEmail: null })
+    .where(inArray(editSuggestions.id, editIds));
+
+  if (edit.submitterEmail) {
+    const [tool] = await db
+      .select({ slug: tools.slug, name: tools.name })
+      .from(tools)
+      .where(eq(tools.id, edit.toolId))
+      .limit(1);
+    if (tool) {
+      mailSubmitter({
+        kind: 'editRejected',
+        email: edit.submitterEmail,
+        locale: edit.submitterLocale,
+        toolId: edit.toolId,
+        toolName: tool.name,
+        slug: tool.slug,
+        field: changeset.map((row) => row.fieldName),
+      });
+    }
   }
 
-  return api.error('Invalid action.', 400);
+  return api.success({ editId, editIds, status: 'rejected' });
 };
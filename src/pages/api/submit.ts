@@ -3,13 +3,23 @@ export const prerender = false;
 import type { APIRoute } from 'astro';
 import { getDb } from '../../db';
 import { tools, tags, healthChecks } from '../../db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { urlToSlug, hashIp, getClientIp } from '../../lib/utils';
 import { api } from '../../lib/api';
 import { archiveUrl } from '../../lib/archive';
 import { checkHealth } from '../../lib/health';
-import { TAG_DEFINITIONS } from '../../lib/tags';
-import { validateTwitterUrl, validateGitHubProfileUrl, validateDiscordUrl, validateRepoUrl, parseGitHubRepoUrl, fetchGitHubRepoData } from '../../lib/github';
+import { runLoginCheck } from '../../lib/login-checks';
+import { recordToolChange } from '../../lib/changes';
+import { recordRevision } from '../../lib/tool-revisions';
+import { parseGitHubRepoUrl, fetchGitHubRepoData } from '../../lib/github';
+import { validateBody, submitToolRequestSchema } from '../../lib/schemas';
+import { findPossibleDuplicates, resolveRedirect } from '../../lib/duplicates.mjs';
+import { withSourceTag } from '../../lib/tool-input';
+import { createReceiptToken } from '../../lib/receipts.mjs';
+import { submitterEmailToken } from '../../lib/mail';
+import { getRequestApiKey } from '../../lib/api-keys';
+import { loadSpamSettings, recordSpamChecks, runSpamChecks } from '../../lib/spam-checks';
+import { parseLocale, loadTranslations, t } from '../../i18n/utils';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   const db = getDb(locals.runtime.env.DB);
@@ -21,130 +31,85 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return api.error('Invalid JSON body.', 400);
   }
 
-  const { name, url, description, pledge, coreTask, submitterEmail, repoUrl, twitterUrl, githubUrl, discordUrl, tags: submittedTags } = body;
-
-  // Validation
-  const errors: Record<string, string> = {};
-
-  if (!name || typeof name !== 'string' || name.length < 2 || name.length > 100) {
-    errors.name = 'Name must be between 2 and 100 characters.';
-  }
-
-  if (!url || typeof url !== 'string') {
-    errors.url = 'A valid URL is required.';
-  } else {
-    try {
-      new URL(url);
-    } catch {
-      errors.url = 'Please enter a valid URL.';
-    }
-  }
-
-  if (!description || typeof description !== 'string' || description.length > 500) {
-    errors.description = 'Description is required (max 500 characters).';
-  }
-
-  if (!pledge) {
-    errors.pledge = 'You must confirm the no-login pledge.';
-  }
-
-  if (!coreTask || typeof coreTask !== 'string' || coreTask.length > 200) {
-    errors.coreTask = 'Core task description is required (max 200 characters).';
-  }
-
-  if (submitterEmail != null && submitterEmail !== '') {
-    if (typeof submitterEmail !== 'string' || submitterEmail.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(submitterEmail)) {
-      errors.submitterEmail = 'Please enter a valid email address.';
-    }
-  }
-
-  if (repoUrl && typeof repoUrl === 'string' && repoUrl.trim()) {
-    if (!validateRepoUrl(repoUrl.trim())) {
-      errors.repoUrl = 'Please enter a valid GitHub repository URL.';
-    }
-  }
-  if (twitterUrl && typeof twitterUrl === 'string' && twitterUrl.trim()) {
-    if (!validateTwitterUrl(twitterUrl.trim())) {
-      errors.twitterUrl = 'Please enter a valid Twitter/X URL.';
-    }
-  }
-  if (githubUrl && typeof githubUrl === 'string' && githubUrl.trim()) {
-    if (!validateGitHubProfileUrl(githubUrl.trim())) {
-      errors.githubUrl = 'Please enter a valid GitHub URL.';
-    }
-  }
-  if (discordUrl && typeof discordUrl === 'string' && discordUrl.trim()) {
-    if (!validateDiscordUrl(discordUrl.trim())) {
-      errors.discordUrl = 'Please enter a valid Discord URL.';
-    }
-  }
-
-  if (Object.keys(errors).length > 0) {
-    return api.error('Validation failed.', 400, errors);
-  }
+  const locale = parseLocale(body?.locale);
+  await loadTranslations(locale);
+
+  const validated = validateBody(submitToolRequestSchema, body, locale);
+  if ('errors' in validated) {
+    return api.error(t(locale, 'validation.failed'), 400, validated.errors);
+  }
+  const {
+    name,
+    description,
+    coreTask,
+    submitterEmail,
+    repoUrl,
+    twitterUrl,
+    githubUrl,
+    discordUrl,
+    tags: submittedTags,
+    confirmNotDuplicate,
+    website,
+    challenge,
+    challengeNonce,
+  } = validated.data;
+  const env = locals.runtime.env;
 
-  // Generate slug
+  // Settle on the address the site itself uses (https, with or without www)
+  const url = await resolveRedirect(validated.data.url);
   const slug = urlToSlug(url);
 
-  // Check for duplicate
-  const existing = await db
-    .select({ id: tools.id, slug: tools.slug, status: tools.status })
-    .from(tools)
-    .where(eq(tools.slug, slug))
-    .limit(1);
+  // Check for duplicates: the same address is refused, anything on the same
+  // site or with a similar name goes back to the submitter to confirm
+  const existingTools = await db
+    .select({ id: tools.id, slug: tools.slug, name: tools.name, url: tools.url, status: tools.status })
+    .from(tools);
+  const possibleDuplicates = findPossibleDuplicates({ name, url }, existingTools);
 
-  if (existing.length > 0) {
+  const existing = existingTools.find((tool) => tool.slug === slug)
+    ?? possibleDuplicates.find((tool) => tool.reasons.includes('url'));
+  if (existing) {
     return api.error('This tool has already been submitted.', 409, {
-      url: 'This URL has already been submitted.',
-      slug: existing[0].slug,
-      status: existing[0].status,
+      url: t(locale, 'validation.urlSubmitted'),
+      slug: existing.slug,
+      status: existing.status,
     });
   }
 
-  // Rate limiting
-  const maxSubmissions = parseInt(locals.runtime.env.RATE_LIMIT_MAX_SUBMISSIONS || '3', 10) || 3;
-  const windowHours = parseInt(locals.runtime.env.RATE_LIMIT_WINDOW_HOURS || '24', 10) || 24;
-
-  const clientIp = getClientIp(request);
-  const ipHash = await hashIp(clientIp);
-  const windowStart = new Date(Date.now() - windowHours * 3600000);
-
-  const recentSubmissions = await db
-    .select({ id: tools.id })
-    .from(tools)
-    .where(
-      and(
-        eq(tools.submitterIpHash, ipHash),
-        sql`${tools.submittedAt} > ${Math.floor(windowStart.getTime() / 1000)}`
-      )
-    );
-
-  if (recentSubmissions.length >= maxSubmissions) {
-    const windowLabel = windowHours === 24 ? 'daily' : `${windowHours}-hour`;
-    return api.error(
-      `You have reached the ${windowLabel} submission limit (${maxSubmissions} per ${windowHours}h). Please try again later.`,
-      429
-    );
+  if (possibleDuplicates.length > 0 && !confirmNotDuplicate) {
+    return api.error(t(locale, 'submit.possibleDuplicates'), 409, undefined, {
+      possibleDuplicates: possibleDuplicates.map(({ slug, name, url, status, reasons }) => ({ slug, name, url, status, reasons })),
+    });
   }
 
-  // Validate tags
-  const validTags: { key: string; value: string }[] = [];
-  if (Array.isArray(submittedTags)) {
-    for (const tag of submittedTags) {
-      if (tag.key && tag.value) {
-        const def = TAG_DEFINITIONS.find((d) => d.key === tag.key);
-        if (def && def.values.includes(tag.value)) {
-          validTags.push({ key: tag.key, value: tag.value });
-        }
-      }
+  // Submission quota is enforced per IP by the rate limiter in middleware
+  const clientIp = getClientIp(request);
+  const ipHash = await hashIp(clientIp, env.IP_HASH_SECRET);
+
+  // Anti-spam checks, as configured in the admin Spam tab
+  const spamCheck = await runSpamChecks(env, await loadSpamSettings(db), {
+    url,
+    clientIp,
+    honeypot: website,
+    challenge,
+    challengeNonce,
+    hasApiKey: getRequestApiKey(request) !== null,
+  });
+  if (spamCheck.blocked) {
+    await recordSpamChecks(db, spamCheck, { toolId: null, url, ipHash });
+    switch (spamCheck.blocked.check) {
+      case 'blocklist':
+        return api.error(t(locale, 'validation.failed'), 400, { url: t(locale, 'validation.urlBlocked') });
+      case 'reachability':
+        return api.error(t(locale, 'validation.failed'), 400, { url: t(locale, 'validation.urlUnreachable') });
+      case 'challenge':
+        return api.error(t(locale, 'submit.challengeFailed'), 400);
+      default:
+        return api.error(t(locale, 'submit.spamBlocked'), 400);
     }
   }
 
-  // Auto-derive source tag from repo URL
-  const trimmedRepoUrl = repoUrl && typeof repoUrl === 'string' ? repoUrl.trim() : '';
-  if (trimmedRepoUrl) {
-    validTags.push({ key: 'source', value: 'Open Source' });
-  }
+  const validTags = withSourceTag(submittedTags, repoUrl);
 
   // Insert tool
   const now = new Date();
@@ -152,35 +117,46 @@ export const POST: APIRoute = async ({ request, locals }) => {
     .insert(tools)
     .values({
       slug,
-      name: name.trim(),
-      url: url.trim(),
-      description: description.trim(),
-      coreTask: coreTask.trim(),
+      name,
+      url,
+      description,
+      coreTask,
       noLoginPledge: true,
       status: 'pending',
       submittedAt: now,
       submitterIpHash: ipHash,
-      submitterEmail: submitterEmail ? submitterEmail.trim() : null,
-      repoUrl: trimmedRepoUrl || null,
-      twitterUrl: twitterUrl && typeof twitterUrl === 'string' && twitterUrl.trim() ? twitterUrl.trim() : null,
-      githubUrl: githubUrl && typeof githubUrl === 'string' && githubUrl.trim() ? githubUrl.trim() : null,
-      discordUrl: discordUrl && typeof discordUrl === 'string' && discordUrl.trim() ? discordUrl.trim() : null,
+      submitterEmail,
+      submitterEmailToken: await submitterEmailToken(env, submitterEmail),
+      submitterLocale: locale,
+      repoUrl,
+      twitterUrl,
+      githubUrl,
+      discordUrl,
     })
     .returning({ id: tools.id, slug: tools.slug });
 
   // Insert tags
   if (validTags.length > 0) {
     await db.insert(tags).values(
-      validTags.map((t) => ({
+      validTags.map((tag) => ({
         toolId: inserted.id,
-        tagKey: t.key,
-        tagValue: t.value,
+        tagKey: tag.key,
+        tagValue: tag.value,
       }))
     );
   }
 
+  await recordSpamChecks(db, spamCheck, { toolId: inserted.id, url, ipHash });
+  await recordRevision(db, inserted.id, 'submit');
+
+  await recordToolChange(db, {
+    type: 'added',
+    toolId: inserted.id,
+    slug: inserted.slug,
+    status: 'pending',
+  });
+
   // Archive URL asynchronously (fire and forget via waitUntil)
-  const env = locals.runtime.env;
   const ctx = locals.runtime.ctx;
   if (env.ARCHIVE_ORG_ACCESS_KEY && env.ARCHIVE_ORG_SECRET_KEY) {
     ctx.waitUntil(
@@ -199,9 +175,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
     );
   }
 
-  // Health check asynchronously (fire and forget via waitUntil)
+  // Health check asynchronously (fire and forget via waitUntil), unless the
+  // reachability check already fetched the URL
   ctx.waitUntil(
-    checkHealth(url, env.SITE_URL)
+    (spamCheck.health ? Promise.resolve(spamCheck.health) : checkHealth(url, env.SITE_URL))
       .then(async (result) => {
         await db.insert(healthChecks).values({
           toolId: inserted.id,
@@ -214,9 +191,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
       .catch(() => {})
   );
 
+  // No-login verification asynchronously; shown to admins at review
+  ctx.waitUntil(runLoginCheck(db, inserted.id, url).catch(() => {}));
+
   // Fetch GitHub repo data asynchronously
-  if (trimmedRepoUrl) {
-    const parsed = parseGitHubRepoUrl(trimmedRepoUrl);
+  if (repoUrl) {
+    const parsed = parseGitHubRepoUrl(repoUrl);
     if (parsed) {
       ctx.waitUntil(
         fetchGitHubRepoData(parsed.owner, parsed.repo)
@@ -235,7 +215,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
                 .where(eq(tools.id, inserted.id));
               console.log(`[Submit] GitHub data saved for tool #${inserted.id}`);
             } else {
-              console.warn(`[Submit] No GitHub data returned for ${trimmedRepoUrl}`);
+              console.warn(`[Submit] No GitHub data returned for ${repoUrl}`);
             }
           })
           .catch((err) => {
@@ -245,5 +225,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
   }
 
-  return api.success({ slug: inserted.slug }, 201);
+  // Private status link for the submitter; see /submit/status/[token]
+  const receipt = env.RECEIPT_SECRET ? await createReceiptToken(env.RECEIPT_SECRET, inserted.id) : null;
+
+  return api.success({ slug: inserted.slug, receipt }, 201);
 };
@@ -0,0 +1,18 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { api } from '../../../lib/api';
+import { getClientIp } from '../../../lib/utils';
+import { CHALLENGE_TTL_SECONDS, POW_DIFFICULTY, createChallenge } from '../../../lib/proof-of-work.mjs';
+
+// Proof-of-work challenge for the submit form; see proof-of-work.mjs
+export const GET: APIRoute = async ({ request, locals }) => {
+  const secret = locals.runtime.env.RECEIPT_SECRET;
+  const challenge = secret ? await createChallenge(secret, getClientIp(request)) : null;
+
+  return api.success(
+    { challenge, difficulty: POW_DIFFICULTY, expiresInSeconds: CHALLENGE_TTL_SECONDS },
+    200,
+    { 'Cache-Control': 'no-store' }
+  );
+};
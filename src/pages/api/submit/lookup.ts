@@ -0,0 +1,46 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { tools } from '../../../db/schema';
+import { api } from '../../../lib/api';
+import { urlToSlug } from '../../../lib/utils';
+import { canonicalizeUrl, findPossibleDuplicates } from '../../../lib/duplicates.mjs';
+
+// Live duplicate check for the submit form, with the rules POST /api/submit
+// applies. Redirects are not followed here, so a submission can still turn
+// out to be a duplicate once its URL settles.
+export const GET: APIRoute = async ({ url: requestUrl, locals }) => {
+  const url = canonicalizeUrl(requestUrl.searchParams.get('url') ?? '');
+  if (!url) return api.error('A valid url parameter is required.', 400);
+  const name = requestUrl.searchParams.get('name')?.trim() ?? '';
+
+  const db = getDb(locals.runtime.env.DB);
+  const existingTools = await db
+    .select({ id: tools.id, slug: tools.slug, name: tools.name, url: tools.url, status: tools.status })
+    .from(tools);
+  const slug = urlToSlug(url);
+  const matches = findPossibleDuplicates({ name, url }, existingTools).map(({ slug, name, url, status, reasons }) => ({
+    slug,
+    name,
+    url,
+    status,
+    reasons,
+  }));
+
+  const sameSlug = existingTools.find((tool) => tool.slug === slug);
+  const existing = sameSlug
+    ? { slug: sameSlug.slug, name: sameSlug.name, url: sameSlug.url, status: sameSlug.status, reasons: ['url' as const] }
+    : matches.find((tool) => tool.reasons.includes('url')) ?? null;
+
+  return api.success(
+    {
+      url,
+      slug,
+      existing,
+      possibleDuplicates: matches.filter((tool) => tool.slug !== existing?.slug),
+    },
+    200,
+    { 'Cache-Control': 'no-store' }
+  );
+};
@@ -0,0 +1,18 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { api } from '../../../lib/api';
+import { canonicalizeUrl } from '../../../lib/duplicates.mjs';
+import { fetchPageMetadata } from '../../../lib/page-metadata.mjs';
+
+// Details read from a tool's own page, to prefill the submit form and the
+// admin edit form. Fetched here so the page does not have to allow it.
+export const GET: APIRoute = async ({ url: requestUrl }) => {
+  const url = canonicalizeUrl(requestUrl.searchParams.get('url') ?? '');
+  if (!url) return api.error('A valid url parameter is required.', 400);
+
+  const result = await fetchPageMetadata(url);
+  if ('error' in result) return api.error(`Could not read the page: ${result.error}`, 502);
+
+  return api.success(result, 200, { 'Cache-Control': 'public, max-age=3600' });
+};
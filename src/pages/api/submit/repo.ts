@@ -0,0 +1,29 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { api } from '../../../lib/api';
+import { parseGitHubRepoUrl, fetchGitHubRepoDataAuth } from '../../../lib/github';
+
+// Repository preview for the submit form. Fetched here rather than from the
+// browser so visitors' addresses are not sent to GitHub.
+export const GET: APIRoute = async ({ url: requestUrl, locals }) => {
+  const parsed = parseGitHubRepoUrl(requestUrl.searchParams.get('url') ?? '');
+  if (!parsed) return api.error('A GitHub repository url parameter is required.', 400);
+
+  const data = await fetchGitHubRepoDataAuth(parsed.owner, parsed.repo, locals.runtime.env.GITHUB_TOKEN);
+  if (!data) return api.error('Repository data is not available.', 404);
+
+  return api.success(
+    {
+      owner: parsed.owner,
+      repo: parsed.repo,
+      stars: data.stars,
+      forks: data.forks,
+      license: data.license,
+      language: data.language,
+      updatedAt: data.updatedAt.toISOString(),
+    },
+    200,
+    { 'Cache-Control': 'public, max-age=3600' }
+  );
+};
@@ -2,17 +2,30 @@ export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { getDb } from '../../../db';
-import { tools, tags, healthChecks } from '../../../db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { tools } from '../../../db/schema';
+import { eq } from 'drizzle-orm';
 import { api } from '../../../lib/api';
-import { HEALTH_TOLERANCE, resolveEffectiveStatus } from '../../../lib/health';
-
-export const GET: APIRoute = async ({ params, locals }) => {
+import {
+  PUBLIC_API_VERSION,
+  PUBLIC_API_VERSION_HEADER,
+  publicToolColumns,
+  parseFieldsParam,
+  buildPublicTools,
+  loadToolHealthCheckedAt,
+} from '../../../lib/public-tool';
+import { computeEtag, cacheHeaders, isNotModified, latestDate, notModified } from '../../../lib/http-cache.mjs';
+
+export const GET: APIRoute = async ({ params, locals, url, request }) => {
   const db = getDb(locals.runtime.env.DB);
   const { slug } = params;
 
+  const projection = parseFieldsParam(url.searchParams.get('fields'));
+  if ('error' in projection) {
+    return api.error('Invalid fields parameter.', 400, { fields: projection.error });
+  }
+
   const [tool] = await db
-    .select()
+    .select(publicToolColumns)
     .from(tools)
     .where(eq(tools.slug, slug!))
     .limit(1);
@@ -21,31 +34,25 @@ export const GET: APIRoute = async ({ params, locals }) => {
     return api.error('Tool not found.', 404);
   }
 
-  const toolTags = await db
-    .select({ key: tags.tagKey, value: tags.tagValue })
-    .from(tags)
-    .where(eq(tags.toolId, tool.id));
-
-  const recentChecks = await db
-    .select({
-      isOnline: healthChecks.isOnline,
-      checkedAt: healthChecks.checkedAt,
-      httpStatus: healthChecks.httpStatus,
-      responseTimeMs: healthChecks.responseTimeMs,
-    })
-    .from(healthChecks)
-    .where(eq(healthChecks.toolId, tool.id))
-    .orderBy(desc(healthChecks.checkedAt))
-    .limit(HEALTH_TOLERANCE);
-
-  const latestHealth = recentChecks[0] || null;
-  const effectiveStatus = resolveEffectiveStatus(recentChecks);
-
-  return api.success({
-    ...tool,
-    tags: toolTags,
-    latestHealth: latestHealth
-      ? { ...latestHealth, isOnline: effectiveStatus ?? latestHealth.isOnline }
-      : null,
-  });
+  const dependsOnHealth = !projection.fields || projection.fields.includes('latestHealth');
+  const healthCheckedAt = dependsOnHealth ? await loadToolHealthCheckedAt(db, tool.id) : null;
+  const etag = await computeEtag([
+    PUBLIC_API_VERSION,
+    url.searchParams.get('fields'),
+    tool.id,
+    tool.updatedAt?.getTime() ?? null,
+    healthCheckedAt?.getTime() ?? null,
+  ]);
+  const lastModified = latestDate(tool.updatedAt, healthCheckedAt);
+  const headers = {
+    [PUBLIC_API_VERSION_HEADER]: String(PUBLIC_API_VERSION),
+    ...cacheHeaders(etag, lastModified),
+  };
+  if (isNotModified(request, etag, lastModified)) {
+    return notModified(headers);
+  }
+
+  const [publicTool] = await buildPublicTools(db, [tool], projection.fields);
+
+  return api.success(publicTool, 200, headers);
 };
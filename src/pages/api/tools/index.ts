@@ -2,73 +2,115 @@ export const prerender = false;
 
 import type { APIRoute } from 'astro';
 import { getDb } from '../../../db';
-import { tools, tags } from '../../../db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { tools } from '../../../db/schema';
+import { and, sql } from 'drizzle-orm';
 import { api } from '../../../lib/api';
+import {
+  PUBLIC_API_VERSION,
+  PUBLIC_API_VERSION_HEADER,
+  publicToolColumns,
+  parseFieldsParam,
+  buildPublicTools,
+  loadPublicToolsVersion,
+} from '../../../lib/public-tool';
+import {
+  parseToolQuery,
+  buildToolConditions,
+  buildToolOrderBy,
+  buildSortKeyColumns,
+  buildCursorCondition,
+  cursorAfterRow,
+  countFacets,
+} from '../../../lib/tool-query';
+import { loadSearchSnippets } from '../../../lib/tool-search';
+import { computeEtag, cacheHeaders, isNotModified, latestDate, notModified } from '../../../lib/http-cache.mjs';
 
-export const GET: APIRoute = async ({ locals, url }) => {
+export const GET: APIRoute = async ({ locals, url, request }) => {
   const db = getDb(locals.runtime.env.DB);
 
-  const query = url.searchParams.get('q') || '';
-  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10));
-  const perPage = 24;
+  const projection = parseFieldsParam(url.searchParams.get('fields'));
+  if ('error' in projection) {
+    return api.error('Invalid fields parameter.', 400, { fields: projection.error });
+  }
 
-  let results = await db
-    .select({
-      id: tools.id,
-      slug: tools.slug,
-      name: tools.name,
-      url: tools.url,
-      description: tools.description,
-      coreTask: tools.coreTask,
-      status: tools.status,
-      approvedAt: tools.approvedAt,
-    })
-    .from(tools)
-    .where(eq(tools.status, 'approved'));
+  const parsed = parseToolQuery(url.searchParams);
+  if ('errors' in parsed) {
+    return api.error('Invalid query parameters.', 400, parsed.errors);
+  }
+  const { query } = parsed;
+  const { page, perPage } = query;
 
-  if (query) {
-    const q = query.toLowerCase();
-    results = results.filter(
-      (t) =>
-        t.name.toLowerCase().includes(q) ||
-        (t.description && t.description.toLowerCase().includes(q))
-    );
+  // Score depends on health and on the current day (freshness), so only
+  // score-ordered responses have to change when those do.
+  const usesScore = query.sort === 'score' || query.sort === 'relevance';
+  const dependsOnHealth =
+    usesScore || query.health.length > 0 || !projection.fields || projection.fields.includes('latestHealth');
+  const version = await loadPublicToolsVersion(db, dependsOnHealth);
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  const canonicalParams = new URLSearchParams([...url.searchParams].sort(([a], [b]) => a.localeCompare(b)));
+  const etag = await computeEtag([
+    PUBLIC_API_VERSION,
+    canonicalParams.toString(),
+    version.toolCount,
+    version.updatedAt?.getTime() ?? null,
+    version.changedAt?.getTime() ?? null,
+    version.healthCheckedAt?.getTime() ?? null,
+    usesScore ? today.getTime() : null,
+  ]);
+  const lastModified = latestDate(version.updatedAt, version.changedAt, version.healthCheckedAt, usesScore ? today : null);
+  const headers = {
+    [PUBLIC_API_VERSION_HEADER]: String(PUBLIC_API_VERSION),
+    ...cacheHeaders(etag, lastModified),
+  };
+  if (isNotModified(request, etag, lastModified)) {
+    return notModified(headers);
   }
 
-  const total = results.length;
-  const paged = results.slice((page - 1) * perPage, page * perPage);
+  const where = and(...buildToolConditions(query));
 
-  // Fetch tags for paged results
-  const toolIds = paged.map((t) => t.id);
-  let toolTags: { toolId: number; tagKey: string; tagValue: string }[] = [];
-  if (toolIds.length > 0) {
-    toolTags = await db
-      .select({
-        toolId: tags.toolId,
-        tagKey: tags.tagKey,
-        tagValue: tags.tagValue,
-      })
-      .from(tags)
-      .where(sql`${tags.toolId} IN (${sql.raw(toolIds.join(','))})`);
-  }
+  // One extra row tells whether there is a next page
+  const pagedQuery = db
+    .select({ ...publicToolColumns, ...buildSortKeyColumns(query) })
+    .from(tools)
+    .where(and(where, buildCursorCondition(query)))
+    .orderBy(...buildToolOrderBy(query))
+    .limit(perPage + 1);
+
+  const [countResult, rows, facets] = await Promise.all([
+    db.select({ count: sql<number>`count(*)` }).from(tools).where(where),
+    query.cursor ? pagedQuery : pagedQuery.offset((page - 1) * perPage),
+    countFacets(db, query),
+  ]);
+  const total = countResult[0].count;
+  const hasMore = rows.length > perPage;
+  const paged = rows.slice(0, perPage);
+
+  const nextCursor = hasMore ? cursorAfterRow(query, paged[paged.length - 1]) : null;
 
-  const tagMap = new Map<number, { key: string; value: string }[]>();
-  for (const tag of toolTags) {
-    if (!tagMap.has(tag.toolId)) tagMap.set(tag.toolId, []);
-    tagMap.get(tag.toolId)!.push({ key: tag.tagKey, value: tag.tagValue });
+  let search: { query: string; locale: string; highlights: Record<string, string> } | undefined;
+  if (query.match) {
+    const snippets = await loadSearchSnippets(db, query.match, query.locale, paged.map((t) => t.id));
+    search = {
+      query: query.q,
+      locale: query.locale,
+      highlights: Object.fromEntries(paged.map((t) => [t.slug, snippets.get(t.id) ?? ''])),
+    };
   }
 
-  return api.success({
-    tools: paged.map((t) => ({
-      ...t,
-      tags: tagMap.get(t.id) || [],
-    })),
-    pagination: {
-      page,
-      perPage,
-      total,
-      totalPages: Math.ceil(total / perPage),
+  return api.success(
+    {
+      tools: await buildPublicTools(db, paged, projection.fields),
+      facets,
+      ...(search && { search }),
+      pagination: {
+        page: query.cursor ? null : page,
+        perPage,
+        total,
+        totalPages: Math.ceil(total / perPage),
+        nextCursor,
+      },
     },
-  });
+    200,
+    headers
+  );
 };
@@ -0,0 +1,22 @@
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db';
+import { api } from '../../../lib/api';
+import { unsubscribeAddress } from '../../../lib/mail';
+import { isUnsubscribeToken } from '../../../lib/receipts.mjs';
+
+// Called by the button on /unsubscribe/[token]
+export const POST: APIRoute = async ({ params, locals }) => {
+  const token = params.token || '';
+  if (!isUnsubscribeToken(token)) {
+    return api.error('Invalid unsubscribe link.', 400);
+  }
+
+  const accepted = await unsubscribeAddress(getDb(locals.runtime.env.DB), token);
+  if (!accepted) {
+    return api.error('Invalid unsubscribe link.', 400);
+  }
+
+  return api.success({ unsubscribed: true });
+};
@@ -4,6 +4,7 @@ interface Env {
   GITHUB_TOKEN?: string;
   ARCHIVE_ORG_ACCESS_KEY?: string;
   ARCHIVE_ORG_SECRET_KEY?: string;
+  RATE_LIMIT_WINDOW_HOURS?: string;
 }
 
 interface ToolRow {
@@ -40,6 +41,34 @@ function isReachable(status: number): boolean {
 const HEALTH_TOLERANCE = 5;
 const HEALTH_WINDOW_HOURS = 48;
 
+const WEBHOOK_MAX_ATTEMPTS = 6;
+/** First retry after 5 minutes, then ×4 each time (5m, 20m, 80m, ~5h, ~21h). */
+const WEBHOOK_RETRY_BASE_SECONDS = 300;
+const WEBHOOK_BATCH_LIMIT = 25;
+const WEBHOOK_LOG_RETENTION_DAYS = 30;
+
+/**
+ * API rate-limit buckets (see src/lib/rate-limit.ts) idle this long have
+ * refilled completely, so deleting them changes nothing. Must exceed the
+ * longest bucket window (the submission quota, 24h by default). Per-IP
+ * buckets go as soon as they have refilled.
+ */
+const RATE_LIMIT_BUCKET_TTL_DAYS = 7;
+
+/** Keep in sync with the anonymous API bucket in src/lib/rate-limit.ts. */
+const API_IP_BUCKET_WINDOW_SECONDS = 60;
+
+/** Keep in sync with DEFAULT_SUBMISSION_WINDOW_HOURS in src/lib/rate-limit.ts. */
+const DEFAULT_SUBMISSION_WINDOW_HOURS = 24;
+
+/** Blocked submissions stay visible in the admin Spam tab this long. */
+const BLOCKED_SUBMISSION_TTL_DAYS = 30;
+
+const TRACKER_SCAN_BATCH_LIMIT = 20;
+const TRACKER_SCAN_INTERVAL_DAYS = 7;
+/** Only the start of the page is scanned; tracker snippets sit in <head>. */
+const TRACKER_SCAN_MAX_HTML_LENGTH = 500_000;
+
 const CATEGORY_ORDER = [
   'AI', 'Design', 'Writing', 'Development', 'Productivity', 'Media',
   'Privacy', 'Data', 'Communication', 'Education', 'Finance',
@@ -55,12 +84,18 @@ export default {
 
     if (cron === '0 */6 * * *') {
       await runHealthChecks(env, ctx);
+      await purgeIdleRateLimitBuckets(env);
+      await purgeBlockedSubmissionChecks(env);
+      await purgeStaleIpHashes(env);
     } else if (cron === '0 3 * * *') {
       await runDataExport(env, ctx);
     } else if (cron === '0 4 * * *') {
       await runBadgeDetection(env, ctx);
+      await runTrackerScan(env);
     } else if (cron === '0 5 * * *') {
       await runGitHubDataRefresh(env);
+    } else if (cron === '*/5 * * * *') {
+      await runWebhookDeliveries(env);
     }
   },
 };
@@ -146,21 +181,25 @@ async function runHealthChecks(env: Env, ctx: ExecutionContext) {
           'INSERT INTO health_checks (tool_id, checked_at, is_online, http_status, response_time_ms) VALUES (?, ?, ?, ?, ?)'
         ).bind(r.toolId, now, r.isOnline ? 1 : 0, r.httpStatus, r.responseTimeMs).run();
 
-        // Archive offline tools only after HEALTH_TOLERANCE consecutive failures within window
-        if (
-          !r.isOnline &&
-          !r.archiveUrl &&
-          env.ARCHIVE_ORG_ACCESS_KEY &&
-          env.ARCHIVE_ORG_SECRET_KEY
-        ) {
-          const windowCutoff = Math.floor(Date.now() / 1000) - HEALTH_WINDOW_HOURS * 3600;
+        // A tool counts as offline after HEALTH_TOLERANCE consecutive failures within window
+        if (!r.isOnline) {
+          // One extra row tells whether the tool was already offline before this check
           const recentChecks = await env.DB.prepare(
-            `SELECT is_online FROM health_checks WHERE tool_id = ? AND checked_at > ? ORDER BY checked_at DESC LIMIT ${HEALTH_TOLERANCE}`
-          ).bind(r.toolId, windowCutoff).all<{ is_online: number }>();
+            `SELECT is_online, checked_at FROM health_checks WHERE tool_id = ? ORDER BY checked_at DESC LIMIT ${HEALTH_TOLERANCE + 1}`
+          ).bind(r.toolId).all<{ is_online: number; checked_at: number }>();
           const rows = recentChecks.results || [];
-          const allOffline = rows.length >= HEALTH_TOLERANCE && rows.every((row) => row.is_online === 0);
-          if (allOffline) {
-            ctx.waitUntil(archiveUrl(r.url, r.toolId, env));
+
+          if (isOfflineStreak(rows)) {
+            if (!r.archiveUrl && env.ARCHIVE_ORG_ACCESS_KEY && env.ARCHIVE_ORG_SECRET_KEY) {
+              ctx.waitUntil(archiveUrl(r.url, r.toolId, env));
+            }
+            // Notify only on the check that crosses the threshold
+            if (!isOfflineStreak(rows.slice(1))) {
+              await enqueueWebhookEvent(env, 'tool.offline', r.toolId, {
+                httpStatus: r.httpStatus,
+                consecutiveFailures: HEALTH_TOLERANCE,
+              });
+            }
           }
         }
       }
@@ -174,6 +213,17 @@ async function runHealthChecks(env: Env, ctx: ExecutionContext) {
   ).bind(thirtyDaysAgo).run();
 }
 
+/**
+ * Whether the newest HEALTH_TOLERANCE checks (newest first) are all offline
+ * and fall within HEALTH_WINDOW_HOURS of the newest one.
+ */
+function isOfflineStreak(rows: { is_online: number; checked_at: number }[]): boolean {
+  const streak = rows.slice(0, HEALTH_TOLERANCE);
+  if (streak.length < HEALTH_TOLERANCE) return false;
+  const windowCutoff = streak[0].checked_at - HEALTH_WINDOW_HOURS * 3600;
+  return streak.every((row) => row.is_online === 0 && row.checked_at > windowCutoff);
+}
+
 async function archiveUrl(url: string, toolId: number, env: Env) {
   try {
     const response = await fetch('https://web.archive.org/save', {
@@ -196,6 +246,61 @@ async function archiveUrl(url: string, toolId: number, env: Env) {
   }
 }
 
+// ─── Rate Limit Buckets (every 6 hours) ───
+
+/** The window of the submission and edit quotas, RATE_LIMIT_WINDOW_HOURS. */
+function quotaWindowHours(env: Env): number {
+  const configured = parseInt(env.RATE_LIMIT_WINDOW_HOURS || '', 10);
+  return configured > 0 ? configured : DEFAULT_SUBMISSION_WINDOW_HOURS;
+}
+
+async function purgeIdleRateLimitBuckets(env: Env) {
+  // updated_at is in milliseconds. Per-IP bucket keys hold an IP hash that
+  // does not rotate, so they are not kept past their window.
+  const now = Date.now();
+  await env.DB.prepare(
+    "DELETE FROM rate_limit_buckets WHERE bucket_key LIKE 'api:ip:%' AND updated_at < ?"
+  ).bind(now - API_IP_BUCKET_WINDOW_SECONDS * 1000).run();
+  await env.DB.prepare(
+    "DELETE FROM rate_limit_buckets WHERE (bucket_key LIKE 'submit:ip:%' OR bucket_key LIKE 'edit:ip:%') AND updated_at < ?"
+  ).bind(now - quotaWindowHours(env) * 3600 * 1000).run();
+  await env.DB.prepare(
+    'DELETE FROM rate_limit_buckets WHERE updated_at < ?'
+  ).bind(now - RATE_LIMIT_BUCKET_TTL_DAYS * 86400 * 1000).run();
+}
+
+// ─── Blocked Submissions (every 6 hours) ───
+
+async function purgeBlockedSubmissionChecks(env: Env) {
+  // Blocked submissions have no tool row; checks of accepted ones go with
+  // their tool
+  const cutoff = Math.floor(Date.now() / 1000) - BLOCKED_SUBMISSION_TTL_DAYS * 86400;
+  await env.DB.prepare(
+    'DELETE FROM submission_checks WHERE blocked = 1 AND checked_at < ?'
+  ).bind(cutoff).run();
+}
+
+// ─── IP Hashes (every 6 hours) ───
+
+async function purgeStaleIpHashes(env: Env) {
+  // Stored hashes (see hashIp in src/lib/utils.ts) are only kept for the
+  // longest rate-limit window, the submission quota
+  const cutoff = Math.floor(Date.now() / 1000) - quotaWindowHours(env) * 3600;
+  await env.DB.prepare(
+    'UPDATE tools SET submitter_ip_hash = NULL WHERE submitter_ip_hash IS NOT NULL AND submitted_at < ?'
+  ).bind(cutoff).run();
+  await env.DB.prepare(
+    'UPDATE edit_suggestions SET submitter_ip_hash = NULL, submitter_source_hash = NULL WHERE (submitter_ip_hash IS NOT NULL OR submitter_source_hash IS NOT NULL) AND submitted_at < ?'
+  ).bind(cutoff).run();
+  await env.DB.prepare(
+    'UPDATE submission_checks SET submitter_ip_hash = NULL WHERE submitter_ip_hash IS NOT NULL AND checked_at < ?'
+  ).bind(cutoff).run();
+  // Blocked sources keep their hash until the block expires
+  await env.DB.prepare(
+    'DELETE FROM edit_source_blocks WHERE expires_at <= ?'
+  ).bind(Math.floor(Date.now() / 1000)).run();
+}
+
 // ─── GitHub Data Refresh (daily 05:00 UTC) ───
 
 async function runGitHubDataRefresh(env: Env) {
@@ -302,6 +407,11 @@ async function runBadgeDetection(env: Env, ctx: ExecutionContext) {
   const batchSize = 5;
   const now = Math.floor(Date.now() / 1000);
 
+  const previous = await env.DB.prepare(
+    'SELECT tool_id, display_type FROM badge_displays'
+  ).all<{ tool_id: number; display_type: string }>();
+  const previousDisplay = new Map((previous.results || []).map((row) => [row.tool_id, row.display_type]));
+
   for (let i = 0; i < batch.length; i += batchSize) {
     const chunk = batch.slice(i, i + batchSize);
     const results = await Promise.allSettled(
@@ -320,7 +430,7 @@ async function runBadgeDetection(env: Env, ctx: ExecutionContext) {
           clearTimeout(timeout);
 
           if (!response.ok) {
-            return { toolId: tool.id, displayType: 'none' as const };
+            return { toolId: tool.id, displayType: 'none' as const, fetched: false };
           }
 
           const html = await response.text();
@@ -331,7 +441,7 @@ async function runBadgeDetection(env: Env, ctx: ExecutionContext) {
             html.includes('nologin.tools/badge/') ||
             html.includes('nologin.tools/badges/')
           ) {
-            return { toolId: tool.id, displayType: 'explicit' as const };
+            return { toolId: tool.id, displayType: 'explicit' as const, fetched: true };
           }
 
           // Check for implicit (meta tag or nologin.tools link)
@@ -339,12 +449,12 @@ async function runBadgeDetection(env: Env, ctx: ExecutionContext) {
             html.includes('nologin-verified') ||
             html.includes('nologin.tools')
           ) {
-            return { toolId: tool.id, displayType: 'implicit' as const };
+            return { toolId: tool.id, displayType: 'implicit' as const, fetched: true };
           }
 
-          return { toolId: tool.id, displayType: 'none' as const };
+          return { toolId: tool.id, displayType: 'none' as const, fetched: true };
         } catch {
-          return { toolId: tool.id, displayType: 'none' as const };
+          return { toolId: tool.id, displayType: 'none' as const, fetched: false };
         }
       })
     );
@@ -358,9 +468,439 @@ async function runBadgeDetection(env: Env, ctx: ExecutionContext) {
            VALUES (?, ?, ?)
            ON CONFLICT(tool_id) DO UPDATE SET display_type = excluded.display_type, last_checked_at = excluded.last_checked_at`
         ).bind(r.toolId, r.displayType, now).run();
+
+        // Only a page we could actually read counts as losing the badge
+        const before = previousDisplay.get(r.toolId);
+        if (r.fetched && r.displayType === 'none' && (before === 'explicit' || before === 'implicit')) {
+          await enqueueWebhookEvent(env, 'tool.badge_lost', r.toolId, { previousDisplayType: before });
+        }
+      }
+    }
+  }
+}
+
+// ─── Tracker Scan (daily 04:00 UTC, after badge detection) ───
+
+type TrackerCategory = 'analytics' | 'advertising' | 'session-replay' | 'social';
+
+interface TrackerFinding {
+  name: string;
+  category: TrackerCategory;
+  hosts: string[];
+  thirdPartyCookies: boolean;
+}
+
+interface CookieFinding {
+  name: string;
+  tracker: string;
+}
+
+/**
+ * Inline version of the catalog in src/lib/trackers.mjs (can't import
+ * src/lib); keep the two in sync. `match` is a domain with an optional path.
+ */
+const KNOWN_TRACKERS: { name: string; category: TrackerCategory; match: string[]; thirdPartyCookies?: boolean }[] = [
+  { name: 'Google Tag Manager', category: 'analytics', match: ['googletagmanager.com'] },
+  { name: 'Google Analytics', category: 'analytics', match: ['google-analytics.com', 'analytics.google.com'] },
+  { name: 'Meta Pixel', category: 'advertising', match: ['connect.facebook.net', 'facebook.com/tr'], thirdPartyCookies: true },
+  { name: 'Hotjar', category: 'session-replay', match: ['hotjar.com', 'hotjar.io'] },
+  { name: 'Mixpanel', category: 'analytics', match: ['mxpnl.com', 'mixpanel.com'] },
+  { name: 'Segment', category: 'analytics', match: ['segment.com', 'segment.io'] },
+  { name: 'Amplitude', category: 'analytics', match: ['amplitude.com'] },
+  { name: 'Heap', category: 'analytics', match: ['heapanalytics.com'] },
+  { name: 'PostHog', category: 'analytics', match: ['posthog.com'] },
+  { name: 'Yandex Metrica', category: 'analytics', match: ['mc.yandex.ru', 'mc.yandex.com'] },
+  { name: 'Microsoft Clarity', category: 'session-replay', match: ['clarity.ms'] },
+  { name: 'FullStory', category: 'session-replay', match: ['fullstory.com'] },
+  { name: 'Google Ad Manager', category: 'advertising', match: ['doubleclick.net', 'googletagservices.com'], thirdPartyCookies: true },
+  { name: 'Google AdSense', category: 'advertising', match: ['googlesyndication.com', 'googleadservices.com'], thirdPartyCookies: true },
+  { name: 'Microsoft Advertising', category: 'advertising', match: ['bat.bing.com'], thirdPartyCookies: true },
+  { name: 'TikTok Pixel', category: 'advertising', match: ['analytics.tiktok.com'], thirdPartyCookies: true },
+  { name: 'LinkedIn Insight', category: 'advertising', match: ['snap.licdn.com', 'px.ads.linkedin.com'], thirdPartyCookies: true },
+  { name: 'X Pixel', category: 'advertising', match: ['static.ads-twitter.com', 'analytics.twitter.com'], thirdPartyCookies: true },
+  { name: 'Amazon Ads', category: 'advertising', match: ['amazon-adsystem.com'], thirdPartyCookies: true },
+  { name: 'Criteo', category: 'advertising', match: ['criteo.com', 'criteo.net'], thirdPartyCookies: true },
+  { name: 'Taboola', category: 'advertising', match: ['taboola.com'], thirdPartyCookies: true },
+  { name: 'Outbrain', category: 'advertising', match: ['outbrain.com'], thirdPartyCookies: true },
+  { name: 'AddThis', category: 'social', match: ['addthis.com'], thirdPartyCookies: true },
+  { name: 'ShareThis', category: 'social', match: ['sharethis.com'], thirdPartyCookies: true },
+];
+
+const TRACKING_COOKIES = [
+  { pattern: /^_ga(?:_|$)|^_gid$/, tracker: 'Google Analytics' },
+  { pattern: /^_gcl_/, tracker: 'Google Ads' },
+  { pattern: /^_fbp$|^_fbc$/, tracker: 'Meta Pixel' },
+  { pattern: /^_hj/, tracker: 'Hotjar' },
+  { pattern: /^mp_/, tracker: 'Mixpanel' },
+  { pattern: /^ajs_/, tracker: 'Segment' },
+  { pattern: /^amp_/, tracker: 'Amplitude' },
+  { pattern: /^_clck$|^_clsk$/, tracker: 'Microsoft Clarity' },
+  { pattern: /^_uet(?:sid|vid)$/, tracker: 'Microsoft Advertising' },
+  { pattern: /^_ym_/, tracker: 'Yandex Metrica' },
+];
+
+/** Categories that rule out "Privacy Focused", not just "No Trackers". */
+const INVASIVE_TRACKER_CATEGORIES = new Set<TrackerCategory>(['advertising', 'session-replay']);
+
+async function runTrackerScan(env: Env) {
+  const now = Math.floor(Date.now() / 1000);
+  const staleBefore = now - TRACKER_SCAN_INTERVAL_DAYS * 86400;
+
+  // Never-scanned tools first, then the oldest scans
+  const due = await env.DB.prepare(`
+    SELECT t.id, t.url FROM tools t
+    LEFT JOIN tracker_scans s ON s.tool_id = t.id
+    WHERE t.status = 'approved' AND (s.scanned_at IS NULL OR s.scanned_at < ?)
+    ORDER BY s.scanned_at IS NULL DESC, s.scanned_at ASC
+    LIMIT ${TRACKER_SCAN_BATCH_LIMIT}
+  `).bind(staleBefore).all<{ id: number; url: string }>();
+
+  const batch = (due.results || []).filter((tool) => {
+    // Workers cannot fetch themselves (see runHealthChecks)
+    try {
+      return new URL(tool.url).hostname !== new URL(env.SITE_URL).hostname;
+    } catch {
+      return false;
+    }
+  });
+  console.log(`[TrackerScan] ${batch.length} tools to scan`);
+  const batchSize = 5;
+
+  for (let i = 0; i < batch.length; i += batchSize) {
+    const chunk = batch.slice(i, i + batchSize);
+    const results = await Promise.allSettled(
+      chunk.map(async (tool) => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 15000);
+        try {
+          const response = await fetch(tool.url, {
+            signal: controller.signal,
+            redirect: 'follow',
+            headers: { 'User-Agent': 'NoLoginTools-TrackerScanner/1.0' },
+          });
+          if (!response.ok) return { toolId: tool.id, scanned: false as const };
+
+          const html = (await response.text()).slice(0, TRACKER_SCAN_MAX_HTML_LENGTH);
+          return {
+            toolId: tool.id,
+            scanned: true as const,
+            httpStatus: response.status,
+            trackers: detectTrackers(html),
+            cookies: detectTrackingCookies(response.headers.getSetCookie()),
+          };
+        } catch {
+          return { toolId: tool.id, scanned: false as const };
+        } finally {
+          clearTimeout(timeout);
+        }
+      })
+    );
+
+    const scannedAt = Math.floor(Date.now() / 1000);
+
+    for (const result of results) {
+      // Unreachable pages keep their previous findings and are retried next run
+      if (result.status !== 'fulfilled' || !result.value.scanned) continue;
+      const r = result.value;
+
+      await env.DB.prepare(
+        `INSERT INTO tracker_scans (tool_id, scanned_at, http_status, trackers, cookies)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(tool_id) DO UPDATE SET scanned_at = excluded.scanned_at, http_status = excluded.http_status, trackers = excluded.trackers, cookies = excluded.cookies`
+      ).bind(r.toolId, scannedAt, r.httpStatus, JSON.stringify(r.trackers), JSON.stringify(r.cookies)).run();
+
+      if (r.trackers.length > 0 || r.cookies.length > 0) {
+        console.log(`[TrackerScan] Tool #${r.toolId}: ${r.trackers.map((t) => t.name).join(', ') || 'tracking cookies'}`);
+        await suggestPrivacyTagCorrection(env, r.toolId, r.trackers, r.cookies, scannedAt);
+      }
+    }
+  }
+}
+
+/** URLs a page loads: script/img/iframe sources and URLs in inline scripts. */
+function loadedUrls(html: string): URL[] {
+  const urls: URL[] = [];
+  const add = (value: string) => {
+    try {
+      urls.push(new URL(value.startsWith('//') ? `https:${value}` : value));
+    } catch {
+      // Relative or malformed; first-party either way
+    }
+  };
+
+  for (const match of html.matchAll(/<(?:script|img|iframe)\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi)) {
+    add(match[1]);
+  }
+  for (const match of html.matchAll(/<script\b(?![^>]*\bsrc\s*=)[^>]*>([\s\S]*?)<\/script>/gi)) {
+    for (const url of match[1].matchAll(/(?:https?:)?\/\/[a-z0-9.-]+\.[a-z]{2,}(?:\/[^\s"'`)<>]*)?/gi)) {
+      add(url[0]);
+    }
+  }
+  return urls;
+}
+
+function matchesTrackerPattern(url: URL, pattern: string): boolean {
+  const slash = pattern.indexOf('/');
+  const domain = slash === -1 ? pattern : pattern.slice(0, slash);
+  const host = url.hostname.toLowerCase();
+  if (host !== domain && !host.endsWith(`.${domain}`)) return false;
+  return slash === -1 || url.pathname.startsWith(pattern.slice(slash));
+}
+
+function detectTrackers(html: string): TrackerFinding[] {
+  const urls = loadedUrls(html);
+  const found: TrackerFinding[] = [];
+  for (const tracker of KNOWN_TRACKERS) {
+    const hosts = new Set<string>();
+    for (const url of urls) {
+      if (tracker.match.some((pattern) => matchesTrackerPattern(url, pattern))) hosts.add(url.hostname.toLowerCase());
+    }
+    if (hosts.size > 0) {
+      found.push({
+        name: tracker.name,
+        category: tracker.category,
+        hosts: [...hosts].sort(),
+        thirdPartyCookies: tracker.thirdPartyCookies === true,
+      });
+    }
+  }
+  return found;
+}
+
+function detectTrackingCookies(setCookieHeaders: string[]): CookieFinding[] {
+  const found: CookieFinding[] = [];
+  const seen = new Set<string>();
+  for (const header of setCookieHeaders) {
+    const name = header.split('=', 1)[0].trim();
+    if (!name || seen.has(name)) continue;
+    const known = TRACKING_COOKIES.find((cookie) => cookie.pattern.test(name));
+    if (!known) continue;
+    seen.add(name);
+    found.push({ name, tracker: known.tracker });
+  }
+  return found;
+}
+
+/**
+ * Propose removing privacy tags the scan contradicts, as an edit suggestion
+ * for the admin to review — same rules as proposePrivacyTags() in
+ * src/lib/trackers.mjs. Tags are never added: a clean scan of the landing
+ * page does not prove a tool is tracker-free.
+ */
+async function suggestPrivacyTagCorrection(
+  env: Env,
+  toolId: number,
+  trackers: TrackerFinding[],
+  cookies: CookieFinding[],
+  now: number
+) {
+  try {
+    const tagRows = await env.DB.prepare(
+      'SELECT tool_id, tag_key, tag_value FROM tags WHERE tool_id = ?'
+    ).bind(toolId).all<TagRow>();
+    const current = (tagRows.results || []).map((row) => ({ key: row.tag_key, value: row.tag_value }));
+
+    const remove = new Set(['No Trackers']);
+    if (trackers.some((t) => INVASIVE_TRACKER_CATEGORIES.has(t.category))) remove.add('Privacy Focused');
+    const removed = current.filter((tag) => tag.key === 'privacy' && remove.has(tag.value));
+    if (removed.length === 0) return;
+
+    // Suggested tags never include the source tag; approval re-derives it
+    const proposed = current.filter((tag) => tag.key !== 'source' && !removed.includes(tag));
+    const newValue = JSON.stringify(proposed);
+
+    // One open tags suggestion per tool, and never re-propose a rejected correction
+    const existing = await env.DB.prepare(
+      "SELECT id FROM edit_suggestions WHERE tool_id = ? AND field_name = 'tags' AND (status = 'pending' OR (status = 'rejected' AND new_value = ?)) LIMIT 1"
+    ).bind(toolId, newValue).first();
+    if (existing) return;
+
+    const names = [...new Set([...trackers.map((t) => t.name), ...cookies.map((c) => c.tracker)])];
+    const reason = `Automated tracker scan found ${names.join(', ')} on the landing page, which contradicts ${removed.map((tag) => `"${tag.value}"`).join(' and ')}.`;
+
+    await env.DB.prepare(
+      "INSERT INTO edit_suggestions (tool_id, field_name, old_value, new_value, reason, status, submitted_at) VALUES (?, 'tags', ?, ?, ?, 'pending', ?)"
+    ).bind(toolId, JSON.stringify(current), newValue, reason, now).run();
+    console.log(`[TrackerScan] Suggested removing ${removed.map((tag) => tag.value).join(', ')} from tool #${toolId}`);
+  } catch (err: any) {
+    console.error(`[TrackerScan] Failed to suggest tag correction for tool #${toolId}: ${err.message}`);
+  }
+}
+
+// ─── Webhook Deliveries (every 5 minutes) ───
+
+interface WebhookDeliveryRow {
+  id: number;
+  event_type: string;
+  payload: string;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+async function runWebhookDeliveries(env: Env) {
+  const now = Math.floor(Date.now() / 1000);
+
+  const due = await env.DB.prepare(`
+    SELECT d.id, d.event_type, d.payload, d.attempts, w.url, w.secret
+    FROM webhook_deliveries d
+    INNER JOIN webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.is_active = 1
+    ORDER BY d.next_attempt_at ASC
+    LIMIT ${WEBHOOK_BATCH_LIMIT}
+  `).bind(now).all<WebhookDeliveryRow>();
+
+  const batch = due.results || [];
+  if (batch.length > 0) console.log(`[Webhooks] ${batch.length} deliveries due`);
+  const batchSize = 5;
+
+  for (let i = 0; i < batch.length; i += batchSize) {
+    const chunk = batch.slice(i, i + batchSize);
+    const results = await Promise.allSettled(
+      chunk.map(async (delivery) => {
+        const timestamp = Math.floor(Date.now() / 1000);
+        try {
+          const signature = await signWebhookPayload(delivery.secret, timestamp, delivery.payload);
+          const controller = new AbortController();
+          const timeout = setTimeout(() => controller.abort(), 10000);
+
+          const response = await fetch(delivery.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'NoLoginTools-Webhooks/1.0',
+              'X-NoLogin-Event': delivery.event_type,
+              'X-NoLogin-Delivery': String(delivery.id),
+              'X-NoLogin-Timestamp': String(timestamp),
+              'X-NoLogin-Signature': `sha256=${signature}`,
+            },
+            body: delivery.payload,
+            signal: controller.signal,
+            redirect: 'manual',
+          });
+          clearTimeout(timeout);
+
+          return {
+            delivery,
+            ok: response.status >= 200 && response.status < 300,
+            status: response.status as number | null,
+            error: response.status >= 200 && response.status < 300 ? null : `HTTP ${response.status}`,
+          };
+        } catch (err: any) {
+          return { delivery, ok: false, status: null, error: err?.message || 'Request failed' };
+        }
+      })
+    );
+
+    const finishedAt = Math.floor(Date.now() / 1000);
+
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue;
+      const { delivery, ok, status, error } = result.value;
+      const attempts = delivery.attempts + 1;
+
+      if (ok) {
+        await env.DB.prepare(
+          "UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, error_message = NULL, next_attempt_at = NULL, delivered_at = ? WHERE id = ?"
+        ).bind(attempts, status, finishedAt, delivery.id).run();
+      } else if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+        await env.DB.prepare(
+          "UPDATE webhook_deliveries SET status = 'failed', attempts = ?, response_status = ?, error_message = ?, next_attempt_at = NULL WHERE id = ?"
+        ).bind(attempts, status, (error || '').slice(0, 500), delivery.id).run();
+        console.warn(`[Webhooks] Delivery #${delivery.id} failed after ${attempts} attempts: ${error}`);
+      } else {
+        const nextAttemptAt = finishedAt + WEBHOOK_RETRY_BASE_SECONDS * 4 ** (attempts - 1);
+        await env.DB.prepare(
+          'UPDATE webhook_deliveries SET attempts = ?, response_status = ?, error_message = ?, next_attempt_at = ? WHERE id = ?'
+        ).bind(attempts, status, (error || '').slice(0, 500), nextAttemptAt, delivery.id).run();
       }
     }
   }
+
+  // Keep the delivery log bounded; pending rows stay until they resolve
+  const cutoff = now - WEBHOOK_LOG_RETENTION_DAYS * 86400;
+  await env.DB.prepare(
+    "DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?"
+  ).bind(cutoff).run();
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}`; receivers recompute it with their secret. */
+async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Queue a webhook event for every active subscription that wants it — inline
+ * version of enqueueWebhookEvent in src/lib/webhooks.ts; keep the payload in sync.
+ */
+async function enqueueWebhookEvent(
+  env: Env,
+  event: 'tool.offline' | 'tool.badge_lost',
+  toolId: number,
+  data: Record<string, unknown>
+) {
+  try {
+    const subscriptions = await env.DB.prepare(
+      'SELECT id, events, categories FROM webhooks WHERE is_active = 1'
+    ).all<{ id: number; events: string; categories: string | null }>();
+    const interested = (subscriptions.results || []).filter((w) => parseJsonArray(w.events).includes(event));
+    if (interested.length === 0) return;
+
+    const tool = await env.DB.prepare(
+      'SELECT id, slug, name, url FROM tools WHERE id = ?'
+    ).bind(toolId).first<{ id: number; slug: string; name: string; url: string }>();
+    if (!tool) return;
+
+    const categoryRows = await env.DB.prepare(
+      "SELECT tag_value FROM tags WHERE tool_id = ? AND tag_key = 'category'"
+    ).bind(toolId).all<{ tag_value: string }>();
+    const categories = (categoryRows.results || []).map((row) => row.tag_value);
+
+    const targets = interested.filter((w) => {
+      const wanted = parseJsonArray(w.categories);
+      return wanted.length === 0 || wanted.some((c) => categories.includes(c));
+    });
+    if (targets.length === 0) return;
+
+    const now = new Date();
+    const payload = JSON.stringify({
+      id: crypto.randomUUID(),
+      type: event,
+      createdAt: now.toISOString(),
+      tool: { ...tool, pageUrl: `${env.SITE_URL}/tool/${tool.slug}`, categories },
+      data,
+    });
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+
+    for (const target of targets) {
+      await env.DB.prepare(
+        "INSERT INTO webhook_deliveries (webhook_id, event_type, tool_id, payload, status, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)"
+      ).bind(target.id, event, toolId, payload, nowSeconds, nowSeconds).run();
+    }
+  } catch (err: any) {
+    console.error(`[Webhooks] Failed to queue ${event} for tool #${toolId}: ${err.message}`);
+  }
+}
+
+function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
 }
 
 // ─── Data Export (daily 03:00 UTC) ───